@@ -2,6 +2,8 @@ import { EventBus } from "../events/EventBus";
 import { Table } from "./Table";
 import { TableFactory } from "./TableFactory";
 import { TABLE_EVENTS } from "../events/EventTypes";
+import { GamePhaseConfig } from "./PhaseMachine";
+import { RateLimit } from "./RateLimiter";
 
 export interface GameDefinition {
   id: string;
@@ -11,11 +13,17 @@ export interface GameDefinition {
   maxPlayers: number;
   defaultSeats: number;
   maxSeatsPerPlayer: number;
+  // Maximum number of spectators per table
+  maxSpectators?: number;
   options?: Record<string, any>;
+  // Declare the phases of the game and their allowed transitions
+  phases?: GamePhaseConfig;
   // Define which player attributes should trigger a table state update when changed
   tableRelevantPlayerAttributes?: string[];
   // Define which player attributes should trigger a lobby update when changed
   lobbyRelevantPlayerAttributes?: string[];
+  // Limit how fast each player at a table of the game can send commands, by action
+  rateLimits?: Record<string, RateLimit>;
 }
 
 export class GameManager {
@@ -77,7 +85,7 @@ export class GameManager {
   }
 
   /**
-   * Removes a table from the game manager.
+   * Removes a table from the game manager and disposes it.
    * 
    * @param tableId The ID of the table to remove.
    */
@@ -91,6 +99,7 @@ export class GameManager {
     }
 
     this.tables.delete(tableId);
+    table.dispose();
   }
 
   /**
@@ -1,9 +1,17 @@
 import { EventBus } from "../events/EventBus";
 import { LOBBY_EVENTS, PLAYER_EVENTS, TABLE_EVENTS } from "../events/EventTypes";
-import { GameManager } from "./GameManager";
 import { Player } from "./Player";
 import { Table } from "./Table";
 import { TableFactory } from "./TableFactory";
+import { GameDefinition, GameManager } from "./GameManager";
+
+/**
+ * The lobby state sent to players with every lobby update.
+ */
+export interface LobbyState {
+  games: GameDefinition[];
+  tables: Record<string, any>[];
+}
 
 /**
  * ✅ Attribute Support
@@ -86,7 +94,8 @@ export class Lobby {
 
     const table = this.tableFactory.createTable(
       gameDefinition.defaultSeats,
-      gameDefinition.maxSeatsPerPlayer
+      gameDefinition.maxSeatsPerPlayer,
+      { maxSpectators: gameDefinition.maxSpectators }
     );
     
     table.setAttribute("gameId", gameId);
@@ -95,6 +104,11 @@ export class Lobby {
       table.setAttribute("options", options);
     }
 
+    // Enter the initial phase if the game declares its phases
+    if (gameDefinition.phases) {
+      table.setPhases(gameDefinition.phases);
+    }
+
     // Call the setupTable function if provided in game definition options
     if (gameDefinition.options?.setupTable && typeof gameDefinition.options.setupTable === 'function') {
       gameDefinition.options.setupTable(table);
@@ -109,7 +123,7 @@ export class Lobby {
    * Broadcasts a lobby update to all players.
    */
   private broadcastLobbyUpdate(): void {
-    const lobbyState = {
+    const lobbyState: LobbyState = {
       games: this.gameManager.getAvailableGames(),
       tables: this.gameManager.getAllTables().map(table => table.getTableMetadata())
     };
@@ -0,0 +1,171 @@
+import { EventBus } from "../events/EventBus";
+import { TABLE_EVENTS } from "../events/TableEvents";
+import type { Table, TableState } from "./Table";
+
+/**
+ * Declares a single phase of a game, such as "betting", "dealing" or "showdown".
+ */
+export interface GamePhaseDefinition {
+  /** The unique name of the phase. */
+  name: string;
+  /** The names of the phases that can be entered from this phase. */
+  transitions: string[];
+  /** The coarse table state that applies while this phase is active. */
+  tableState?: TableState;
+  /** Guard that must return true for the phase to be entered. */
+  guard?: (table: Table, from: string | null) => boolean;
+  /** Called after the phase has been entered. */
+  onEnter?: (table: Table, from: string | null) => void;
+  /** Called before the phase is left. */
+  onExit?: (table: Table, to: string) => void;
+}
+
+/**
+ * Declares the phases of a game and the phase a table starts in.
+ */
+export interface GamePhaseConfig {
+  /** The name of the phase a table starts in. */
+  initial: string;
+  /** All phases of the game. */
+  phases: GamePhaseDefinition[];
+}
+
+/**
+ * A state machine that drives the phases of a [Table](/api/classes/table/).
+ *
+ * Phases and their allowed transitions are declared up front, usually in the
+ * [GameDefinition](/api/interfaces/gamedefinition/). Transitions that are not declared,
+ * or whose guard rejects them, are refused. Emits TABLE_EVENTS.PHASE_CHANGED when the phase changes.
+ */
+export class PhaseMachine {
+  private table: Table;
+  private eventBus: EventBus;
+  private phases: Map<string, GamePhaseDefinition> = new Map();
+  private currentPhase: string | null = null;
+  private readonly initialPhase: string;
+  private onChange?: (to: string, from: string | null) => void;
+
+  /**
+   * @param table The table driven by this machine.
+   * @param eventBus The event bus to emit phase events on.
+   * @param config The declared phases.
+   * @param onChange Optional callback invoked when the phase changes, before TABLE_EVENTS.PHASE_CHANGED is emitted.
+   */
+  constructor(
+    table: Table,
+    eventBus: EventBus,
+    config: GamePhaseConfig,
+    onChange?: (to: string, from: string | null) => void
+  ) {
+    this.table = table;
+    this.eventBus = eventBus;
+    this.onChange = onChange;
+
+    for (const phase of config.phases) {
+      if (this.phases.has(phase.name)) {
+        throw new Error(`Duplicate phase: ${phase.name}`);
+      }
+      this.phases.set(phase.name, phase);
+    }
+
+    for (const phase of config.phases) {
+      for (const target of phase.transitions) {
+        if (!this.phases.has(target)) {
+          throw new Error(`Phase ${phase.name} declares a transition to unknown phase: ${target}`);
+        }
+      }
+    }
+
+    if (!this.phases.has(config.initial)) {
+      throw new Error(`Unknown initial phase: ${config.initial}`);
+    }
+    this.initialPhase = config.initial;
+  }
+
+  /**
+   * Enters the initial phase. Has no effect if the machine has already started.
+   *
+   * @returns True if the initial phase was entered.
+   */
+  public start(): boolean {
+    if (this.currentPhase !== null) return false;
+    return this.enter(this.initialPhase);
+  }
+
+  /**
+   * Gets the name of the current phase.
+   *
+   * @returns The current phase or null if the machine has not started.
+   */
+  public getPhase(): string | null {
+    return this.currentPhase;
+  }
+
+  /**
+   * Gets the definition of a phase.
+   *
+   * @param name The name of the phase.
+   * @returns The phase definition or undefined if the phase does not exist.
+   */
+  public getPhaseDefinition(name: string): GamePhaseDefinition | undefined {
+    return this.phases.get(name);
+  }
+
+  /**
+   * Gets the names of all declared phases.
+   *
+   * @returns An array of phase names.
+   */
+  public getPhaseNames(): string[] {
+    return Array.from(this.phases.keys());
+  }
+
+  /**
+   * Gets the phases that can be entered from the current phase.
+   *
+   * @returns An array of phase names.
+   */
+  public getAvailableTransitions(): string[] {
+    if (this.currentPhase === null) return [this.initialPhase];
+    return [...this.phases.get(this.currentPhase)!.transitions];
+  }
+
+  /**
+   * Checks whether the machine can transition to a phase.
+   *
+   * @param to The name of the phase to enter.
+   * @returns True if the transition is declared and its guard allows it.
+   */
+  public canTransition(to: string): boolean {
+    const target = this.phases.get(to);
+    if (!target) return false;
+    if (!this.getAvailableTransitions().includes(to)) return false;
+    return !target.guard || target.guard(this.table, this.currentPhase);
+  }
+
+  /**
+   * Transitions to a phase. Emits TABLE_EVENTS.PHASE_CHANGED when the phase changes.
+   *
+   * @param to The name of the phase to enter.
+   * @returns True if the transition happened, false if it is illegal or rejected by a guard.
+   */
+  public transition(to: string): boolean {
+    if (!this.canTransition(to)) return false;
+    return this.enter(to);
+  }
+
+  private enter(to: string): boolean {
+    const from = this.currentPhase;
+    const target = this.phases.get(to)!;
+
+    if (from !== null) {
+      this.phases.get(from)!.onExit?.(this.table, to);
+    }
+
+    this.currentPhase = to;
+    this.onChange?.(to, from);
+    this.eventBus.emit(TABLE_EVENTS.PHASE_CHANGED, this.table, to, from);
+    target.onEnter?.(this.table, from);
+    return true;
+  }
+}
@@ -1,6 +1,14 @@
 import { EventBus } from "../events/EventBus";
 import { PLAYER_EVENTS } from "../events/EventTypes";
 import { Table } from "./Table";
+import {
+  CLIENT_ERROR_CODES,
+  CLIENT_MESSAGE_TYPES,
+  MIN_PROTOCOL_VERSION,
+  adaptMessage,
+  getCurrentCommandRequest
+} from "./commands/index";
+import { JSON_CODEC, MessageCodec } from "./codec/index";
 import * as WebSocket from "ws";
 import crypto from "crypto";
 
@@ -20,6 +28,9 @@ export class Player {
   private eventBus: EventBus;
   private attributes: Map<string, any> = new Map();
   private disconnectCallbacks: Array<() => void> = [];
+  private codec: MessageCodec = JSON_CODEC;
+  private protocolVersion: number = MIN_PROTOCOL_VERSION;
+  private protocolFeatures: Set<string> = new Set();
 
   constructor(socket: WebSocket.WebSocket, eventBus: EventBus, id?: string) {
     this.id = id || crypto.randomUUID();
@@ -49,9 +60,77 @@ export class Player {
     this.disconnectCallbacks.push(callback);
   }
 
+  /**
+   * Get the codec the messages of the player are encoded and decoded with
+   * @returns The codec, JSON unless the client negotiated another one
+   */
+  public getCodec(): MessageCodec {
+    return this.codec;
+  }
+
+  /**
+   * Set the codec the messages of the player are encoded and decoded with
+   * @param codec The codec
+   */
+  public setCodec(codec: MessageCodec): void {
+    this.codec = codec;
+  }
+
+  /**
+   * Get the version of the protocol the player negotiated
+   * @returns The version, the oldest supported version until the client sends a handshake
+   */
+  public getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  /**
+   * Get the protocol features the player negotiated
+   * @returns The features the client and the server both support
+   */
+  public getProtocolFeatures(): string[] {
+    return Array.from(this.protocolFeatures);
+  }
+
+  /**
+   * Check whether the player negotiated a protocol feature
+   * @param feature The feature
+   * @returns True if the client and the server both support the feature
+   */
+  public hasProtocolFeature(feature: string): boolean {
+    return this.protocolFeatures.has(feature);
+  }
+
+  /**
+   * Set the protocol version and features the player negotiated
+   * @param version The version of the protocol
+   * @param features The features the client and the server both support
+   */
+  public setProtocol(version: number, features: string[]): void {
+    this.protocolVersion = version;
+    this.protocolFeatures = new Set(features);
+  }
+
+  /**
+   * Send a message to the player, adapted to the player's protocol version and encoded with the
+   * player's codec. While a command of the player with a request ID is handled, the message is
+   * tagged with the request ID and errors are recorded for the response.
+   * 
+   * @param message The message to send
+   */
   public sendMessage(message: any): void {
+    const request = getCurrentCommandRequest();
+    if (request && request.playerId === this.id && message && typeof message === "object") {
+      if (message.type === CLIENT_MESSAGE_TYPES.ERROR) {
+        request.errors.push({ code: message.code ?? CLIENT_ERROR_CODES.COMMAND_FAILED, message: message.message });
+      }
+      if (message.requestId === undefined) {
+        message = { ...message, requestId: request.requestId };
+      }
+    }
+
     if (this.socket.readyState === WebSocket.WebSocket.OPEN) {
-      this.socket.send(JSON.stringify(message));
+      this.socket.send(this.codec.encode(adaptMessage(message, this.protocolVersion)));
     }
   }
 
@@ -132,10 +211,16 @@ export class Player {
 
   /**
    * Disconnect the player from the server.
+   * @param code The WebSocket close code
+   * @param reason The reason the connection is closed
    */
-  public disconnect(): void {
+  public disconnect(code?: number, reason?: string): void {
     if (this.socket.readyState === WebSocket.WebSocket.OPEN) {
-      this.socket.close();
+      if (code === undefined) {
+        this.socket.close();
+      } else {
+        this.socket.close(code, reason);
+      }
     }
   }
 }
\ No newline at end of file
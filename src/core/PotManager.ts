@@ -0,0 +1,405 @@
+import { EventBus } from "../events/EventBus";
+import { TABLE_EVENTS } from "../events/TableEvents";
+import { ServerTransportModule } from "../transport/ServerTransportModule";
+import { PotShare, splitPot } from "./card/PokerEvaluator";
+import type { Table } from "./Table";
+
+/**
+ * How the house takes its share of each pot.
+ */
+export interface RakeOptions {
+  /** The share of each pot taken as rake, between 0 and 1. */
+  percentage: number;
+  /** The maximum rake taken from all pots of a hand. */
+  cap?: number;
+  /** No rake is taken if the pots of a hand add up to less than this amount. */
+  minimumPot?: number;
+}
+
+export interface PotOptions {
+  /** The rake taken from each pot. Defaults to no rake. */
+  rake?: RakeOptions;
+  /** The smallest chip. Pots are split and raked in multiples of it. Defaults to 1. */
+  chipUnit?: number;
+}
+
+/**
+ * The chips a seat has committed to the current hand.
+ */
+export interface SeatBet {
+  seatIndex: number;
+  playerId: string;
+  amount: number;
+  allIn: boolean;
+  folded: boolean;
+  /** The bets created with the server transport module, with their amounts. */
+  bets: Array<{ betId: string | null; amount: number }>;
+}
+
+/**
+ * A main pot or side pot, and the seats that can win it.
+ */
+export interface Pot {
+  amount: number;
+  eligibleSeats: number[];
+}
+
+/**
+ * The bets and pots of the current hand, as sent to clients.
+ */
+export interface PotState {
+  bets: Array<Omit<SeatBet, "bets">>;
+  pots: Pot[];
+  total: number;
+}
+
+/**
+ * A bet the server transport module failed to mark as won or lost.
+ */
+export interface FailedBet {
+  betId: string;
+  seatIndex: number;
+  /** The amount the bet was marked as won with, or 0 if it was marked as lost. */
+  winAmount: number;
+  /** The error thrown by the transport module, or null if it returned false. */
+  error: unknown;
+}
+
+/**
+ * The outcome of settling the pots of a hand.
+ */
+export interface PotSettlement {
+  pots: Array<Pot & { rake: number; winners: PotShare[] }>;
+  /** The total amount paid out to each seat, including returned stakes. */
+  payouts: PotShare[];
+  /** The total rake taken. */
+  rake: number;
+  /** The bets that could not be settled through the server transport module. */
+  failedBets: FailedBet[];
+}
+
+/**
+ * Manages the bets, pots and settlement of a [Table](/api/classes/table/).
+ *
+ * Each seat commits chips to the current hand with `placeBet`. The committed chips are split into
+ * a main pot and side pots for all-in players, raked, and distributed to the winners by `settle`,
+ * which marks each bet as won or lost through the configured ServerTransportModule.
+ *
+ * Pots follow poker rules: a seat can only win a pot if it has not folded and has committed at
+ * least the pot's level, so a seat that went all-in for less only competes for the pots it covered.
+ */
+export class PotManager {
+  private table: Table;
+  private eventBus: EventBus;
+  private serverTransportModule: ServerTransportModule | null;
+  private options: PotOptions;
+  private seatBets: Map<number, SeatBet> = new Map();
+
+  constructor(table: Table, eventBus: EventBus, serverTransportModule?: ServerTransportModule, options: PotOptions = {}) {
+    this.table = table;
+    this.eventBus = eventBus;
+    this.serverTransportModule = serverTransportModule ?? null;
+    this.options = options;
+  }
+
+  /**
+   * Sets the server transport module that bets are created and settled with.
+   * Without one, bets are only tracked at the table.
+   * @param serverTransportModule - The server transport module or null.
+   */
+  public setServerTransportModule(serverTransportModule: ServerTransportModule | null): void {
+    this.serverTransportModule = serverTransportModule;
+  }
+
+  /**
+   * Updates the pot options, such as the rake.
+   * @param options - The options to merge into the current options.
+   */
+  public configure(options: PotOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Commits chips of the player at a seat to the current hand. Creates a bet with the server
+   * transport module, if one is configured. Emits TABLE_EVENTS.POT_BET_PLACED, or
+   * TABLE_EVENTS.POT_BET_FAILED if the transport module rejected the bet.
+   *
+   * If the seat folded, went all-in or changed players while the bet was being created, the
+   * created bet is returned to the player by marking it as won with its amount.
+   * @param seatIndex - The index of the seat betting.
+   * @param amount - The amount to add to the seat's bet.
+   * @param allIn - Whether this bet puts the player all-in.
+   * @returns True if the bet was placed, false if the seat is empty, the amount is invalid,
+   * the seat has folded or the transport module rejected the bet.
+   */
+  public async placeBet(seatIndex: number, amount: number, allIn = false): Promise<boolean> {
+    const player = this.table.getPlayerAtSeat(seatIndex);
+    if (!player || !(amount > 0) || !this.canBet(seatIndex)) return false;
+
+    let betId: string | null = null;
+    if (this.serverTransportModule) {
+      const metadata = { tableId: this.table.id, seatIndex };
+      try {
+        betId = await this.serverTransportModule.createBet(player, amount, metadata);
+      } catch (error) {
+        this.eventBus.emit(TABLE_EVENTS.POT_BET_FAILED, this.table, seatIndex, amount, error);
+        return false;
+      }
+
+      // The seat may have changed while the bet was being created
+      if (this.table.getPlayerAtSeat(seatIndex) !== player || !this.canBet(seatIndex)) {
+        let error: unknown = new Error(`Seat ${seatIndex} can no longer bet`);
+        try {
+          await this.serverTransportModule.markBetWon(betId, amount, metadata);
+        } catch (refundError) {
+          error = refundError;
+        }
+        this.eventBus.emit(TABLE_EVENTS.POT_BET_FAILED, this.table, seatIndex, amount, error);
+        return false;
+      }
+    }
+
+    const seatBet = this.seatBets.get(seatIndex) ?? {
+      seatIndex,
+      playerId: player.id,
+      amount: 0,
+      allIn: false,
+      folded: false,
+      bets: []
+    };
+    seatBet.amount += amount;
+    seatBet.allIn = seatBet.allIn || allIn;
+    seatBet.bets.push({ betId, amount });
+    this.seatBets.set(seatIndex, seatBet);
+
+    this.eventBus.emit(TABLE_EVENTS.POT_BET_PLACED, this.table, seatIndex, amount, seatBet.amount);
+    return true;
+  }
+
+  /**
+   * Checks whether a seat can add to its bet, which it cannot once it has folded or gone all-in.
+   */
+  private canBet(seatIndex: number): boolean {
+    const seatBet = this.seatBets.get(seatIndex);
+    return !seatBet || (!seatBet.folded && !seatBet.allIn);
+  }
+
+  /**
+   * Folds a seat. Its committed chips stay in the pots, but it can no longer win them.
+   * @param seatIndex - The index of the seat folding.
+   * @returns True if the seat folded, false if it has not bet.
+   */
+  public fold(seatIndex: number): boolean {
+    const seatBet = this.seatBets.get(seatIndex);
+    if (!seatBet) return false;
+
+    seatBet.folded = true;
+    return true;
+  }
+
+  /**
+   * Gets the bet a seat has committed to the current hand.
+   * @param seatIndex - The index of the seat.
+   * @returns A copy of the seat's bet or null if it has not bet.
+   */
+  public getSeatBet(seatIndex: number): SeatBet | null {
+    const seatBet = this.seatBets.get(seatIndex);
+    return seatBet ? { ...seatBet, bets: seatBet.bets.map(bet => ({ ...bet })) } : null;
+  }
+
+  /**
+   * Gets the total amount committed to the current hand.
+   * @returns The total of all bets.
+   */
+  public getTotal(): number {
+    let total = 0;
+    for (const seatBet of this.seatBets.values()) {
+      total += seatBet.amount;
+    }
+    return total;
+  }
+
+  /**
+   * Splits the committed chips into a main pot and side pots. A new pot starts at each
+   * all-in amount; only seats that have not folded and covered the pot's level can win it.
+   * @returns The pots, main pot first.
+   */
+  public getPots(): Pot[] {
+    return this.buildPots([...this.seatBets.values()]).map(({ amount, eligibleSeats }) => ({ amount, eligibleSeats }));
+  }
+
+  /**
+   * Splits bets into pots, and tracks how much each seat put into each pot.
+   */
+  private buildPots(seatBets: SeatBet[]): Array<Pot & { contributions: Map<number, number> }> {
+    const levels = [...new Set(
+      seatBets.filter(seatBet => seatBet.allIn && !seatBet.folded).map(seatBet => seatBet.amount)
+    )].sort((a, b) => a - b);
+
+    // Chips above the highest all-in form the last pot
+    const highest = Math.max(0, ...seatBets.map(seatBet => seatBet.amount));
+    if (levels[levels.length - 1] !== highest) levels.push(highest);
+
+    const pots: Array<Pot & { contributions: Map<number, number> }> = [];
+    let previousLevel = 0;
+    for (const level of levels) {
+      let amount = 0;
+      const eligibleSeats: number[] = [];
+      const contributions = new Map<number, number>();
+      for (const seatBet of seatBets) {
+        const contribution = Math.max(0, Math.min(seatBet.amount, level) - previousLevel);
+        if (contribution > 0) contributions.set(seatBet.seatIndex, contribution);
+        amount += contribution;
+        if (!seatBet.folded && seatBet.amount >= level) eligibleSeats.push(seatBet.seatIndex);
+      }
+      previousLevel = level;
+      if (amount === 0) continue;
+
+      // Chips nobody who is still in can win, for example a folded seat's bet above every all-in,
+      // are added to the previous pot
+      const previous = pots[pots.length - 1];
+      if (eligibleSeats.length === 0 && previous) {
+        previous.amount += amount;
+        for (const [seatIndex, contribution] of contributions) {
+          previous.contributions.set(seatIndex, (previous.contributions.get(seatIndex) ?? 0) + contribution);
+        }
+      } else {
+        pots.push({ amount, eligibleSeats: eligibleSeats.sort((a, b) => a - b), contributions });
+      }
+    }
+    return pots;
+  }
+
+  /**
+   * Calculates the rake of each pot.
+   * @param pots - The pots to rake.
+   * @returns The rake of each pot, in the order of `pots`.
+   */
+  public calculateRake(pots: Pot[] = this.getPots()): number[] {
+    const rake = this.options.rake;
+    const unit = this.options.chipUnit ?? 1;
+    const total = pots.reduce((sum, pot) => sum + pot.amount, 0);
+    if (!rake || rake.percentage <= 0 || total < (rake.minimumPot ?? 0)) {
+      return pots.map(() => 0);
+    }
+
+    let remainingCap = rake.cap ?? Infinity;
+    return pots.map(pot => {
+      const potRake = Math.min(Math.floor((pot.amount * rake.percentage) / unit) * unit, remainingCap);
+      remainingCap -= potRake;
+      return potRake;
+    });
+  }
+
+  /**
+   * Settles the current hand. Each pot, after rake, goes to the best-ranked seats that are
+   * eligible for it, split evenly on a tie. A pot no seat is eligible for, because every seat
+   * that put chips into it folded, is not raked and is returned to the seats that put them in.
+   * Every bet is then marked as won, with its share of the seat's payout, or lost through the
+   * server transport module. Bets the transport module fails to settle are listed in the
+   * settlement's `failedBets`. Emits TABLE_EVENTS.POT_SETTLED.
+   *
+   * The bets are cleared before they are settled, so bets placed while the transport module
+   * settles belong to the next hand.
+   * @param ranking - The seats from best to worst. Each entry is a seat index or a group of tied seats.
+   * @returns The settlement.
+   */
+  public async settle(ranking: Array<number | number[]>): Promise<PotSettlement> {
+    const seatBets = [...this.seatBets.values()];
+    this.seatBets.clear();
+
+    const builtPots = this.buildPots(seatBets);
+    const pots: Pot[] = builtPots.map(({ amount, eligibleSeats }) => ({ amount, eligibleSeats }));
+    // Uncontested pots are returned, so they are not raked
+    const rakes = this.calculateRake(pots.map(pot => (pot.eligibleSeats.length > 0 ? pot : { ...pot, amount: 0 })));
+    const unit = this.options.chipUnit ?? 1;
+    const groups = ranking.map(entry => (Array.isArray(entry) ? entry : [entry]));
+
+    const payouts = new Map<number, number>();
+    const settledPots = pots.map((pot, index) => {
+      const net = pot.amount - rakes[index];
+      const group = groups
+        .map(seats => seats.filter(seatIndex => pot.eligibleSeats.includes(seatIndex)))
+        .find(seats => seats.length > 0);
+
+      // If no eligible seat is ranked, the pot is shared by everyone eligible. An uncontested
+      // pot goes back to the seats that put chips into it
+      const winners = pot.eligibleSeats.length > 0
+        ? splitPot(net, group ?? pot.eligibleSeats, unit)
+        : [...builtPots[index].contributions].map(([seatIndex, amount]) => ({ seatIndex, amount }));
+      for (const share of winners) {
+        payouts.set(share.seatIndex, (payouts.get(share.seatIndex) ?? 0) + share.amount);
+      }
+      return { ...pot, rake: rakes[index], winners };
+    });
+
+    const failedBets = await this.settleBets(seatBets, payouts);
+
+    const settlement: PotSettlement = {
+      pots: settledPots,
+      payouts: [...payouts.entries()].map(([seatIndex, amount]) => ({ seatIndex, amount })),
+      rake: rakes.reduce((sum, rake) => sum + rake, 0),
+      failedBets
+    };
+
+    this.eventBus.emit(TABLE_EVENTS.POT_SETTLED, this.table, settlement);
+    return settlement;
+  }
+
+  /**
+   * Marks every bet as won or lost. A seat's payout is divided between its bets in proportion
+   * to their amounts.
+   * @returns The bets that could not be marked.
+   */
+  private async settleBets(seatBets: SeatBet[], payouts: Map<number, number>): Promise<FailedBet[]> {
+    const failedBets: FailedBet[] = [];
+    if (!this.serverTransportModule) return failedBets;
+
+    for (const seatBet of seatBets) {
+      const payout = payouts.get(seatBet.seatIndex) ?? 0;
+      let remaining = payout;
+
+      for (let i = 0; i < seatBet.bets.length; i++) {
+        const bet = seatBet.bets[i];
+        if (!bet.betId) continue;
+
+        const metadata = { tableId: this.table.id, seatIndex: seatBet.seatIndex };
+        let winAmount = 0;
+        if (payout > 0) {
+          const isLast = i === seatBet.bets.length - 1;
+          winAmount = isLast ? remaining : Math.floor((payout * bet.amount) / seatBet.amount);
+          remaining -= winAmount;
+        }
+
+        try {
+          const settled = payout > 0
+            ? await this.serverTransportModule.markBetWon(bet.betId, winAmount, metadata)
+            : await this.serverTransportModule.markBetLost(bet.betId, metadata);
+          if (!settled) failedBets.push({ betId: bet.betId, seatIndex: seatBet.seatIndex, winAmount, error: null });
+        } catch (error) {
+          failedBets.push({ betId: bet.betId, seatIndex: seatBet.seatIndex, winAmount, error });
+        }
+      }
+    }
+    return failedBets;
+  }
+
+  /**
+   * Clears all bets without settling them.
+   */
+  public clear(): void {
+    this.seatBets.clear();
+  }
+
+  /**
+   * Gets the bets and pots in a form that is safe to send to clients.
+   * @returns The bets, pots and total of the current hand.
+   */
+  public getState(): PotState {
+    return {
+      bets: [...this.seatBets.values()].map(({ bets: _bets, ...seatBet }) => seatBet),
+      pots: this.getPots(),
+      total: this.getTotal()
+    };
+  }
+}
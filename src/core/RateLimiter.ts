@@ -0,0 +1,251 @@
+import * as http from "http";
+
+/**
+ * A token bucket limit. A bucket starts full, every message takes a token, and tokens
+ * refill continuously up to the capacity.
+ */
+export interface RateLimit {
+  /** The number of messages that can be sent in a burst. */
+  capacity: number;
+  /** The number of tokens the bucket refills with per second. */
+  refillPerSecond: number;
+}
+
+/**
+ * Options for rate limiting inbound messages.
+ */
+export interface RateLimiterOptions {
+  /** The limit of the messages of each player. */
+  player?: RateLimit;
+  /** The limit of the messages of all the connections of each remote IP address. */
+  ip?: RateLimit;
+  /** The limits of the commands of each player, by action. */
+  commands?: Record<string, RateLimit>;
+  /** The number of overages within the violation window after which a player is disconnected. Defaults to 20, 0 never disconnects. */
+  maxViolations?: number;
+  /** The window overages are counted in, in milliseconds. Defaults to 60000. */
+  violationWindowMs?: number;
+  /** Whether to take the remote IP address from the `X-Forwarded-For` header, when behind a proxy. Defaults to false. */
+  trustProxy?: boolean;
+}
+
+/**
+ * The outcome of taking a token for a message.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** The time until the next token, in milliseconds, or 0 if the message is allowed. */
+  retryAfterMs: number;
+  /** Whether the player has exceeded their limits too often and should be disconnected. */
+  disconnect: boolean;
+}
+
+const DEFAULT_MAX_VIOLATIONS = 20;
+const DEFAULT_VIOLATION_WINDOW_MS = 60000;
+
+// Idle buckets are full again, so they are dropped from time to time to keep the maps small
+const PRUNE_INTERVAL_MS = 60000;
+
+const ALLOWED: RateLimitResult = { allowed: true, retryAfterMs: 0, disconnect: false };
+
+/**
+ * A token bucket.
+ */
+export class TokenBucket {
+  public readonly limit: RateLimit;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(limit: RateLimit, now = Date.now()) {
+    this.limit = limit;
+    this.tokens = limit.capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token from the bucket
+   * @param now The current time in milliseconds
+   * @returns True if a token was taken, false if the bucket is empty
+   */
+  public take(now = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Get the time until the bucket has a token
+   * @param now The current time in milliseconds
+   * @returns The time in milliseconds, 0 if the bucket has a token
+   */
+  public getRetryAfterMs(now = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= 1) return 0;
+    if (this.limit.refillPerSecond <= 0) return Infinity;
+    return Math.ceil((1 - this.tokens) * 1000 / this.limit.refillPerSecond);
+  }
+
+  /**
+   * Check whether the bucket is full, so dropping it changes nothing
+   * @param now The current time in milliseconds
+   */
+  public isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.limit.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsedMs = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.limit.capacity, this.tokens + elapsedMs * this.limit.refillPerSecond / 1000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Limits how fast players and remote IP addresses can send messages, and how fast players
+ * can send each command, with token buckets. Players who exceed their limits too often
+ * should be disconnected.
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private playerBuckets: Map<string, TokenBucket> = new Map();
+  private ipBuckets: Map<string, TokenBucket> = new Map();
+  private commandBuckets: Map<string, TokenBucket> = new Map();
+  private violations: Map<string, number[]> = new Map();
+  private prunedAt: number = Date.now();
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Take a token for a message of a player, from the player's bucket and the bucket of their IP address
+   * @param playerId The ID of the player
+   * @param ip The remote IP address of the player, or null if unknown
+   * @returns Whether the message is allowed
+   */
+  public consumeMessage(playerId: string, ip: string | null): RateLimitResult {
+    const now = Date.now();
+    this.prune(now);
+
+    const buckets: TokenBucket[] = [];
+    if (this.options.player) {
+      buckets.push(this.getBucket(this.playerBuckets, playerId, this.options.player, now));
+    }
+    if (this.options.ip && ip) {
+      buckets.push(this.getBucket(this.ipBuckets, ip, this.options.ip, now));
+    }
+
+    return this.consume(playerId, buckets, now);
+  }
+
+  /**
+   * Take a token for a command of a player, from the player's bucket for the action
+   * @param playerId The ID of the player
+   * @param action The action of the command
+   * @param limit The limit of the action, instead of the one of the options
+   * @returns Whether the command is allowed
+   */
+  public consumeCommand(playerId: string, action: string, limit?: RateLimit): RateLimitResult {
+    const commandLimit = limit ?? this.options.commands?.[action];
+    if (!commandLimit) return ALLOWED;
+
+    const now = Date.now();
+    const bucket = this.getBucket(this.commandBuckets, `${playerId}\u0000${action}`, commandLimit, now);
+    return this.consume(playerId, [bucket], now);
+  }
+
+  /**
+   * Get the number of overages of a player within the violation window
+   * @param playerId The ID of the player
+   */
+  public getViolationCount(playerId: string): number {
+    return this.getRecentViolations(playerId, Date.now()).length;
+  }
+
+  /**
+   * Forget the buckets of a player, once they leave the server. Their overages are kept until
+   * they leave the violation window, so reconnecting does not clear them.
+   * @param playerId The ID of the player
+   */
+  public removePlayer(playerId: string): void {
+    this.playerBuckets.delete(playerId);
+    for (const key of this.commandBuckets.keys()) {
+      if (key.startsWith(`${playerId}\u0000`)) {
+        this.commandBuckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get the remote IP address of a connection
+   * @param request The upgrade request of the connection
+   * @returns The IP address, or null if it is unknown
+   */
+  public getRemoteAddress(request: http.IncomingMessage): string | null {
+    if (this.options.trustProxy) {
+      const forwardedFor = request.headers?.["x-forwarded-for"];
+      const header = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+      const address = header?.split(",")[0].trim();
+      if (address) return address;
+    }
+
+    return request.socket?.remoteAddress ?? null;
+  }
+
+  private getBucket(buckets: Map<string, TokenBucket>, key: string, limit: RateLimit, now: number): TokenBucket {
+    let bucket = buckets.get(key);
+    if (!bucket || bucket.limit !== limit) {
+      bucket = new TokenBucket(limit, now);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Takes a token from every bucket, or from none of them if one is empty.
+   */
+  private consume(playerId: string, buckets: TokenBucket[], now: number): RateLimitResult {
+    const retryAfterMs = Math.max(0, ...buckets.map(bucket => bucket.getRetryAfterMs(now)));
+    if (retryAfterMs === 0) {
+      buckets.forEach(bucket => bucket.take(now));
+      return ALLOWED;
+    }
+
+    const violations = this.getRecentViolations(playerId, now);
+    violations.push(now);
+    this.violations.set(playerId, violations);
+
+    const maxViolations = this.options.maxViolations ?? DEFAULT_MAX_VIOLATIONS;
+    return {
+      allowed: false,
+      retryAfterMs,
+      disconnect: maxViolations > 0 && violations.length >= maxViolations
+    };
+  }
+
+  private getRecentViolations(playerId: string, now: number): number[] {
+    const windowMs = this.options.violationWindowMs ?? DEFAULT_VIOLATION_WINDOW_MS;
+    return (this.violations.get(playerId) ?? []).filter(time => now - time < windowMs);
+  }
+
+  private prune(now: number): void {
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+
+    for (const buckets of [this.playerBuckets, this.ipBuckets, this.commandBuckets]) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.isFull(now)) {
+          buckets.delete(key);
+        }
+      }
+    }
+
+    for (const playerId of this.violations.keys()) {
+      if (this.getRecentViolations(playerId, now).length === 0) {
+        this.violations.delete(playerId);
+      }
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * A single operation of a state patch, modelled after JSON Patch (RFC 6902).
+ * Paths are JSON Pointers (RFC 6901), for example `/seats/0/player`.
+ */
+export interface StatePatchOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function escapePathSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapePathSegment(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function diff(previous: unknown, next: unknown, path: string, operations: StatePatchOperation[]): void {
+  if (previous === next) return;
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    for (const key of Object.keys(previous)) {
+      if (!(key in next) || next[key] === undefined) {
+        if (previous[key] !== undefined) {
+          operations.push({ op: "remove", path: `${path}/${escapePathSegment(key)}` });
+        }
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (next[key] === undefined) continue;
+
+      const childPath = `${path}/${escapePathSegment(key)}`;
+      if (!(key in previous) || previous[key] === undefined) {
+        operations.push({ op: "add", path: childPath, value: next[key] });
+      } else {
+        diff(previous[key], next[key], childPath, operations);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(previous) && Array.isArray(next) && previous.length === next.length) {
+    for (let i = 0; i < next.length; i++) {
+      diff(previous[i], next[i], `${path}/${i}`, operations);
+    }
+    return;
+  }
+
+  // Primitives, type changes and resized arrays are replaced as a whole
+  if (JSON.stringify(previous) !== JSON.stringify(next)) {
+    operations.push({ op: "replace", path, value: next });
+  }
+}
+
+/**
+ * Creates a patch that transforms one JSON-compatible state into another.
+ *
+ * @param previous The state the client already has.
+ * @param next The new state.
+ * @returns The list of operations to apply to `previous`. Empty if the states are equal.
+ */
+export function createStatePatch(previous: unknown, next: unknown): StatePatchOperation[] {
+  const operations: StatePatchOperation[] = [];
+  diff(previous, next, "", operations);
+  return operations;
+}
+
+/**
+ * Applies a patch created by `createStatePatch` to a state.
+ * The given state is not modified.
+ *
+ * @param state The state to apply the patch to.
+ * @param patch The operations to apply.
+ * @returns The patched state.
+ */
+export function applyStatePatch<T>(state: T, patch: StatePatchOperation[]): T {
+  let result: unknown = state === undefined ? undefined : JSON.parse(JSON.stringify(state));
+
+  for (const operation of patch) {
+    if (operation.path === "") {
+      result = operation.op === "remove" ? undefined : operation.value;
+      continue;
+    }
+
+    const segments = operation.path.slice(1).split("/").map(unescapePathSegment);
+    const key = segments.pop()!;
+    let parent = result;
+    for (const segment of segments) {
+      if (parent === null || typeof parent !== "object") {
+        throw new Error(`Invalid patch path: ${operation.path}`);
+      }
+      parent = (parent as Record<string, unknown>)[segment];
+    }
+    if (parent === null || typeof parent !== "object") {
+      throw new Error(`Invalid patch path: ${operation.path}`);
+    }
+
+    const target = parent as Record<string, unknown>;
+    if (operation.op === "remove") {
+      delete target[key];
+    } else {
+      target[key] = operation.value;
+    }
+  }
+
+  return result as T;
+}
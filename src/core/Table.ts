@@ -1,10 +1,30 @@
 import { EventBus } from "../events/EventBus";
 import { TABLE_EVENTS } from "../events/TableEvents";
 import { Player } from "./Player";
-import { Card, Deck, Hand } from "./card/index";
+import {
+  Card,
+  ClientSeed,
+  Deck,
+  DeckOptions,
+  DeckSpec,
+  Hand,
+  HandState,
+  ProvablyFairReveal,
+  RandomSource,
+  Shoe,
+  ShoeOptions,
+  combineSeeds,
+  createCommitment,
+  generateSeed
+} from "./card/index";
 import { Seat } from "./Seat";
+import { TurnManager, TurnOptions, TurnState } from "./TurnManager";
+import { GamePhaseConfig, PhaseMachine } from "./PhaseMachine";
+import { createStatePatch } from "./StatePatch";
+import { PotManager, PotOptions, PotState } from "./PotManager";
+import { ServerTransportModule } from "../transport/ServerTransportModule";
 import crypto from "crypto";
-import { CLIENT_MESSAGE_TYPES } from "./commands/index";
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from "./commands/index";
 
 export enum TableState {
   WAITING = "waiting",
@@ -12,11 +32,75 @@ export enum TableState {
   ENDED = "ended"
 }
 
+/**
+ * The role a recipient of the table state has at the table.
+ * - `player`: a player at the table, who sees the hidden cards of their own seats
+ * - `spectator`: a viewer who only sees public information
+ * - `admin`: a privileged viewer who sees all hidden cards
+ */
+export type TableViewerRole = "player" | "spectator" | "admin";
+
+/**
+ * The state of a table, as sent to clients in `table:state` messages.
+ */
+export interface TableStateSnapshot {
+  id: string;
+  state: TableState;
+  phase: string | null;
+  seats: Array<{
+    player: { id: string; attributes: Record<string, unknown> } | null;
+    hands: Record<string, HandState>;
+  }>;
+  attributes: Record<string, unknown>;
+  playerCount: number;
+  spectatorCount: number;
+  turn: TurnState | null;
+  pots: PotState;
+  /** The commitment of the provably fair shuffle of the round, if any. */
+  deckCommitment?: string;
+  /** State projectors can add their own fields. */
+  [key: string]: unknown;
+}
+
+/**
+ * Transforms the table state for a specific recipient. Receives the state already
+ * projected for the viewer's role and returns the state to send.
+ */
+export type TableStateProjector = (state: TableStateSnapshot, viewer: Player | null, table: Table) => TableStateSnapshot;
+
+/**
+ * The maximum number of unacknowledged state versions kept per player.
+ */
+const MAX_PENDING_STATE_VERSIONS = 20;
+
+/**
+ * The number of spectators a table accepts when no limit is configured.
+ */
+const DEFAULT_MAX_SPECTATORS = 50;
+
 export interface TableOptions {
   seatCount?: number;
+  turnOptions?: TurnOptions;
+  maxSpectators?: number;
+  /** The default random source of decks created for the table. */
+  rng?: RandomSource;
+  /** The default composition of decks created for the table. */
+  deckSpec?: DeckSpec;
+  /** The module bets at the table are created and settled with. */
+  serverTransportModule?: ServerTransportModule;
+  /** The pot options, such as the rake. */
+  potOptions?: PotOptions;
   [key: string]: any;
 }
 
+/**
+ * Options for `Table.createDeck`.
+ */
+export interface TableDeckOptions extends ShoeOptions {
+  /** Creates a [Shoe](/api/classes/shoe/) with a cut card instead of a plain deck. */
+  shoe?: boolean;
+}
+
 /**
  * Represents a game table with players, seats, and game state.
  * 
@@ -34,15 +118,34 @@ export interface TableOptions {
 export class Table {
   public readonly id: string;
   private players: Map<string, Player> = new Map();
+  private spectators: Map<string, Player> = new Map();
   private seats: Array<Seat>;
   private eventBus: EventBus;
   private state: TableState = TableState.WAITING;
   private readonly totalSeats: number;
   private readonly maxSeatsPerPlayer: number;
+  private readonly maxSpectators: number;
   private attributes: Map<string, any> = new Map();
   private deck: Deck | null = null;
+  private fairShuffle: {
+    commitment: string;
+    serverSeed: string;
+    initialOrder: string[];
+    clientSeeds: ClientSeed[];
+    shuffleSeed: string | null;
+  } | null = null;
   private gameId: string;
   private options: TableOptions;
+  private turnManager: TurnManager;
+  private potManager: PotManager;
+  private phaseMachine: PhaseMachine | null = null;
+  private viewerRoleResolver: ((viewer: Player, table: Table) => TableViewerRole | null) | null = null;
+  private stateProjectors: Map<TableViewerRole, TableStateProjector> = new Map();
+  private stateVersion = 0;
+  private stateSync: Map<string, {
+    acknowledged: { version: number; state: TableStateSnapshot } | null;
+    pending: Map<number, TableStateSnapshot>;
+  }> = new Map();
 
   constructor(
     eventBus: EventBus,
@@ -53,14 +156,22 @@ export class Table {
     options: TableOptions = {}
   ) {
     this.id = id || crypto.randomUUID();
-    this.eventBus = eventBus;
+    // Events of the table are emitted on its own bus and bubble up to the given bus
+    this.eventBus = eventBus.createChild();
     this.totalSeats = totalSeats;
     this.maxSeatsPerPlayer = maxSeatsPerPlayer;
     this.gameId = gameId || 'default';
     this.options = options;
+    this.maxSpectators = options.maxSpectators ?? DEFAULT_MAX_SPECTATORS;
     
     // Initialize seats with Seat objects
     this.seats = new Array(totalSeats).fill(null).map(() => new Seat());
+
+    // Turn rotation over the occupied seats
+    this.turnManager = new TurnManager(this, this.eventBus, options.turnOptions);
+
+    // Bets, pots and settlement
+    this.potManager = new PotManager(this, this.eventBus, options.serverTransportModule, options.potOptions);
     
     // Listen for player sit and stand request events
     this.setupEventListeners();
@@ -70,19 +181,27 @@ export class Table {
   }
 
   /**
-   * Set up event listeners for this table
+   * Set up event listeners for this table. The requests are emitted on the table's own bus,
+   * so they are only received by this table.
    */
   private setupEventListeners(): void {
     // Handle player sit request
-    this.eventBus.on(TABLE_EVENTS.PLAYER_SIT_REQUEST, (player, table, seatIndex) => {
-      // Only handle events for this table
-      if (table.id !== this.id) return;
-      
+    this.eventBus.on(TABLE_EVENTS.PLAYER_SIT_REQUEST, (player, _table, seatIndex) => {
+      if (this.isSpectator(player.id)) {
+        player.sendMessage({
+          type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.SEAT_SIT_FAILED,
+          message: "Failed to sit at seat: spectators must switch to player first"
+        });
+        return;
+      }
+
       try {
         const success = this.sitPlayerAtSeat(player.id, seatIndex);
         if (!success) {
           player.sendMessage({
             type: CLIENT_MESSAGE_TYPES.ERROR,
+            code: CLIENT_ERROR_CODES.SEAT_SIT_FAILED,
             message: "Failed to sit at seat"
           });
         }
@@ -90,21 +209,20 @@ export class Table {
         console.error("Error handling sit request:", error);
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.SEAT_SIT_FAILED,
           message: "Failed to sit at seat: " + (error instanceof Error ? error.message : "unknown error")
         });
       }
     });
     
     // Handle player stand request
-    this.eventBus.on(TABLE_EVENTS.PLAYER_STAND_REQUEST, (player, table) => {
-      // Only handle events for this table
-      if (table.id !== this.id) return;
-      
+    this.eventBus.on(TABLE_EVENTS.PLAYER_STAND_REQUEST, (player) => {
       try {
         const success = this.standPlayerUp(player.id);
         if (!success) {
           player.sendMessage({
             type: CLIENT_MESSAGE_TYPES.ERROR,
+            code: CLIENT_ERROR_CODES.SEAT_STAND_FAILED,
             message: "Failed to stand from seat"
           });
         }
@@ -112,22 +230,134 @@ export class Table {
         console.error("Error handling stand request:", error);
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.SEAT_STAND_FAILED,
           message: "Failed to stand from seat: " + (error instanceof Error ? error.message : "unknown error")
         });
       }
     });
   }
 
+  /**
+   * Gets the event bus of the table. Listeners on it only receive the events of this table,
+   * and events emitted on it bubble up to the server's event bus.
+   * @returns The event bus of the table.
+   */
+  public getEventBus(): EventBus {
+    return this.eventBus;
+  }
+
+  /**
+   * Releases the table when it is removed: clears the turn timer and removes the listeners of
+   * the table's event bus. Called by the GameManager when the table is removed.
+   */
+  public dispose(): void {
+    this.turnManager.dispose();
+    this.eventBus.dispose();
+  }
+
+  /*
+   * Turn related methods
+   */
+
+  /**
+   * Gets the turn manager of the table, which controls whose turn it is.
+   * @returns The turn manager of the table.
+   */
+  public getTurnManager(): TurnManager {
+    return this.turnManager;
+  }
+
+  /**
+   * Gets the pot manager of the table, which tracks the bets and pots of the current hand.
+   * @returns The pot manager of the table.
+   */
+  public getPotManager(): PotManager {
+    return this.potManager;
+  }
+
+  /*
+   * Phase related methods
+   */
+
+  /**
+   * Configures the phases of the game played at this table and enters the initial phase.
+   * Replaces any previously configured phases.
+   * @param config - The phases of the game and the initial phase.
+   */
+  public setPhases(config: GamePhaseConfig): void {
+    this.phaseMachine = new PhaseMachine(this, this.eventBus, config, (to) => {
+      const tableState = this.phaseMachine?.getPhaseDefinition(to)?.tableState;
+      if (tableState && tableState !== this.state) {
+        this.state = tableState;
+        this.eventBus.emit(TABLE_EVENTS.STATE_UPDATED, this, tableState);
+      }
+    });
+    this.phaseMachine.start();
+    this.broadcastTableState();
+  }
+
+  /**
+   * Gets the phase machine of the table.
+   * @returns The phase machine or null if no phases have been configured.
+   */
+  public getPhaseMachine(): PhaseMachine | null {
+    return this.phaseMachine;
+  }
+
+  /**
+   * Gets the current phase of the table.
+   * @returns The name of the current phase or null if no phases have been configured.
+   */
+  public getPhase(): string | null {
+    return this.phaseMachine?.getPhase() ?? null;
+  }
+
+  /**
+   * Transitions the table to another phase. Emits TABLE_EVENTS.PHASE_CHANGED when the phase changes.
+   * @param phase - The name of the phase to enter.
+   * @returns True if the phase changed, false if no phases are configured or the transition is not allowed.
+   */
+  public transitionTo(phase: string): boolean {
+    if (!this.phaseMachine) return false;
+
+    const success = this.phaseMachine.transition(phase);
+    if (success) {
+      this.broadcastTableState();
+    }
+    return success;
+  }
+
   /*
    * Card and deck related methods
    */
 
   /**
    * Creates a new deck for the table. Emits TABLE_EVENTS.DECK_CREATED when the deck is created.
+   * The deck uses the random source and deck spec of the table options unless they are given.
+   * 
+   * With the `shoe` option a [Shoe](/api/classes/shoe/) is created, which emits
+   * TABLE_EVENTS.SHOE_CUT_CARD_REACHED when the cut card is reached.
    * @param numberOfDecks - The number of decks to create.
+   * @param options - The deck options, such as the deck spec, the random source used for shuffling or the shoe options.
    */
-  public createDeck(numberOfDecks: number = 1): void {
-    this.deck = new Deck(numberOfDecks);
+  public createDeck(numberOfDecks = 1, options: TableDeckOptions = {}): void {
+    const { shoe, ...deckOptions } = options;
+    const resolvedOptions: DeckOptions = { rng: this.options.rng, spec: this.options.deckSpec, ...deckOptions };
+
+    if (shoe) {
+      this.deck = new Shoe(numberOfDecks, {
+        ...resolvedOptions,
+        onCutCardReached: (reachedShoe) => {
+          this.eventBus.emit(TABLE_EVENTS.SHOE_CUT_CARD_REACHED, this, reachedShoe);
+          if (options.onCutCardReached) {
+            options.onCutCardReached(reachedShoe);
+          }
+        }
+      });
+    } else {
+      this.deck = new Deck(numberOfDecks, resolvedOptions);
+    }
+    this.fairShuffle = null;
     this.eventBus.emit(TABLE_EVENTS.DECK_CREATED, this, numberOfDecks);
   }
 
@@ -140,17 +370,149 @@ export class Table {
   }
 
   /**
-   * Shuffles the current deck. Emits TABLE_EVENTS.DECK_SHUFFLED when the deck is shuffled.
-   * @returns True if the deck was shuffled, false if no deck exists.
+   * Gets the random source of the table, used for shuffle seeds.
+   * @returns The random source or null if decks use their default random source.
+   */
+  public getRandomSource(): RandomSource | null {
+    return this.options.rng ?? null;
+  }
+
+  /**
+   * Sets the random source of the decks created from now on. The current deck keeps its own random source,
+   * which can be changed with `getDeck().setRandomSource()`.
+   * @param rng - The random source, or null to use the default random source of decks.
+   */
+  public setRandomSource(rng: RandomSource | null): void {
+    this.options = { ...this.options, rng: rng ?? undefined };
+  }
+
+  /**
+   * Prepares the deck for a new round. If the deck is a shoe whose cut card has been reached,
+   * it is reshuffled from the discard pile and TABLE_EVENTS.DECK_SHUFFLED is emitted.
+   * Call this at the round boundary, after the cards of the previous round have been discarded.
+   * @param seed - The seed to reshuffle with. If omitted, the shoe draws a new seed from its random source.
+   * @returns True if the shoe was reshuffled, false otherwise.
+   */
+  public prepareDeckForRound(seed?: string): boolean {
+    if (!(this.deck instanceof Shoe)) return false;
+
+    const shuffleSeed = this.deck.prepareForRound(seed);
+    if (shuffleSeed === null) return false;
+
+    // A reshuffle invalidates any pending provably fair commitment
+    this.fairShuffle = null;
+    this.eventBus.emit(TABLE_EVENTS.DECK_SHUFFLED, this, shuffleSeed);
+    return true;
+  }
+
+  /**
+   * Shuffles the current deck. Emits TABLE_EVENTS.DECK_SHUFFLED with the seed of the shuffle,
+   * which can be passed back to reproduce it.
+   * 
+   * If the deck has been committed with `commitDeck`, the deck is shuffled with the seed combined
+   * from the server and client seeds, and cannot be shuffled again until it has been revealed.
+   * @param seed - The seed to shuffle with. If omitted, the deck draws a new seed from its random source.
+   * @returns True if the deck was shuffled, false if no deck exists or the provably fair shuffle does not allow it.
    */
-  public shuffleDeck(): boolean {
+  public shuffleDeck(seed?: string): boolean {
     if (!this.deck) return false;
-    
-    this.deck.shuffle();
-    this.eventBus.emit(TABLE_EVENTS.DECK_SHUFFLED, this);
+
+    let shuffleSeed: string;
+    if (this.fairShuffle) {
+      if (seed !== undefined || this.fairShuffle.shuffleSeed !== null) return false;
+
+      this.fairShuffle.shuffleSeed = combineSeeds(this.fairShuffle.serverSeed, this.fairShuffle.clientSeeds);
+      shuffleSeed = this.deck.shuffle(this.fairShuffle.shuffleSeed);
+    } else {
+      shuffleSeed = this.deck.shuffle(seed);
+    }
+
+    this.eventBus.emit(TABLE_EVENTS.DECK_SHUFFLED, this, shuffleSeed);
     return true;
   }
 
+  /**
+   * Starts a provably fair shuffle of the current deck. A secret server seed is generated and
+   * the hash of the server seed and the current deck order is published to everyone at the table
+   * before the round. Emits TABLE_EVENTS.DECK_COMMITTED.
+   * 
+   * Players can then contribute client seeds with `addClientSeed`. The next `shuffleDeck` mixes
+   * them into the shuffle, and `revealDeck` publishes the server seed once the round is over.
+   * @returns The commitment or null if no deck exists.
+   */
+  public commitDeck(): string | null {
+    if (!this.deck) return null;
+
+    const serverSeed = generateSeed(this.deck.getRandomSource());
+    const initialOrder = this.deck.getCardCodes();
+    const commitment = createCommitment(serverSeed, initialOrder);
+    this.fairShuffle = { commitment, serverSeed, initialOrder, clientSeeds: [], shuffleSeed: null };
+
+    this.eventBus.emit(TABLE_EVENTS.DECK_COMMITTED, this, commitment);
+    this.broadcastMessage({
+      type: CLIENT_MESSAGE_TYPES.TABLE.DECK_COMMITTED,
+      data: { tableId: this.id, commitment }
+    });
+    return commitment;
+  }
+
+  /**
+   * Adds a client seed to the pending provably fair shuffle. A player's later seed replaces
+   * their earlier one. Emits TABLE_EVENTS.DECK_CLIENT_SEED_ADDED.
+   * @param playerId - The ID of the player contributing the seed.
+   * @param seed - The client seed.
+   * @returns True if the seed was added, false if the player is not a player at the table,
+   * the seed is empty, or no committed deck is waiting to be shuffled.
+   */
+  public addClientSeed(playerId: string, seed: string): boolean {
+    if (!this.fairShuffle || this.fairShuffle.shuffleSeed !== null) return false;
+    if (typeof seed !== 'string' || seed.length === 0) return false;
+
+    const player = this.players.get(playerId);
+    if (!player) return false;
+
+    const clientSeeds = this.fairShuffle.clientSeeds.filter(clientSeed => clientSeed.playerId !== playerId);
+    clientSeeds.push({ playerId, seed });
+    this.fairShuffle.clientSeeds = clientSeeds;
+
+    this.eventBus.emit(TABLE_EVENTS.DECK_CLIENT_SEED_ADDED, this, player, seed);
+    return true;
+  }
+
+  /**
+   * Gets the commitment of the pending provably fair shuffle.
+   * @returns The commitment or null if the deck is not committed.
+   */
+  public getDeckCommitment(): string | null {
+    return this.fairShuffle ? this.fairShuffle.commitment : null;
+  }
+
+  /**
+   * Ends a provably fair shuffle by publishing the server seed, the initial deck order and the
+   * client seeds to everyone at the table, so anyone can verify the shuffle with `verifyShuffle`.
+   * Emits TABLE_EVENTS.DECK_REVEALED.
+   * @returns The reveal or null if no committed deck has been shuffled.
+   */
+  public revealDeck(): ProvablyFairReveal | null {
+    if (!this.fairShuffle || this.fairShuffle.shuffleSeed === null) return null;
+
+    const reveal: ProvablyFairReveal = {
+      commitment: this.fairShuffle.commitment,
+      serverSeed: this.fairShuffle.serverSeed,
+      initialOrder: [...this.fairShuffle.initialOrder],
+      clientSeeds: this.fairShuffle.clientSeeds.map(clientSeed => ({ ...clientSeed })),
+      shuffleSeed: this.fairShuffle.shuffleSeed
+    };
+    this.fairShuffle = null;
+
+    this.eventBus.emit(TABLE_EVENTS.DECK_REVEALED, this, reveal);
+    this.broadcastMessage({
+      type: CLIENT_MESSAGE_TYPES.TABLE.DECK_REVEALED,
+      data: { tableId: this.id, ...reveal }
+    });
+    return reveal;
+  }
+
   /**
    * Draws a card from the deck. Emits TABLE_EVENTS.DECK_CARD_DRAWN when a card is drawn.
    * @param isVisible - Whether the card should be visible to the player.
@@ -218,7 +580,8 @@ export class Table {
   }
 
   /**
-   * Deals a card to a hand. Emits TABLE_EVENTS.CARD_DEALT when a card is dealt.
+   * Deals a card to a hand. Emits TABLE_EVENTS.CARD_DEALT when a card is dealt, with the index
+   * of the seat holding the hand, or -1 when the hand is not at a seat of this table.
    * @param hand <Hand> - The hand to deal the card to.
    * @returns True if the card was dealt, false if no seat or hand exists.
    */
@@ -229,7 +592,8 @@ export class Table {
     if (!card) return false;
 
     hand.addCard(card);
-    this.eventBus.emit(TABLE_EVENTS.CARD_DEALT, this, card, hand.getId());
+    const seatIndex = this.seats.findIndex(seat => seat.getHand(hand.getId()) === hand);
+    this.eventBus.emit(TABLE_EVENTS.CARD_DEALT, this, seatIndex, card, hand.getId());
     return true;
   }
 
@@ -336,9 +700,16 @@ export class Table {
    * @returns True if the player was removed, false if the player is not at the table.
    */
   public removePlayer(playerId: string): boolean {
+    if (this.spectators.has(playerId)) {
+      return this.removeSpectator(playerId);
+    }
+
     const player = this.players.get(playerId);
     if (!player) return false;
 
+    const turnSeatIndex = this.turnManager.getCurrentSeatIndex();
+    const hasTurn = turnSeatIndex !== null && this.getPlayerAtSeat(turnSeatIndex)?.id === playerId;
+
     // Remove player from all seats
     for (let i = 0; i < this.seats.length; i++) {
       const seat = this.getSeat(i);
@@ -347,18 +718,144 @@ export class Table {
       }
     }
 
+    // Pass the turn on if the player held it
+    if (hasTurn) {
+      this.turnManager.next("skipped", player);
+    }
+
     this.players.delete(playerId);
+    this.stateSync.delete(playerId);
     player.setTable(null);
     this.eventBus.emit(TABLE_EVENTS.PLAYER_LEFT, player, this);
 
-    // Check if table is empty
-    if (this.players.size === 0) {
-      this.eventBus.emit(TABLE_EVENTS.EMPTY, this);
-    }
+    this.emitEmptyIfVacant();
+    return true;
+  }
 
+  /*
+   * Spectator related methods
+   */
+
+  /**
+   * Adds a spectator to the table. Spectators receive table updates but cannot sit
+   * until they switch to being a player. Emits TABLE_EVENTS.SPECTATOR_JOINED when a spectator joins.
+   * @param player - The player to add as a spectator.
+   * @returns True if the spectator was added, false if the player is already at a table or the table is full of spectators.
+   */
+  public addSpectator(player: Player): boolean {
+    if (player.getTable()) return false;
+    if (this.spectators.size >= this.maxSpectators) return false;
+
+    this.spectators.set(player.id, player);
+    player.setTable(this);
+    this.eventBus.emit(TABLE_EVENTS.SPECTATOR_JOINED, player, this);
+    return true;
+  }
+
+  /**
+   * Removes a spectator from the table. Emits TABLE_EVENTS.SPECTATOR_LEFT when a spectator leaves.
+   * @param playerId - The ID of the spectator to remove.
+   * @returns True if the spectator was removed, false if the player is not spectating this table.
+   */
+  public removeSpectator(playerId: string): boolean {
+    const spectator = this.spectators.get(playerId);
+    if (!spectator) return false;
+
+    this.spectators.delete(playerId);
+    this.stateSync.delete(playerId);
+    spectator.setTable(null);
+    this.eventBus.emit(TABLE_EVENTS.SPECTATOR_LEFT, spectator, this);
+
+    this.emitEmptyIfVacant();
+    return true;
+  }
+
+  /**
+   * Switches a spectator to being a player at the table, allowing them to sit.
+   * Emits TABLE_EVENTS.PLAYER_ROLE_CHANGED when the role changes.
+   * @param playerId - The ID of the spectator to promote.
+   * @returns True if the spectator became a player, false if they are not spectating this table.
+   */
+  public promoteSpectator(playerId: string): boolean {
+    const player = this.spectators.get(playerId);
+    if (!player) return false;
+
+    this.spectators.delete(playerId);
+    this.players.set(playerId, player);
+    this.eventBus.emit(TABLE_EVENTS.PLAYER_ROLE_CHANGED, player, this, "player");
+    this.broadcastTableState();
+    return true;
+  }
+
+  /**
+   * Switches a player to being a spectator, standing them up from all seats first.
+   * Emits TABLE_EVENTS.PLAYER_ROLE_CHANGED when the role changes.
+   * @param playerId - The ID of the player to demote.
+   * @returns True if the player became a spectator, false if they are not a player at this table or the table is full of spectators.
+   */
+  public demoteToSpectator(playerId: string): boolean {
+    const player = this.players.get(playerId);
+    if (!player) return false;
+    if (this.spectators.size >= this.maxSpectators) return false;
+
+    this.standPlayerUp(playerId);
+    this.players.delete(playerId);
+    this.spectators.set(playerId, player);
+    this.eventBus.emit(TABLE_EVENTS.PLAYER_ROLE_CHANGED, player, this, "spectator");
+    this.broadcastTableState();
     return true;
   }
 
+  /**
+   * Checks if a player is spectating the table.
+   * @param playerId - The ID of the player to check.
+   * @returns True if the player is a spectator at this table.
+   */
+  public isSpectator(playerId: string): boolean {
+    return this.spectators.has(playerId);
+  }
+
+  /**
+   * Gets all spectators of the table.
+   * @returns An array of all spectators.
+   */
+  public getSpectators(): Player[] {
+    return Array.from(this.spectators.values());
+  }
+
+  /**
+   * Gets the number of spectators of the table.
+   * @returns The number of spectators.
+   */
+  public getSpectatorCount(): number {
+    return this.spectators.size;
+  }
+
+  /**
+   * Gets the maximum number of seats a player can sit at.
+   * @returns The maximum number of seats per player.
+   */
+  public getMaxSeatsPerPlayer(): number {
+    return this.maxSeatsPerPlayer;
+  }
+
+  /**
+   * Gets the maximum number of spectators the table accepts.
+   * @returns The spectator capacity.
+   */
+  public getMaxSpectators(): number {
+    return this.maxSpectators;
+  }
+
+  /**
+   * Emits TABLE_EVENTS.EMPTY once neither players nor spectators are left.
+   */
+  private emitEmptyIfVacant(): void {
+    if (this.players.size === 0 && this.spectators.size === 0) {
+      this.eventBus.emit(TABLE_EVENTS.EMPTY, this);
+    }
+  }
+
   /**
    * Sits a player at a specific seat. Emits TABLE_EVENTS.PLAYER_SAT when a player sits at a seat.
    * @param playerId - The ID of the player to sit.
@@ -399,6 +896,11 @@ export class Table {
 
     seat.setPlayer(null);
     this.eventBus.emit(TABLE_EVENTS.PLAYER_STOOD, player, this, seatIndex);
+
+    // Pass the turn on if the seat that stood up had it
+    if (this.turnManager.getCurrentSeatIndex() === seatIndex) {
+      this.turnManager.next("skipped", player);
+    }
     return true;
   }
 
@@ -436,9 +938,20 @@ export class Table {
 
   /**
    * Sets the state of the table. Emits TABLE_EVENTS.STATE_UPDATED when the state is updated.
+   * 
+   * If phases are configured, this transitions to the first allowed phase that declares the
+   * given state. The state is set directly when no such phase exists.
    * @param state - The new state of the table.
    */
   public setState(state: TableState): void {
+    if (this.phaseMachine) {
+      const phase = this.phaseMachine.getAvailableTransitions().find(name =>
+        this.phaseMachine!.getPhaseDefinition(name)?.tableState === state &&
+        this.phaseMachine!.canTransition(name)
+      );
+      if (phase && this.transitionTo(phase)) return;
+    }
+
     this.state = state;
     this.eventBus.emit(TABLE_EVENTS.STATE_UPDATED, this, state);
     
@@ -501,12 +1014,12 @@ export class Table {
   }
 
   /**
-   * Broadcasts a message to all players at the table.
+   * Broadcasts a message to all players and spectators at the table.
+   * Every recipient receives the message encoded with their own codec.
    * @param message - The message to broadcast.
    */
   public broadcastMessage(message: any): void {
-    const players = Array.from(this.players.values());
-    for (const player of players) {
+    for (const player of this.getRecipients()) {
       player.sendMessage(message);
     }
   }
@@ -514,45 +1027,245 @@ export class Table {
   /**
    * Broadcasts the current table state to all players at the table.
    * This includes all game-specific state and is only meant for players at this table.
+   * Every player receives the state projected for them (see `getTableState`).
    * Broadcasts a TABLE_EVENTS.STATE_UPDATED event that can be used by other components.
    */
   public broadcastTableState(): void {
-    const tableState = this.getTableState();
-    this.broadcastMessage({
-      type: CLIENT_MESSAGE_TYPES.TABLE.STATE,
-      data: tableState
-    });
+    const version = ++this.stateVersion;
+    const shareSpectatorView = !this.stateProjectors.has("spectator");
+    let spectatorView: TableStateSnapshot | null = null;
+
+    // Each player and spectator receives the state projected for them. Spectators without
+    // a projector all see the same state, so it is only built once.
+    for (const player of this.getRecipients()) {
+      let state: TableStateSnapshot;
+      if (shareSpectatorView && this.getViewerRole(player) === "spectator") {
+        spectatorView = spectatorView ?? this.snapshotTableState(player);
+        state = spectatorView;
+      } else {
+        state = this.snapshotTableState(player);
+      }
+      this.sendVersionedState(player, version, state);
+    }
     
     // Also emit an event that can be used by other components
-    this.eventBus.emit(TABLE_EVENTS.STATE_UPDATED, this, tableState);
+    this.eventBus.emit(TABLE_EVENTS.STATE_UPDATED, this, this.state);
+  }
+
+  /**
+   * Sends the full table state projected for a player, regardless of what the player
+   * has acknowledged. Used for the initial state and when a client requests a resync.
+   * Further updates are sent as full states until the player acknowledges this one.
+   * @param player - The player to send the state to.
+   */
+  public sendTableState(player: Player): void {
+    const state = this.snapshotTableState(player);
+    const version = ++this.stateVersion;
+
+    player.sendMessage({
+      type: CLIENT_MESSAGE_TYPES.TABLE.STATE,
+      data: state,
+      version
+    });
+
+    // The client replaces its state, so it may no longer have the acknowledged version
+    const sync = this.stateSync.get(player.id);
+    if (sync) sync.acknowledged = null;
+    this.recordSentState(player.id, version, state);
+  }
+
+  /**
+   * Gets the current state version of the table. The version increases every time
+   * the state is sent to players.
+   * @returns The current state version.
+   */
+  public getStateVersion(): number {
+    return this.stateVersion;
+  }
+
+  /**
+   * Records that a player has applied a state version. Subsequent broadcasts to the
+   * player are sent as patches against this version.
+   * @param playerId - The ID of the player acknowledging the state.
+   * @param version - The version the player has applied.
+   * @returns True if the version was sent to the player and is still known, false otherwise.
+   */
+  public acknowledgeState(playerId: string, version: number): boolean {
+    const sync = this.stateSync.get(playerId);
+    if (!sync) return false;
+
+    const state = sync.pending.get(version);
+    if (state === undefined) return false;
+
+    sync.acknowledged = { version, state };
+    for (const pendingVersion of sync.pending.keys()) {
+      if (pendingVersion <= version) {
+        sync.pending.delete(pendingVersion);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Gets everyone who receives table updates: players followed by spectators.
+   */
+  private getRecipients(): Player[] {
+    return [...this.players.values(), ...this.spectators.values()];
+  }
+
+  /**
+   * Sends a state version to a player, as a patch against the last acknowledged version
+   * if there is one and as a full snapshot otherwise.
+   */
+  private sendVersionedState(player: Player, version: number, state: TableStateSnapshot): void {
+    const acknowledged = this.stateSync.get(player.id)?.acknowledged;
+
+    if (!acknowledged) {
+      player.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.TABLE.STATE,
+        data: state,
+        version
+      });
+      this.recordSentState(player.id, version, state);
+      return;
+    }
+
+    const patch = createStatePatch(acknowledged.state, state);
+    if (patch.length === 0) return;
+
+    player.sendMessage({
+      type: CLIENT_MESSAGE_TYPES.TABLE.STATE_PATCH,
+      data: {
+        tableId: this.id,
+        baseVersion: acknowledged.version,
+        version,
+        patch
+      }
+    });
+    this.recordSentState(player.id, version, state);
+  }
+
+  /**
+   * Gets a plain copy of the table state projected for a viewer, so later changes to cards
+   * or attributes don't leak into the states kept for patches.
+   */
+  private snapshotTableState(viewer: Player): TableStateSnapshot {
+    return JSON.parse(JSON.stringify(this.getTableState(viewer)));
+  }
+
+  /**
+   * Keeps a state sent to a player until it is acknowledged or superseded.
+   */
+  private recordSentState(playerId: string, version: number, state: TableStateSnapshot): void {
+    let sync = this.stateSync.get(playerId);
+    if (!sync) {
+      sync = { acknowledged: null, pending: new Map() };
+      this.stateSync.set(playerId, sync);
+    }
+
+    sync.pending.set(version, state);
+    while (sync.pending.size > MAX_PENDING_STATE_VERSIONS) {
+      sync.pending.delete(sync.pending.keys().next().value as number);
+    }
+  }
+
+  /**
+   * Sets the function that decides which role a recipient of the table state has.
+   * By default players at the table are `player` and everyone else is a `spectator`.
+   * Returning null from the resolver falls back to the default.
+   * @param resolver - The resolver function, or null to restore the default.
+   */
+  public setViewerRoleResolver(resolver: ((viewer: Player, table: Table) => TableViewerRole | null) | null): void {
+    this.viewerRoleResolver = resolver;
+  }
+
+  /**
+   * Gets the role a recipient of the table state has at this table.
+   * @param viewer - The recipient of the table state.
+   * @returns The role of the viewer.
+   */
+  public getViewerRole(viewer: Player): TableViewerRole {
+    const role = this.viewerRoleResolver?.(viewer, this);
+    if (role) return role;
+
+    // Spectators and anyone else not playing at the table get the spectator view
+    return this.players.has(viewer.id) ? "player" : "spectator";
+  }
+
+  /**
+   * Sets a projector that customizes the table state sent to viewers with a given role,
+   * for example to hide attributes from spectators or add debugging data for admins.
+   * @param role - The viewer role the projector applies to.
+   * @param projector - The projector function, or null to remove it.
+   */
+  public setStateProjector(role: TableViewerRole, projector: TableStateProjector | null): void {
+    if (projector) {
+      this.stateProjectors.set(role, projector);
+    } else {
+      this.stateProjectors.delete(role);
+    }
   }
 
   /**
    * Gets the complete table state including all attributes and game state.
-   * This is used for players who are at the table and need full information.
-   * Emits a TABLE_EVENTS.STATE_UPDATED event that can be used by other components.
    * 
+   * Without a viewer, this returns the public view in which hidden cards are only counted.
+   * With a viewer, the state is projected for them: players see the hidden cards of their
+   * own seats, admins see all hidden cards, and any projector registered for the viewer's
+   * role is applied.
+   * 
+   * @param viewer - The player the state is projected for.
    * @returns The complete table state.
    */
-  public getTableState(): any {
+  public getTableState(viewer?: Player | null): TableStateSnapshot {
+    if (!viewer) {
+      return this.buildTableState(() => false);
+    }
+
+    const role = this.getViewerRole(viewer);
+    const state = this.buildTableState(seat =>
+      role === "admin" || (role === "player" && seat.getPlayer()?.id === viewer.id)
+    );
+
+    const projector = this.stateProjectors.get(role);
+    return projector ? projector(state, viewer, this) : state;
+  }
+
+  /**
+   * Builds the table state, revealing hidden cards of the seats accepted by the predicate.
+   */
+  private buildTableState(revealHiddenCards: (seat: Seat) => boolean): TableStateSnapshot {
     return {
       id: this.id,
       state: this.state,
+      phase: this.getPhase(),
       seats: this.seats.map(seat => ({
         player: seat.getPlayer() ? {
           id: seat.getPlayer()!.id,
           attributes: seat.getPlayer()!.getAttributes()
         } : null,
         hands: Array.from(seat.getAllHands() || new Map()).reduce((obj, [key, hand]) => {
-          obj[key] = hand.getVisibleState();
+          obj[key] = revealHiddenCards(seat) ? hand.getOwnerState() : hand.getVisibleState();
           return obj;
-        }, {} as Record<string, any>)
+        }, {} as Record<string, HandState>)
       })),
       attributes: Object.fromEntries(this.attributes.entries()),
-      playerCount: this.players.size
+      playerCount: this.players.size,
+      spectatorCount: this.spectators.size,
+      turn: this.turnManager.getTurnState(),
+      pots: this.potManager.getState(),
+      ...(this.fairShuffle ? { deckCommitment: this.fairShuffle.commitment } : {})
     };
   }
 
+  /**
+   * Gets the ID of the game the table was created for.
+   * @returns The game ID, or "default" if the table was created without one.
+   */
+  public getGameId(): string {
+    return this.gameId;
+  }
+
   /**
    * Gets the table metadata for lobby display.
    * This includes only the essential information needed to display in the lobby.
@@ -565,6 +1278,8 @@ export class Table {
       state: this.state,
       seats: this.seats.map(seat => seat.getPlayer()?.id || null),
       playerCount: this.players.size,
+      spectatorCount: this.spectators.size,
+      maxSpectators: this.maxSpectators,
       gameId: this.getAttribute("gameId"),
       gameName: this.getAttribute("gameName"),
       options: this.getAttribute("options")
@@ -1,6 +1,7 @@
 import { EventBus } from "../events/EventBus";
-import { Table } from "./Table";
+import { Table, TableOptions } from "./Table";
 import { TABLE_EVENTS } from "../events/EventTypes";
+import { ServerTransportModule } from "../transport/ServerTransportModule";
 
 /**
  * Factory class for creating tables.
@@ -11,21 +12,29 @@ import { TABLE_EVENTS } from "../events/EventTypes";
  */
 export class TableFactory {
   private eventBus: EventBus;
+  private serverTransportModule?: ServerTransportModule;
 
-  constructor(eventBus: EventBus) {
+  constructor(eventBus: EventBus, serverTransportModule?: ServerTransportModule) {
     this.eventBus = eventBus;
+    this.serverTransportModule = serverTransportModule;
   }
 
   /**
    * Creates a new table with the specified number of seats and maximum seats per player.
    * Emits a TABLE_EVENTS.CREATED event when the table is created.
+   * Bets at the table are created and settled with the factory's server transport module,
+   * unless the options provide one.
    * 
    * @param totalSeats - The total number of seats at the table.
    * @param maxSeatsPerPlayer - The maximum number of seats a player can occupy.
+   * @param options - Optional table options, such as turn options or the spectator capacity.
    * @returns The newly created table.
    */
-  public createTable(totalSeats: number, maxSeatsPerPlayer: number): Table {
-    const table = new Table(this.eventBus, totalSeats, maxSeatsPerPlayer);
+  public createTable(totalSeats: number, maxSeatsPerPlayer: number, options?: TableOptions): Table {
+    const table = new Table(this.eventBus, totalSeats, maxSeatsPerPlayer, undefined, undefined, {
+      serverTransportModule: this.serverTransportModule,
+      ...options
+    });
     console.log(`Table created: ${table.id}`);
     this.eventBus.emit(TABLE_EVENTS.CREATED, table);
     return table;
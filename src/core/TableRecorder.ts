@@ -0,0 +1,333 @@
+import { EventBus, PatternListener } from "../events/EventBus";
+import { PLAYER_EVENTS } from "../events/PlayerEvents";
+import { Player } from "./Player";
+import { Table } from "./Table";
+import { CryptoRandomSource, RandomSource, generateSeed } from "./card/index";
+import { CommandData } from "./commands/index";
+
+/**
+ * The kind of a table log entry.
+ * - `start`: a snapshot of the table when the recording started
+ * - `event`: an event of the table, or an attribute change of one of its players
+ * - `command`: a command a player sent through the `MessageRouter`
+ * - `seed`: a seed drawn from the table's random source
+ * - `end`: the table state when the recording stopped
+ */
+export type TableLogEntryType = "start" | "event" | "command" | "seed" | "end";
+
+/**
+ * A single entry of a table log. Players and tables in the data are stored as
+ * `{ playerId }` and `{ tableId }` references.
+ */
+export interface TableLogEntry {
+  /** The position of the entry in the log, starting at 0. */
+  sequence: number;
+  /** The time the entry was recorded, in milliseconds since the epoch. */
+  timestamp: number;
+  type: TableLogEntryType;
+  /** The event name of `event` entries, or the action of `command` entries. */
+  name?: string;
+  /** The ID of the player who sent a command, or whose attribute changed. */
+  playerId?: string;
+  data: any;
+}
+
+const ENTRY_TYPES: ReadonlyArray<TableLogEntryType> = ["start", "event", "command", "seed", "end"];
+
+/**
+ * Converts a value to plain JSON data for the log. Players and tables become references,
+ * functions are dropped and circular references are replaced by "[Circular]".
+ */
+function toLogValue(value: unknown, ancestors: unknown[] = []): unknown {
+  if (value instanceof Player) return { playerId: value.id };
+  if (value instanceof Table) return { tableId: value.id };
+  if (value === undefined || typeof value === "function") return null;
+  if (value === null || typeof value !== "object") return value;
+  if (ancestors.includes(value)) return "[Circular]";
+  if ("toJSON" in value && typeof value.toJSON === "function") return toLogValue(value.toJSON(), ancestors);
+
+  const nextAncestors = [...ancestors, value];
+  if (Array.isArray(value) || value instanceof Set) {
+    return Array.from(value, item => toLogValue(item, nextAncestors));
+  }
+
+  const source = value instanceof Map ? Object.fromEntries(value) : value;
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(source)) {
+    if (item === undefined || typeof item === "function") continue;
+    result[key] = toLogValue(item, nextAncestors);
+  }
+  return result;
+}
+
+/**
+ * An append-only log of a table session, recorded by a [TableRecorder](/api/classes/tablerecorder/)
+ * and replayed with `replayTableLog`.
+ *
+ * The log is exported and imported as newline-delimited JSON, one entry per line.
+ */
+export class TableLog {
+  private entries: TableLogEntry[] = [];
+  private appendListeners: Array<(entry: TableLogEntry, line: string) => void> = [];
+
+  constructor(entries: TableLogEntry[] = []) {
+    entries.forEach(entry => this.entries.push(Object.freeze({ ...entry })));
+  }
+
+  /**
+   * Appends an entry to the log. The data is converted to plain JSON data.
+   * @param entry - The entry, without its sequence and timestamp.
+   * @returns The appended entry.
+   */
+  public append(entry: Omit<TableLogEntry, "sequence" | "timestamp">): TableLogEntry {
+    const last = this.entries[this.entries.length - 1];
+    const appended: TableLogEntry = Object.freeze({
+      sequence: last ? last.sequence + 1 : 0,
+      timestamp: Date.now(),
+      type: entry.type,
+      ...(entry.name !== undefined ? { name: entry.name } : {}),
+      ...(entry.playerId !== undefined ? { playerId: entry.playerId } : {}),
+      data: toLogValue(entry.data)
+    });
+
+    this.entries.push(appended);
+
+    const line = JSON.stringify(appended);
+    this.appendListeners.forEach(listener => listener(appended, line));
+    return appended;
+  }
+
+  /**
+   * Registers a listener that is called with every appended entry and its NDJSON line,
+   * for example to write the log to a file while it is recorded.
+   * @param listener - The listener.
+   */
+  public onAppend(listener: (entry: TableLogEntry, line: string) => void): void {
+    this.appendListeners.push(listener);
+  }
+
+  /**
+   * Gets the entries of the log, in order.
+   * @returns A copy of the entries.
+   */
+  public getEntries(): TableLogEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Gets the seeds recorded in the log, in the order they were drawn.
+   * @returns The seeds.
+   */
+  public getSeeds(): string[] {
+    return this.entries.filter(entry => entry.type === "seed").map(entry => entry.data);
+  }
+
+  /**
+   * Exports the log as newline-delimited JSON.
+   * @returns One JSON entry per line.
+   */
+  public toNDJSON(): string {
+    return this.entries.map(entry => JSON.stringify(entry) + "\n").join("");
+  }
+
+  /**
+   * Imports a log from newline-delimited JSON. Blank lines are ignored.
+   * @param ndjson - The exported log.
+   * @returns The imported log.
+   * @throws If a line is not a valid log entry or the entries are out of order.
+   */
+  public static fromNDJSON(ndjson: string): TableLog {
+    const entries: TableLogEntry[] = [];
+
+    ndjson.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === "") return;
+
+      let entry: TableLogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid table log entry on line ${index + 1}: ${error instanceof Error ? error.message : "invalid JSON"}`);
+      }
+
+      if (!entry || typeof entry.sequence !== "number" || typeof entry.timestamp !== "number" || !ENTRY_TYPES.includes(entry.type)) {
+        throw new Error(`Invalid table log entry on line ${index + 1}`);
+      }
+
+      const previous = entries[entries.length - 1];
+      if (previous && entry.sequence <= previous.sequence) {
+        throw new Error(`Table log entry on line ${index + 1} is out of order`);
+      }
+
+      entries.push(entry);
+    });
+
+    return new TableLog(entries);
+  }
+}
+
+/**
+ * Wraps a random source and reports every seed drawn from it.
+ */
+class RecordingRandomSource implements RandomSource {
+  constructor(
+    public readonly inner: RandomSource,
+    private readonly onSeed: (seed: string) => void
+  ) {}
+
+  public next(): number {
+    return this.inner.next();
+  }
+
+  public nextSeed(): string {
+    const seed = generateSeed(this.inner);
+    this.onSeed(seed);
+    return seed;
+  }
+}
+
+/**
+ * Records a table session to a [TableLog](/api/classes/tablelog/): the events of the table, the
+ * commands its players send through the `MessageRouter`, the attribute changes of its players and
+ * the seeds drawn from its random source. The log can be replayed with `replayTableLog` to
+ * reproduce the session, for example to resolve a dispute or a bug report.
+ *
+ * Start recording before the first hand so the shuffles can be replayed. Decks created with their
+ * own random source, rather than the table's, are not recorded.
+ */
+export class TableRecorder {
+  private table: Table;
+  private eventBus: EventBus;
+  private log: TableLog;
+  private recording = false;
+  private previousRandomSource: RandomSource | null = null;
+  private tableListener: PatternListener | null = null;
+  private commandListener: ((player: Player, command: CommandData) => void) | null = null;
+  private attributeListener: ((player: Player, key: string, value: unknown) => void) | null = null;
+
+  /**
+   * @param table - The table to record.
+   * @param eventBus - The bus the `MessageRouter` and the players emit their events on.
+   * @param log - The log to record to.
+   */
+  constructor(table: Table, eventBus: EventBus, log: TableLog = new TableLog()) {
+    this.table = table;
+    this.eventBus = eventBus;
+    this.log = log;
+  }
+
+  /**
+   * Starts recording. Appends a `start` entry with a snapshot of the table.
+   * @returns True if the recording started, false if it is already recording.
+   */
+  public start(): boolean {
+    if (this.recording) return false;
+    this.recording = true;
+
+    this.log.append({ type: "start", data: this.getSnapshot() });
+
+    this.tableListener = (event, ...args) => {
+      this.log.append({ type: "event", name: event, data: args });
+    };
+    this.table.getEventBus().onAny(this.tableListener);
+
+    this.commandListener = (player, command) => {
+      if (player.getTable() === this.table || command.tableId === this.table.id) {
+        this.log.append({ type: "command", name: command.action, playerId: player.id, data: command });
+      }
+    };
+    this.eventBus.on(PLAYER_EVENTS.COMMAND_RECEIVED, this.commandListener);
+
+    this.attributeListener = (player, key, value) => {
+      if (player.getTable() === this.table) {
+        this.log.append({ type: "event", name: PLAYER_EVENTS.ATTRIBUTE_CHANGED, playerId: player.id, data: [player, key, value] });
+      }
+    };
+    this.eventBus.on(PLAYER_EVENTS.ATTRIBUTE_CHANGED, this.attributeListener);
+
+    this.previousRandomSource = this.table.getRandomSource();
+    this.table.setRandomSource(this.recordSeeds(this.previousRandomSource ?? new CryptoRandomSource()));
+    const deck = this.table.getDeck();
+    if (deck) {
+      deck.setRandomSource(this.recordSeeds(deck.getRandomSource()));
+    }
+
+    return true;
+  }
+
+  /**
+   * Stops recording. Appends an `end` entry with the table state and restores the random sources.
+   * @returns True if the recording stopped, false if it was not recording.
+   */
+  public stop(): boolean {
+    if (!this.recording) return false;
+
+    this.log.append({ type: "end", data: this.table.getTableState() });
+
+    if (this.tableListener) this.table.getEventBus().offAny(this.tableListener);
+    if (this.commandListener) this.eventBus.off(PLAYER_EVENTS.COMMAND_RECEIVED, this.commandListener);
+    if (this.attributeListener) this.eventBus.off(PLAYER_EVENTS.ATTRIBUTE_CHANGED, this.attributeListener);
+    this.tableListener = null;
+    this.commandListener = null;
+    this.attributeListener = null;
+
+    this.table.setRandomSource(this.previousRandomSource);
+    const rng = this.table.getDeck()?.getRandomSource();
+    if (rng instanceof RecordingRandomSource) {
+      this.table.getDeck()!.setRandomSource(rng.inner);
+    }
+
+    this.recording = false;
+    return true;
+  }
+
+  /**
+   * Checks if the recorder is recording.
+   * @returns True if it is recording.
+   */
+  public isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Gets the log the recorder records to.
+   * @returns The log.
+   */
+  public getLog(): TableLog {
+    return this.log;
+  }
+
+  private recordSeeds(rng: RandomSource): RandomSource {
+    return new RecordingRandomSource(rng, seed => {
+      if (this.recording) {
+        this.log.append({ type: "seed", data: seed });
+      }
+    });
+  }
+
+  /**
+   * Gets the snapshot of the table a replay starts from.
+   */
+  private getSnapshot(): Record<string, unknown> {
+    const participant = (player: Player) => ({
+      id: player.id,
+      attributes: player.getAttributes()
+    });
+
+    return {
+      tableId: this.table.id,
+      gameId: this.table.getGameId(),
+      totalSeats: this.table.getSeats().length,
+      maxSeatsPerPlayer: this.table.getMaxSeatsPerPlayer(),
+      maxSpectators: this.table.getMaxSpectators(),
+      attributes: this.table.getAttributes(),
+      players: this.table.getPlayers().map(player => ({
+        ...participant(player),
+        seats: this.table.getSeats()
+          .map((seat, index) => seat.getPlayer()?.id === player.id ? index : -1)
+          .filter(index => index !== -1)
+      })),
+      spectators: this.table.getSpectators().map(participant),
+      state: this.table.getTableState()
+    };
+  }
+}
@@ -0,0 +1,200 @@
+import * as WebSocket from "ws";
+import { EventBus } from "../events/EventBus";
+import { MessageRouter } from "../events/MessageRouter";
+import { PLAYER_EVENTS } from "../events/PlayerEvents";
+import { TABLE_EVENTS } from "../events/TableEvents";
+import { Player } from "./Player";
+import { Table, TableOptions, TableState, TableStateSnapshot } from "./Table";
+import { TableLog, TableLogEntry } from "./TableRecorder";
+import { SeedSequenceSource } from "./card/index";
+import { createStatePatch, StatePatchOperation } from "./StatePatch";
+
+/**
+ * The components a replay runs on, passed to the `setup` of `replayTableLog`.
+ */
+export interface TableReplayContext {
+  /** The bus of the replay, the parent of the table's bus. */
+  eventBus: EventBus;
+  /** The router the recorded commands are replayed through. */
+  messageRouter: MessageRouter;
+}
+
+export interface TableReplayOptions {
+  /**
+   * Installs the game on the fresh table before the session is replayed, for example its phases,
+   * its deck and its command handlers, as the game server did for the recorded table.
+   */
+  setup?: (table: Table, context: TableReplayContext) => void | Promise<void>;
+  /** Options for the fresh table. The random source is replaced by the recorded seeds. */
+  tableOptions?: TableOptions;
+}
+
+export interface TableReplayResult {
+  /** The table the session was replayed on. */
+  table: Table;
+  /** Whether the replay ended in the recorded state. False if the log has no `end` entry. */
+  matches: boolean;
+  /** The state recorded in the `end` entry, or null if the log has none. */
+  expectedState: TableStateSnapshot | null;
+  /** The state of the table after the replay. */
+  actualState: TableStateSnapshot;
+  /** The operations that turn the expected state into the actual state. */
+  differences: StatePatchOperation[];
+}
+
+/**
+ * Turn deadlines depend on the time of the replay, so they are not compared.
+ */
+function withoutDeadline(state: TableStateSnapshot): TableStateSnapshot {
+  const plain = JSON.parse(JSON.stringify(state));
+  if (plain && plain.turn) {
+    plain.turn.deadline = null;
+  }
+  return plain;
+}
+
+/**
+ * Handles the table requests of the built-in commands for the replayed table, as the
+ * WebSocketManager does for the tables of a game server.
+ */
+function handleTableRequests(eventBus: EventBus, table: Table): void {
+  eventBus.on('request:table:join', (player: Player, tableId: string) => {
+    if (tableId === table.id && table.addPlayer(player)) {
+      player.setTable(table);
+    }
+  });
+
+  eventBus.on('request:table:spectate', (player: Player, tableId: string) => {
+    if (tableId === table.id) {
+      table.addSpectator(player);
+    }
+  });
+
+  eventBus.on('request:table:role:switch', (player: Player, tableId: string, role: string) => {
+    if (tableId !== table.id) return;
+
+    if (role === "player") {
+      table.promoteSpectator(player.id);
+    } else {
+      table.demoteToSpectator(player.id);
+    }
+  });
+
+  eventBus.on('request:table:leave', (player: Player, tableId: string) => {
+    if (tableId !== table.id) return;
+
+    table.removePlayer(player.id);
+    player.setTable(null);
+  });
+
+  eventBus.on('request:table:seat:sit', (player: Player, tableId: string, seatIndex: unknown) => {
+    if (tableId === table.id && typeof seatIndex === "number") {
+      table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table, seatIndex);
+    }
+  });
+
+  eventBus.on('request:table:seat:stand', (player: Player, tableId: string) => {
+    if (tableId === table.id) {
+      table.getEventBus().emit(TABLE_EVENTS.PLAYER_STAND_REQUEST, player, table);
+    }
+  });
+}
+
+/**
+ * Replays a recorded table session on a fresh table and checks that it ends in the recorded state.
+ *
+ * The table is restored from the `start` entry of the log, with its players, spectators, seats and
+ * attributes, and its shuffles use the recorded seeds. The recorded commands are then replayed through
+ * a fresh `MessageRouter` by players with the recorded IDs, and the recorded attribute changes of the
+ * players are applied. Changes that were made by the game server outside of commands are not replayed.
+ *
+ * The replay waits for the pending callbacks of each command before it replays the next one, so async
+ * command handlers can finish. Call `table.dispose()` on the returned table once you are done with it.
+ *
+ * @param log - The log, or its entries.
+ * @param options - The setup of the game and the table options.
+ * @returns The replayed table and the comparison of its state with the recorded state.
+ * @throws If the log has no `start` entry.
+ */
+export async function replayTableLog(
+  log: TableLog | TableLogEntry[],
+  options: TableReplayOptions = {}
+): Promise<TableReplayResult> {
+  const entries = log instanceof TableLog ? log.getEntries() : log;
+  const startIndex = entries.findIndex(entry => entry.type === "start");
+  if (startIndex === -1) {
+    throw new Error("The table log has no start entry");
+  }
+
+  const start = entries[startIndex].data;
+  const seeds = entries.filter(entry => entry.type === "seed").map(entry => entry.data);
+
+  const eventBus = new EventBus();
+  const messageRouter = new MessageRouter(eventBus);
+  const table = new Table(eventBus, start.totalSeats, start.maxSeatsPerPlayer, start.tableId, start.gameId, {
+    ...options.tableOptions,
+    maxSpectators: start.maxSpectators,
+    rng: new SeedSequenceSource(seeds)
+  });
+  handleTableRequests(eventBus, table);
+
+  // The players never send messages, their sockets are closed
+  const socket = { on: () => undefined, readyState: WebSocket.WebSocket.CLOSED } as unknown as WebSocket.WebSocket;
+  const players: Map<string, Player> = new Map();
+  const getPlayer = (id: string, attributes: Record<string, unknown> = {}): Player => {
+    let player = players.get(id);
+    if (!player) {
+      player = new Player(socket, eventBus, id);
+      Object.entries(attributes).forEach(([key, value]) => player!.setAttribute(key, value, false));
+      players.set(id, player);
+    }
+    return player;
+  };
+
+  if (options.setup) {
+    await options.setup(table, { eventBus, messageRouter });
+  }
+
+  table.setAttributes(start.attributes ?? {});
+  for (const participant of start.players ?? []) {
+    const player = getPlayer(participant.id, participant.attributes);
+    table.addPlayer(player);
+    (participant.seats ?? []).forEach((seatIndex: number) => table.sitPlayerAtSeat(player.id, seatIndex));
+  }
+  for (const participant of start.spectators ?? []) {
+    table.addSpectator(getPlayer(participant.id, participant.attributes));
+  }
+  if (start.state?.state && start.state.state !== TableState.WAITING) {
+    table.setState(start.state.state);
+  }
+
+  let end: TableLogEntry | null = null;
+  for (const entry of entries.slice(startIndex + 1)) {
+    if (entry.type === "end") {
+      end = entry;
+      break;
+    }
+
+    if (entry.type === "command" && entry.playerId) {
+      messageRouter.processMessage(getPlayer(entry.playerId), JSON.stringify(entry.data));
+      await new Promise(resolve => setImmediate(resolve));
+    } else if (entry.type === "event" && entry.name === PLAYER_EVENTS.ATTRIBUTE_CHANGED && entry.playerId) {
+      const [, key, value] = entry.data;
+      getPlayer(entry.playerId).setAttribute(key, value, false);
+    }
+  }
+
+  const expectedState = end ? end.data : null;
+  const actualState = table.getTableState();
+  const differences = expectedState
+    ? createStatePatch(withoutDeadline(expectedState), withoutDeadline(actualState))
+    : [];
+
+  return {
+    table,
+    matches: expectedState !== null && differences.length === 0,
+    expectedState,
+    actualState,
+    differences
+  };
+}
@@ -0,0 +1,369 @@
+import { EventBus } from "../events/EventBus";
+import { TABLE_EVENTS } from "../events/TableEvents";
+import { CLIENT_MESSAGE_TYPES } from "./commands/index";
+import { Player } from "./Player";
+import { Seat } from "./Seat";
+import type { Table } from "./Table";
+
+/**
+ * The reason a turn ended.
+ */
+export type TurnEndReason = "completed" | "timeout" | "skipped" | "stopped";
+
+/**
+ * The turn in progress, as sent to clients.
+ */
+export interface TurnState {
+  seatIndex: number;
+  playerId: string | null;
+  deadline: number | null;
+}
+
+/**
+ * Options for configuring the turn rotation of a table.
+ */
+export interface TurnOptions {
+  /**
+   * Time in milliseconds a seat has to act before its turn times out.
+   * Set to 0 (the default) to disable turn timers.
+   */
+  turnTimeoutMs?: number;
+  /**
+   * Seat attributes that cause a seat to be skipped when their value is truthy.
+   * Defaults to `["sittingOut", "folded"]`.
+   */
+  skipSeatAttributes?: string[];
+  /**
+   * Whether seats whose player is temporarily disconnected should be skipped.
+   * Defaults to true.
+   */
+  skipDisconnected?: boolean;
+  /**
+   * Additional predicate to decide whether a seat should be skipped.
+   */
+  shouldSkipSeat?: (seat: Seat, seatIndex: number, table: Table) => boolean;
+  /**
+   * The default action performed for a seat when its turn times out, for example
+   * folding or standing. The turn is advanced afterwards unless the action already did so.
+   */
+  onTimeout?: (table: Table, seatIndex: number, player: Player | null) => void;
+}
+
+/**
+ * Manages the turn order of a [Table](/api/classes/table/).
+ *
+ * The turn manager rotates over occupied seats in seat order, skipping seats that are
+ * sitting out, folded, disconnected or rejected by a custom predicate. Each turn can
+ * optionally have a deadline, after which the configured default action is performed
+ * and the turn passes to the next seat.
+ *
+ * Emits TABLE_EVENTS.TURN_STARTED, TABLE_EVENTS.TURN_ENDED and TABLE_EVENTS.TURN_TIMED_OUT.
+ */
+export class TurnManager {
+  private table: Table;
+  private eventBus: EventBus;
+  private options: TurnOptions = {};
+  private currentSeatIndex: number | null = null;
+  private deadline: number | null = null;
+  private turnNumber = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(table: Table, eventBus: EventBus, options: TurnOptions = {}) {
+    this.table = table;
+    this.eventBus = eventBus;
+    this.configure(options);
+  }
+
+  /**
+   * Updates the turn options. Options not provided keep their current value.
+   *
+   * @param options The options to apply.
+   */
+  public configure(options: TurnOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Gets the current turn options.
+   *
+   * @returns A copy of the current turn options.
+   */
+  public getOptions(): TurnOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Starts the turn rotation at the first eligible seat at or after the given index.
+   * Any turn in progress is ended with the reason "stopped".
+   *
+   * @param fromSeatIndex The seat index to start searching from.
+   * @returns True if a turn was started, false if no seat is eligible.
+   */
+  public start(fromSeatIndex = 0): boolean {
+    if (this.isActive()) {
+      this.endCurrentTurn("stopped");
+    }
+
+    const seatIndex = this.findEligibleSeat(fromSeatIndex);
+    if (seatIndex === null) return false;
+
+    this.beginTurn(seatIndex);
+    return true;
+  }
+
+  /**
+   * Ends the current turn and passes the turn to the next eligible seat.
+   *
+   * @param reason The reason the current turn ended.
+   * @param player The player who had the turn, when they already left its seat.
+   * @returns True if a new turn was started, false if no seat is eligible.
+   */
+  public next(reason: TurnEndReason = "completed", player?: Player): boolean {
+    if (!this.isActive()) return false;
+
+    const previousSeatIndex = this.currentSeatIndex!;
+    this.endCurrentTurn(reason, player);
+
+    const seatIndex = this.findEligibleSeat(previousSeatIndex + 1);
+    if (seatIndex === null) return false;
+
+    this.beginTurn(seatIndex);
+    return true;
+  }
+
+  /**
+   * Stops the turn rotation, ending the current turn with the reason "stopped".
+   */
+  public stop(): void {
+    if (!this.isActive()) return;
+    this.endCurrentTurn("stopped");
+  }
+
+  /**
+   * Checks whether a turn is currently in progress.
+   *
+   * @returns True if a seat currently has the turn.
+   */
+  public isActive(): boolean {
+    return this.currentSeatIndex !== null;
+  }
+
+  /**
+   * Gets the index of the seat whose turn it is.
+   *
+   * @returns The seat index or null if no turn is in progress.
+   */
+  public getCurrentSeatIndex(): number | null {
+    return this.currentSeatIndex;
+  }
+
+  /**
+   * Gets the player whose turn it is.
+   *
+   * @returns The player or null if no turn is in progress.
+   */
+  public getCurrentPlayer(): Player | null {
+    if (this.currentSeatIndex === null) return null;
+    return this.table.getPlayerAtSeat(this.currentSeatIndex);
+  }
+
+  /**
+   * Checks whether it is the turn of a specific player.
+   *
+   * @param playerId The ID of the player to check.
+   * @returns True if the player is seated at the seat that has the turn.
+   */
+  public isPlayerTurn(playerId: string): boolean {
+    return this.getCurrentPlayer()?.id === playerId;
+  }
+
+  /**
+   * Gets the deadline of the current turn.
+   *
+   * @returns The deadline as a timestamp in milliseconds, or null if the turn has no timer.
+   */
+  public getDeadline(): number | null {
+    return this.deadline;
+  }
+
+  /**
+   * Gets the time left in the current turn.
+   *
+   * @returns The remaining time in milliseconds, or null if the turn has no timer.
+   */
+  public getRemainingTime(): number | null {
+    if (this.deadline === null) return null;
+    return Math.max(0, this.deadline - Date.now());
+  }
+
+  /**
+   * Gets the order in which seats will receive the turn, starting with the current seat.
+   *
+   * @returns An array of seat indexes of all eligible seats.
+   */
+  public getTurnOrder(): number[] {
+    const totalSeats = this.table.getSeats().length;
+    const start = this.currentSeatIndex ?? 0;
+    const order: number[] = [];
+
+    for (let offset = 0; offset < totalSeats; offset++) {
+      const seatIndex = (start + offset) % totalSeats;
+      if (this.isSeatEligible(seatIndex)) {
+        order.push(seatIndex);
+      }
+    }
+    return order;
+  }
+
+  /**
+   * Checks whether a seat can receive the turn.
+   *
+   * @param seatIndex The index of the seat to check.
+   * @returns True if the seat is occupied and not skipped.
+   */
+  public isSeatEligible(seatIndex: number): boolean {
+    const seat = this.table.getSeat(seatIndex);
+    if (!seat) return false;
+
+    const player = seat.getPlayer();
+    if (!player) return false;
+
+    const skipAttributes = this.options.skipSeatAttributes || ["sittingOut", "folded"];
+    if (skipAttributes.some(key => Boolean(seat.getAttribute(key)))) {
+      return false;
+    }
+
+    if (this.options.skipDisconnected !== false && player.getAttribute("connectionStatus") === "disconnected") {
+      return false;
+    }
+
+    if (this.options.shouldSkipSeat && this.options.shouldSkipSeat(seat, seatIndex, this.table)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns a representation of the turn state that is safe to send to clients.
+   *
+   * @returns The current turn state or null if no turn is in progress.
+   */
+  public getTurnState(): TurnState | null {
+    if (this.currentSeatIndex === null) return null;
+
+    return {
+      seatIndex: this.currentSeatIndex,
+      playerId: this.getCurrentPlayer()?.id || null,
+      deadline: this.deadline
+    };
+  }
+
+  /**
+   * Clears any pending turn timer without emitting events.
+   */
+  public dispose(): void {
+    this.clearTimer();
+    this.currentSeatIndex = null;
+    this.deadline = null;
+  }
+
+  /**
+   * Finds the first eligible seat starting at a given index, wrapping around the table.
+   */
+  private findEligibleSeat(fromSeatIndex: number): number | null {
+    const totalSeats = this.table.getSeats().length;
+    if (totalSeats === 0) return null;
+
+    const start = ((fromSeatIndex % totalSeats) + totalSeats) % totalSeats;
+
+    for (let offset = 0; offset < totalSeats; offset++) {
+      const seatIndex = (start + offset) % totalSeats;
+      if (this.isSeatEligible(seatIndex)) {
+        return seatIndex;
+      }
+    }
+    return null;
+  }
+
+  private beginTurn(seatIndex: number): void {
+    this.currentSeatIndex = seatIndex;
+    this.turnNumber++;
+    const timeoutMs = this.options.turnTimeoutMs || 0;
+    this.deadline = timeoutMs > 0 ? Date.now() + timeoutMs : null;
+
+    if (timeoutMs > 0) {
+      const turnNumber = this.turnNumber;
+      this.timer = setTimeout(() => this.handleTimeout(turnNumber), timeoutMs);
+    }
+
+    const player = this.table.getPlayerAtSeat(seatIndex);
+    this.eventBus.emit(TABLE_EVENTS.TURN_STARTED, this.table, seatIndex, player, this.deadline);
+    this.notifyPlayers("started", seatIndex, player);
+  }
+
+  private endCurrentTurn(reason: TurnEndReason, endedPlayer?: Player): void {
+    const seatIndex = this.currentSeatIndex;
+    if (seatIndex === null) return;
+
+    const player = endedPlayer ?? this.table.getPlayerAtSeat(seatIndex);
+    this.clearTimer();
+    this.currentSeatIndex = null;
+    this.deadline = null;
+
+    this.eventBus.emit(TABLE_EVENTS.TURN_ENDED, this.table, seatIndex, player, reason);
+    this.notifyPlayers("ended", seatIndex, player, { reason });
+  }
+
+  private handleTimeout(turnNumber: number): void {
+    this.timer = null;
+    if (turnNumber !== this.turnNumber || this.currentSeatIndex === null) return;
+
+    const seatIndex = this.currentSeatIndex;
+    const player = this.table.getPlayerAtSeat(seatIndex);
+    this.eventBus.emit(TABLE_EVENTS.TURN_TIMED_OUT, this.table, seatIndex, player);
+    this.notifyPlayers("timedout", seatIndex, player);
+
+    if (this.options.onTimeout) {
+      try {
+        this.options.onTimeout(this.table, seatIndex, player);
+      } catch (error) {
+        console.error("Error running turn timeout action:", error);
+      }
+    }
+
+    // Only advance if the timeout action did not already move the turn along
+    if (turnNumber === this.turnNumber && this.currentSeatIndex !== null) {
+      this.next("timeout");
+    }
+  }
+
+  /**
+   * Sends a turn update to all players at the table.
+   */
+  private notifyPlayers(
+    event: "started" | "ended" | "timedout",
+    seatIndex: number,
+    player: Player | null,
+    extra: Record<string, any> = {}
+  ): void {
+    this.table.broadcastMessage({
+      type: CLIENT_MESSAGE_TYPES.TABLE.TURN,
+      data: {
+        tableId: this.table.id,
+        event,
+        seatIndex,
+        playerId: player?.id || null,
+        deadline: this.deadline,
+        ...extra
+      }
+    });
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
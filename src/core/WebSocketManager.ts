@@ -1,14 +1,27 @@
 import * as WebSocket from "ws";
 import * as http from "http";
 import { EventBus } from "../events/EventBus";
-import { MessageRouter } from "../events/MessageRouter";
+import { CommandMiddleware, MessageRouter } from "../events/MessageRouter";
 import { Player } from "./Player";
 import { GameManager } from "./GameManager";
 import { Lobby } from "./Lobby";
 import { AuthModule } from "../transport/AuthModule";
 import { PLAYER_EVENTS, TABLE_EVENTS, LOBBY_EVENTS } from "../events/EventTypes";
-import { CLIENT_MESSAGE_TYPES } from "./commands/index";
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES, PROTOCOL_FEATURES } from "./commands/index";
 import { TableFactory } from "./TableFactory";
+import { RateLimiter, RateLimitResult } from "./RateLimiter";
+import { JSON_CODEC, MESSAGE_PACK_CODEC, MessageCodec } from "./codec/index";
+
+// The close code for policy violations
+const POLICY_VIOLATION_CLOSE_CODE = 1008;
+// The close code for data the server cannot accept
+const UNSUPPORTED_DATA_CLOSE_CODE = 1003;
+
+function toBuffer(data: WebSocket.Data): Buffer {
+  if (Buffer.isBuffer(data)) return data;
+  if (Array.isArray(data)) return Buffer.concat(data);
+  return Buffer.from(data as ArrayBuffer);
+}
 
 export class WebSocketManager {
   private wss: WebSocket.Server;
@@ -20,6 +33,11 @@ export class WebSocketManager {
   private authModule?: AuthModule;
   private disconnectionTimeouts: Map<string, NodeJS.Timeout> = new Map();
   private reconnectionTimeoutMs: number;
+  private rateLimiter?: RateLimiter;
+  private codecs: Map<string, MessageCodec> = new Map([
+    [JSON_CODEC.name, JSON_CODEC],
+    [MESSAGE_PACK_CODEC.name, MESSAGE_PACK_CODEC]
+  ]);
 
   constructor(
     server: http.Server,
@@ -29,20 +47,30 @@ export class WebSocketManager {
     authModule?: AuthModule,
     reconnectionTimeoutMs: number = 0,
     lobby?: Lobby,
-    tableFactory?: TableFactory
+    tableFactory?: TableFactory,
+    rateLimiter?: RateLimiter
   ) {
-    this.wss = new WebSocket.Server({ server });
+    this.wss = new WebSocket.Server({
+      server,
+      // Accept the first subprotocol that names a codec
+      handleProtocols: (protocols) => Array.from(protocols).find(protocol => this.codecs.has(protocol)) ?? false
+    });
     this.eventBus = eventBus;
     this.messageRouter = messageRouter;
     this.gameManager = gameManager;
     this.authModule = authModule;
     this.reconnectionTimeoutMs = reconnectionTimeoutMs;
+    this.rateLimiter = rateLimiter;
     
     // Create a new Lobby if not provided
     this.lobby = lobby || new Lobby(eventBus, gameManager, tableFactory!);
     
     this.setupConnectionHandler();
     this.setupEventListeners();
+
+    if (rateLimiter) {
+      this.messageRouter.use(this.createCommandRateLimit(rateLimiter));
+    }
   }
 
   /**
@@ -53,6 +81,12 @@ export class WebSocketManager {
   private setupConnectionHandler(): void {
     this.wss.on("connection", async (socket: WebSocket.WebSocket, request: http.IncomingMessage) => {
       try {
+        const codec = this.negotiateCodec(socket, request);
+        if (!codec) {
+          socket.close(UNSUPPORTED_DATA_CLOSE_CODE, "Unsupported codec");
+          return;
+        }
+
         // Authenticate the connection if an auth provider is available
         let playerId: string | null = null;
         
@@ -66,12 +100,17 @@ export class WebSocketManager {
         }
         
         // Create a new player or reconnect an existing one
-        const player = this.createOrReconnectPlayer(socket, playerId);
+        const player = this.createOrReconnectPlayer(socket, playerId, codec);
+        const remoteAddress = this.rateLimiter?.getRemoteAddress(request) ?? null;
         
         // Handle messages
         socket.on("message", (data: WebSocket.Data) => {
-          const message = data.toString();
-          this.messageRouter.processMessage(player, message);
+          // Drop messages over the player's and the IP address's limits before parsing them
+          if (this.rateLimiter && !this.enforceRateLimit(player, this.rateLimiter.consumeMessage(player.id, remoteAddress))) {
+            return;
+          }
+
+          this.messageRouter.processMessage(player, toBuffer(data), codec);
         });
         
         // Send initial state to the player
@@ -87,6 +126,103 @@ export class WebSocketManager {
     });
   }
 
+  /**
+   * Chooses the codec of a connection: the codec named by the subprotocol of the connection,
+   * or by the `codec` query parameter, or JSON.
+   * 
+   * @param socket The WebSocket connection.
+   * @param request The upgrade request of the connection.
+   * @returns The codec, or null if the client asked for a codec that is not registered.
+   */
+  private negotiateCodec(socket: WebSocket.WebSocket, request: http.IncomingMessage): MessageCodec | null {
+    if (socket.protocol && this.codecs.has(socket.protocol)) {
+      return this.codecs.get(socket.protocol)!;
+    }
+
+    const name = new URL(request.url ?? "/", "http://localhost").searchParams.get("codec");
+    if (name === null) return JSON_CODEC;
+    return this.codecs.get(name) ?? null;
+  }
+
+  /**
+   * Sets the codec of a player. Players use JSON unless told otherwise.
+   * 
+   * @param player The player.
+   * @param codec The codec of the connection of the player.
+   */
+  private useCodec(player: Player, codec: MessageCodec): void {
+    if (codec !== JSON_CODEC) {
+      player.setCodec(codec);
+    }
+  }
+
+  /**
+   * Registers a codec clients can negotiate for their connection. JSON and MessagePack
+   * (`msgpack`) are registered by default.
+   * 
+   * @param codec The codec.
+   */
+  public registerCodec(codec: MessageCodec): void {
+    this.codecs.set(codec.name, codec);
+  }
+
+  /**
+   * Creates the middleware that limits how fast players send each command. The limits of
+   * the game of the player's table take precedence over the limits of the rate limiter.
+   * 
+   * @param rateLimiter The rate limiter.
+   * @returns The middleware.
+   */
+  private createCommandRateLimit(rateLimiter: RateLimiter): CommandMiddleware {
+    return (context, next) => {
+      const gameId = context.player.getTable()?.getAttribute("gameId");
+      const limit = gameId ? this.gameManager.getGameDefinition(gameId)?.rateLimits?.[context.action] : undefined;
+      const result = rateLimiter.consumeCommand(context.player.id, context.action, limit);
+
+      if (!this.enforceRateLimit(context.player, result, context.action)) {
+        return {
+          success: false,
+          error: { code: CLIENT_ERROR_CODES.RATE_LIMITED, message: "Too many messages" }
+        };
+      }
+      return next();
+    };
+  }
+
+  /**
+   * Tells a player who exceeded a rate limit to slow down, and disconnects them
+   * if they exceeded their limits too often.
+   * 
+   * @param player The player.
+   * @param result The result of the rate limiter.
+   * @param action The action of the command, for command limits.
+   * @returns True if the message is allowed.
+   */
+  private enforceRateLimit(player: Player, result: RateLimitResult, action?: string): boolean {
+    if (result.allowed) return true;
+
+    if (player.hasProtocolFeature(PROTOCOL_FEATURES.RATE_LIMITS)) {
+      player.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.RATE_LIMITED,
+        code: CLIENT_ERROR_CODES.RATE_LIMITED,
+        message: "Too many messages",
+        retryAfterMs: result.retryAfterMs,
+        ...(action !== undefined ? { action } : {})
+      });
+    } else {
+      player.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.RATE_LIMITED,
+        message: "Too many messages"
+      });
+    }
+
+    if (result.disconnect) {
+      player.disconnect(POLICY_VIOLATION_CLOSE_CODE, "Rate limit exceeded");
+    }
+    return false;
+  }
+
   /**
    * Sets up event listeners for the WebSocket manager.
    * This listens for lobby state updates and player joined events,
@@ -122,6 +258,7 @@ export class WebSocketManager {
       if (!table) {
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_NOT_FOUND,
           message: "Table not found"
         });
         return;
@@ -135,16 +272,63 @@ export class WebSocketManager {
       } else {
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_JOIN_FAILED,
           message: "Failed to join table"
         });
       }
     });
 
+    this.eventBus.on('request:table:spectate', (player, tableId) => {
+      const table = this.gameManager.getTableById(tableId);
+      if (!table) {
+        player.sendMessage({
+          type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_NOT_FOUND,
+          message: "Table not found"
+        });
+        return;
+      }
+
+      // The table:spectator:joined event will trigger sending the table state
+      if (!table.addSpectator(player)) {
+        player.sendMessage({
+          type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_SPECTATE_FAILED,
+          message: "Failed to spectate table"
+        });
+      }
+    });
+
+    this.eventBus.on('request:table:role:switch', (player, tableId, role) => {
+      const table = this.gameManager.getTableById(tableId);
+      if (!table) {
+        player.sendMessage({
+          type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_NOT_FOUND,
+          message: "Table not found"
+        });
+        return;
+      }
+
+      const success = role === "player"
+        ? table.promoteSpectator(player.id)
+        : table.demoteToSpectator(player.id);
+
+      if (!success) {
+        player.sendMessage({
+          type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.ROLE_SWITCH_FAILED,
+          message: `Failed to switch role to ${role}`
+        });
+      }
+    });
+
     this.eventBus.on('request:table:leave', (player, tableId) => {
       const table = this.gameManager.getTableById(tableId);
       if (!table) {
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_NOT_FOUND,
           message: "Table not found"
         });
         return;
@@ -174,6 +358,7 @@ export class WebSocketManager {
         if (!table) {
           player.sendMessage({
             type: CLIENT_MESSAGE_TYPES.ERROR,
+            code: CLIENT_ERROR_CODES.TABLE_CREATE_FAILED,
             message: "Failed to create table"
           });
           return;
@@ -189,6 +374,7 @@ export class WebSocketManager {
         console.error("Error creating table:", error);
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_CREATE_FAILED,
           message: "Failed to create table: " + (error instanceof Error ? error.message : "unknown error")
         });
       }
@@ -199,29 +385,23 @@ export class WebSocketManager {
       if (!table) {
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_NOT_FOUND,
           message: "Table not found"
         });
         return;
       }
       
-      // Validate seatIndex to ensure it's a valid number
-      if (seatIndex === undefined || seatIndex === null || typeof seatIndex !== 'number') {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "Invalid seat index"
-        });
-        return;
-      }
-      
+      // The seat index was validated against the command schema
       try {
-        // Emit a table event for seating the player and let the table handle it internally
-        this.eventBus.emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table, seatIndex);
+        // Emit a table event for seating the player on the table's bus and let the table handle it internally
+        table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table, seatIndex);
         
         // The response will be handled by the TABLE_EVENTS.PLAYER_SAT event listener
       } catch (error) {
         console.error("Error seating player:", error);
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.SEAT_SIT_FAILED,
           message: "Failed to sit at seat: " + (error instanceof Error ? error.message : "unknown error")
         });
       }
@@ -232,20 +412,22 @@ export class WebSocketManager {
       if (!table) {
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.TABLE_NOT_FOUND,
           message: "Table not found"
         });
         return;
       }
       
       try {
-        // Emit a table event for unseating the player and let the table handle it internally
-        this.eventBus.emit(TABLE_EVENTS.PLAYER_STAND_REQUEST, player, table);
+        // Emit a table event for unseating the player on the table's bus and let the table handle it internally
+        table.getEventBus().emit(TABLE_EVENTS.PLAYER_STAND_REQUEST, player, table);
         
         // The response will be handled by the TABLE_EVENTS.PLAYER_STOOD event listener
       } catch (error) {
         console.error("Error unseating player:", error);
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.SEAT_STAND_FAILED,
           message: "Failed to stand from seat: " + (error instanceof Error ? error.message : "unknown error")
         });
       }
@@ -253,10 +435,23 @@ export class WebSocketManager {
 
     this.eventBus.on(TABLE_EVENTS.PLAYER_JOINED, (player, table) => {
       // Send the full table state to the joining player
-      player.sendMessage({
-        type: CLIENT_MESSAGE_TYPES.TABLE.STATE,
-        data: table.getTableState()
-      });
+      table.sendTableState(player);
+    });
+
+    this.eventBus.on(TABLE_EVENTS.SPECTATOR_JOINED, (player, table) => {
+      // Send the spectator view of the table to the new spectator
+      table.sendTableState(player);
+
+      // Update lobby for all players to see spectator counts
+      this.lobby.updateLobbyState();
+    });
+
+    this.eventBus.on(TABLE_EVENTS.SPECTATOR_LEFT, () => {
+      this.lobby.updateLobbyState();
+    });
+
+    this.eventBus.on(TABLE_EVENTS.PLAYER_ROLE_CHANGED, () => {
+      this.lobby.updateLobbyState();
     });
 
     // Add listener for playerSeated event
@@ -330,8 +525,10 @@ export class WebSocketManager {
     // Send player details
     player.sendMessage({
       type: CLIENT_MESSAGE_TYPES.PLAYER.STATE,
-      id: player.id,
-      attributes: player.getAttributes()
+      data: {
+        id: player.id,
+        attributes: player.getAttributes()
+      }
     });
 
     // Send available games and tables (lobby state)
@@ -346,10 +543,7 @@ export class WebSocketManager {
     // If the player is already at a table, send the full table state
     const table = player.getTable();
     if (table) {
-      player.sendMessage({
-        type: CLIENT_MESSAGE_TYPES.TABLE.STATE,
-        data: table.getTableState()
-      });
+      table.sendTableState(player);
     }
   }
 
@@ -443,9 +637,10 @@ export class WebSocketManager {
    * 
    * @param socket The WebSocket connection.
    * @param playerId The player ID.
+   * @param codec The codec of the connection.
    * @returns The player object.
    */
-  private createOrReconnectPlayer(socket: WebSocket.WebSocket, playerId: string | null): Player {
+  private createOrReconnectPlayer(socket: WebSocket.WebSocket, playerId: string | null, codec: MessageCodec = JSON_CODEC): Player {
     if (playerId && this.players.has(playerId)) {
       // Handle reconnection
       const existingPlayer = this.players.get(playerId)!;
@@ -454,6 +649,7 @@ export class WebSocketManager {
       
       // Create new player with the existing ID
       const player = new Player(socket, this.eventBus, playerId);
+      this.useCodec(player, codec);
       this.players.set(playerId, player);
       
       // If the player was in a table, reconnect them
@@ -473,6 +669,7 @@ export class WebSocketManager {
     } else {
       // Create new player
       const player = new Player(socket, this.eventBus, playerId || undefined);
+      this.useCodec(player, codec);
       this.players.set(player.id, player);
       
       // Setup disconnect handler for the new player
@@ -524,6 +721,7 @@ export class WebSocketManager {
     
     // Remove player from the game server
     this.players.delete(playerId);
+    this.rateLimiter?.removePlayer(playerId);
     
     // Clean up any stored timeout
     if (this.disconnectionTimeouts.has(playerId)) {
@@ -567,6 +765,15 @@ export class WebSocketManager {
     }
   }
   
+  /**
+   * Gets the rate limiter of inbound messages
+   * 
+   * @returns The rate limiter, or undefined if messages are not rate limited
+   */
+  public getRateLimiter(): RateLimiter | undefined {
+    return this.rateLimiter;
+  }
+  
   /**
    * Gets the current reconnection timeout in milliseconds
    */
@@ -0,0 +1,112 @@
+import { Card, CardRank } from './types';
+import { Hand } from './Hand';
+import { blackjackCardValue } from './DeckSpec';
+
+/**
+ * Table rules that affect the blackjack evaluation of a hand.
+ */
+export interface BlackjackRules {
+  /** Allows splitting any two cards worth 10, such as a King and a Queen. Defaults to false (same rank only). */
+  splitByValue?: boolean;
+  /**
+   * The totals a hand may double down on, for example `[9, 10, 11]`. Soft hands are matched by
+   * their soft total, so a soft 19 (an Ace and an 8) cannot double on 9. Defaults to any two-card total.
+   */
+  doubleOnTotals?: number[];
+  /** Whether the hand results from a split. A split hand cannot be a blackjack. Defaults to false. */
+  isSplitHand?: boolean;
+}
+
+/**
+ * Options for evaluating a blackjack hand.
+ */
+export interface BlackjackEvaluationOptions extends BlackjackRules {
+  /** Only counts the visible cards, for example for a dealer with a hole card. Defaults to false. */
+  visibleOnly?: boolean;
+}
+
+/**
+ * The blackjack evaluation of a hand.
+ */
+export interface BlackjackHandResult {
+  /** The total with every Ace counted as 1. */
+  hardTotal: number;
+  /** The total with one Ace counted as 11, or null if the hand has no Ace or that would bust. */
+  softTotal: number | null;
+  /** The best total of the hand: the soft total if there is one, otherwise the hard total. */
+  total: number;
+  /** Whether the best total counts an Ace as 11. */
+  isSoft: boolean;
+  /** Whether the hand is a natural 21 with its first two cards. */
+  isBlackjack: boolean;
+  /** Whether the hand is over 21. */
+  isBust: boolean;
+  /** Whether the hand can be split. */
+  canSplit: boolean;
+  /** Whether the hand can double down. */
+  canDouble: boolean;
+}
+
+/**
+ * Gets the value of a card in a hard total: Aces count as 1 and jokers as 0.
+ */
+function hardCardValue(card: Card): number {
+  const value = blackjackCardValue(card) ?? 0;
+  return card.rank === CardRank.ACE ? 1 : value;
+}
+
+/**
+ * Evaluates a blackjack hand.
+ *
+ * @param hand The hand or its cards.
+ * @param options The table rules and whether to count only visible cards.
+ * @returns The totals and flags of the hand.
+ */
+export function evaluateBlackjackHand(hand: Hand | Card[], options: BlackjackEvaluationOptions = {}): BlackjackHandResult {
+  const allCards = hand instanceof Hand ? hand.getCards() : hand;
+  const cards = options.visibleOnly ? allCards.filter(card => card.isVisible) : allCards;
+
+  const hardTotal = cards.reduce((sum, card) => sum + hardCardValue(card), 0);
+  const hasAce = cards.some(card => card.rank === CardRank.ACE);
+  const softTotal = hasAce && hardTotal + 10 <= 21 ? hardTotal + 10 : null;
+  const total = softTotal ?? hardTotal;
+  const isTwoCardHand = cards.length === 2;
+
+  let canSplit = false;
+  if (isTwoCardHand) {
+    canSplit = options.splitByValue
+      ? hardCardValue(cards[0]) === hardCardValue(cards[1])
+      : cards[0].rank === cards[1].rank;
+  }
+
+  return {
+    hardTotal,
+    softTotal,
+    total,
+    isSoft: softTotal !== null,
+    isBlackjack: isTwoCardHand && total === 21 && !options.isSplitHand,
+    isBust: hardTotal > 21,
+    canSplit,
+    canDouble: isTwoCardHand && (!options.doubleOnTotals || options.doubleOnTotals.includes(total))
+  };
+}
+
+/**
+ * Evaluates a blackjack hand and writes the result into the hand's attributes, so it reaches
+ * clients through `getVisibleState()`. Sets `total`, `hardTotal`, `softTotal`, `isSoft`,
+ * `isBlackjack`, `isBust`, `canSplit` and `canDouble`.
+ *
+ * Only visible cards are counted unless `visibleOnly` is set to false, so the attributes
+ * never reveal hidden cards such as the dealer's hole card.
+ *
+ * @param hand The hand.
+ * @param options The table rules and whether to count only visible cards.
+ * @returns The totals and flags written to the hand.
+ */
+export function applyBlackjackAttributes(hand: Hand, options: BlackjackEvaluationOptions = {}): BlackjackHandResult {
+  const result = evaluateBlackjackHand(hand, { visibleOnly: true, ...options });
+  for (const [key, value] of Object.entries(result)) {
+    hand.setAttribute(key, value);
+  }
+  return result;
+}
@@ -1,15 +1,43 @@
-import { Card, CardSuit, CardRank } from './types';
+import { Card } from './types';
+import { DeckSpec, buildCards } from './DeckSpec';
+import { RandomSource, CryptoRandomSource, generateSeed, shuffleWithSeed } from './Random';
+import { getCardCode } from './ProvablyFair';
+
+/**
+ * Options for creating a [Deck](/api/classes/deck/).
+ */
+export interface DeckOptions {
+  /**
+   * The random source used to generate shuffle seeds. Defaults to a cryptographically
+   * secure source. Pass a `SeededRandomSource` to make every shuffle of the deck reproducible.
+   */
+  rng?: RandomSource;
+  /**
+   * The composition of each deck, such as the included suits and ranks, jokers and card values.
+   * Defaults to a standard 52-card deck without card values.
+   */
+  spec?: DeckSpec;
+}
 
 /**
  * A deck of [Card](/core/card/types#card)s.
  * 
+ * The composition of the deck is described by a [DeckSpec](/api/interfaces/deckspec/),
+ * which also assigns game-specific card values.
+ * 
  * Supports shuffling, drawing cards, and resetting from the discard pile.
+ * Every shuffle is driven by a seed, which is recorded so the shuffle can be reproduced.
  */
 export class Deck {
   private cards: Card[] = [];
   private discardPile: Card[] = [];
+  private rng: RandomSource;
+  private shuffleSeeds: string[] = [];
+  private spec: DeckSpec;
 
-  constructor(numberOfDecks: number = 1) {
+  constructor(numberOfDecks: number = 1, options: DeckOptions = {}) {
+    this.rng = options.rng ?? new CryptoRandomSource();
+    this.spec = options.spec ?? {};
     this.initialize(numberOfDecks);
   }
 
@@ -19,45 +47,66 @@ export class Deck {
    * @param numberOfDecks The number of decks to initialize.
    */
   private initialize(numberOfDecks: number): void {
-    this.cards = [];
-    for (let d = 0; d < numberOfDecks; d++) {
-      for (const suit of Object.values(CardSuit)) {
-        for (const rank of Object.values(CardRank)) {
-          let value: number | undefined;
-          
-          // Assign default card values (can be customized by game-specific logic)
-          if (rank === CardRank.ACE) {
-            value = 11; // Default Ace value, games can handle it differently
-          } else if (
-            rank === CardRank.JACK || 
-            rank === CardRank.QUEEN || 
-            rank === CardRank.KING
-          ) {
-            value = 10;
-          } else {
-            value = parseInt(rank, 10) || undefined;
-          }
-          
-          this.cards.push({
-            suit,
-            rank,
-            value,
-            isVisible: true, // Cards in deck are visible by default
-          });
-        }
-      }
-    }
+    this.cards = buildCards(this.spec, numberOfDecks);
+  }
+
+  /**
+   * Gets the composition of the deck.
+   * 
+   * @returns The deck spec.
+   */
+  public getSpec(): DeckSpec {
+    return this.spec;
   }
 
   /**
-   * Shuffles the deck.
+   * Shuffles the deck. Shuffling the same card order with the same seed always
+   * produces the same result.
+   * 
+   * @param seed The seed to shuffle with. If omitted, a new seed is drawn from the deck's random source.
+   * @returns The seed used for the shuffle.
    */
-  public shuffle(): void {
-    // Fisher-Yates shuffle algorithm
-    for (let i = this.cards.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]];
-    }
+  public shuffle(seed?: string): string {
+    const shuffleSeed = seed ?? generateSeed(this.rng);
+    shuffleWithSeed(this.cards, shuffleSeed);
+    this.shuffleSeeds.push(shuffleSeed);
+    return shuffleSeed;
+  }
+
+  /**
+   * Gets the seed of the most recent shuffle.
+   * 
+   * @returns The seed or null if the deck has not been shuffled.
+   */
+  public getLastShuffleSeed(): string | null {
+    return this.shuffleSeeds.length > 0 ? this.shuffleSeeds[this.shuffleSeeds.length - 1] : null;
+  }
+
+  /**
+   * Gets the seeds of all shuffles of the deck, in order.
+   * 
+   * @returns A copy of the recorded shuffle seeds.
+   */
+  public getShuffleSeeds(): string[] {
+    return [...this.shuffleSeeds];
+  }
+
+  /**
+   * Gets the random source used to generate shuffle seeds.
+   * 
+   * @returns The random source.
+   */
+  public getRandomSource(): RandomSource {
+    return this.rng;
+  }
+
+  /**
+   * Sets the random source used to generate shuffle seeds.
+   * 
+   * @param rng The random source.
+   */
+  public setRandomSource(rng: RandomSource): void {
+    this.rng = rng;
   }
 
   /**
@@ -106,11 +155,14 @@ export class Deck {
 
   /**
    * Resets the deck from the discard pile.
+   * 
+   * @param seed The seed to shuffle with. If omitted, a new seed is drawn from the deck's random source.
+   * @returns The seed used for the shuffle.
    */
-  public resetFromDiscard(): void {
+  public resetFromDiscard(seed?: string): string {
     this.cards = [...this.cards, ...this.discardPile];
     this.discardPile = [];
-    this.shuffle();
+    return this.shuffle(seed);
   }
 
   /**
@@ -130,4 +182,14 @@ export class Deck {
   public getDiscardedCards(): number {
     return this.discardPile.length;
   }
+
+  /**
+   * Gets the codes of the remaining cards, for example `AS` or `TH`, in deck order.
+   * The last code is the next card to be drawn.
+   * 
+   * @returns The codes of the remaining cards.
+   */
+  public getCardCodes(): string[] {
+    return this.cards.map(getCardCode);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { Card, CardSuit, CardRank } from './types';
+
+/**
+ * Assigns a game-specific value to a card. Return undefined for cards without a value.
+ */
+export type CardValueFunction = (card: Pick<Card, "suit" | "rank">) => number | undefined;
+
+/**
+ * Describes the composition of a single deck.
+ */
+export interface DeckSpec {
+  /** The suits included in the deck. Defaults to all four suits. */
+  suits?: CardSuit[];
+  /** The ranks included in the deck. Defaults to Ace through King. Jokers are added with `jokers`. */
+  ranks?: CardRank[];
+  /** The number of copies of each suit and rank combination. Defaults to 1. */
+  copies?: number;
+  /** The number of jokers. Jokers alternate between a red (hearts) and a black (spades) suit. Defaults to 0. */
+  jokers?: number;
+  /** Assigns values to the cards. Without it, cards have no value. */
+  value?: CardValueFunction;
+}
+
+/**
+ * The ranks of a standard French deck, Ace through King.
+ */
+export const STANDARD_RANKS: CardRank[] = [
+  CardRank.ACE,
+  CardRank.TWO,
+  CardRank.THREE,
+  CardRank.FOUR,
+  CardRank.FIVE,
+  CardRank.SIX,
+  CardRank.SEVEN,
+  CardRank.EIGHT,
+  CardRank.NINE,
+  CardRank.TEN,
+  CardRank.JACK,
+  CardRank.QUEEN,
+  CardRank.KING
+];
+
+/**
+ * The suits of a standard French deck.
+ */
+export const STANDARD_SUITS: CardSuit[] = [CardSuit.HEARTS, CardSuit.DIAMONDS, CardSuit.CLUBS, CardSuit.SPADES];
+
+const JOKER_SUITS: CardSuit[] = [CardSuit.HEARTS, CardSuit.SPADES];
+
+/**
+ * Blackjack card values: Aces are 11, face cards are 10 and number cards are worth their number.
+ * Games decide when an Ace counts as 1.
+ */
+export const blackjackCardValue: CardValueFunction = (card) => {
+  switch (card.rank) {
+    case CardRank.ACE:
+      return 11;
+    case CardRank.TEN:
+    case CardRank.JACK:
+    case CardRank.QUEEN:
+    case CardRank.KING:
+      return 10;
+    case CardRank.JOKER:
+      return undefined;
+    default:
+      return parseInt(card.rank, 10);
+  }
+};
+
+/**
+ * Common deck compositions.
+ */
+export const DECK_SPECS = {
+  /** 52 cards, without values. */
+  STANDARD: {} as DeckSpec,
+  /** 54 cards, including two jokers, without values. */
+  STANDARD_WITH_JOKERS: { jokers: 2 } as DeckSpec,
+  /** 52 cards with blackjack values. */
+  BLACKJACK: { value: blackjackCardValue } as DeckSpec,
+  /** 24 cards, Nine through Ace. */
+  EUCHRE: {
+    ranks: [CardRank.NINE, CardRank.TEN, CardRank.JACK, CardRank.QUEEN, CardRank.KING, CardRank.ACE]
+  } as DeckSpec,
+  /** 48 cards, two copies of Nine through Ace. */
+  PINOCHLE: {
+    ranks: [CardRank.NINE, CardRank.TEN, CardRank.JACK, CardRank.QUEEN, CardRank.KING, CardRank.ACE],
+    copies: 2
+  } as DeckSpec
+};
+
+/**
+ * Builds the cards of one or more decks from a spec.
+ *
+ * @param spec The deck composition.
+ * @param numberOfDecks The number of decks to build.
+ * @returns The cards, in a fixed order: by deck, suit, rank and copy, followed by the jokers of each deck.
+ */
+export function buildCards(spec: DeckSpec = {}, numberOfDecks = 1): Card[] {
+  const suits = spec.suits ?? STANDARD_SUITS;
+  const ranks = (spec.ranks ?? STANDARD_RANKS).filter(rank => rank !== CardRank.JOKER);
+  const copies = spec.copies ?? 1;
+  const jokers = spec.jokers ?? 0;
+
+  const cards: Card[] = [];
+  const addCard = (suit: CardSuit, rank: CardRank) => {
+    cards.push({
+      suit,
+      rank,
+      value: spec.value ? spec.value({ suit, rank }) : undefined,
+      isVisible: true, // Cards in deck are visible by default
+    });
+  };
+
+  for (let d = 0; d < numberOfDecks; d++) {
+    for (const suit of suits) {
+      for (const rank of ranks) {
+        for (let c = 0; c < copies; c++) {
+          addCard(suit, rank);
+        }
+      }
+    }
+    for (let j = 0; j < jokers; j++) {
+      addCard(JOKER_SUITS[j % JOKER_SUITS.length], CardRank.JOKER);
+    }
+  }
+
+  return cards;
+}
@@ -1,6 +1,16 @@
 import { Card } from './types';
 import { Deck } from './Deck';
 
+/**
+ * A hand as sent to clients, see `Hand.getVisibleState` and `Hand.getOwnerState`.
+ */
+export interface HandState {
+  id: string;
+  cards: Card[];
+  hiddenCardCount: number;
+  attributes: Record<string, unknown>;
+}
+
 /**
  * A hand of [Card](/api/interfaces/card/)s.
  * 
@@ -127,7 +137,7 @@ export class Hand {
    * 
    * @returns A representation of the hand that is safe to send to clients.
    */
-  public getVisibleState(): any {
+  public getVisibleState(): HandState {
     return {
       id: this.id,
       cards: this.getVisibleCards(),
@@ -135,4 +145,20 @@ export class Hand {
       attributes: Object.fromEntries(this.attributes.entries())
     };
   }
+
+  /**
+   * Returns a representation of the hand for its owner.
+   * Includes hidden cards, which keep their `isVisible: false` flag so clients can
+   * tell which cards the other players cannot see.
+   * 
+   * @returns A representation of the hand that is safe to send to the owner of the hand.
+   */
+  public getOwnerState(): HandState {
+    return {
+      id: this.id,
+      cards: this.getCards(),
+      hiddenCardCount: this.getHiddenCards().length,
+      attributes: Object.fromEntries(this.attributes.entries())
+    };
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,305 @@
+import { Card, CardRank } from './types';
+import { Hand } from './Hand';
+
+/**
+ * Poker hand categories, from weakest to strongest.
+ */
+export enum PokerHandCategory {
+  HIGH_CARD = 0,
+  PAIR = 1,
+  TWO_PAIR = 2,
+  THREE_OF_A_KIND = 3,
+  STRAIGHT = 4,
+  FLUSH = 5,
+  FULL_HOUSE = 6,
+  FOUR_OF_A_KIND = 7,
+  STRAIGHT_FLUSH = 8
+}
+
+const CATEGORY_NAMES: Record<PokerHandCategory, string> = {
+  [PokerHandCategory.HIGH_CARD]: "High Card",
+  [PokerHandCategory.PAIR]: "Pair",
+  [PokerHandCategory.TWO_PAIR]: "Two Pair",
+  [PokerHandCategory.THREE_OF_A_KIND]: "Three of a Kind",
+  [PokerHandCategory.STRAIGHT]: "Straight",
+  [PokerHandCategory.FLUSH]: "Flush",
+  [PokerHandCategory.FULL_HOUSE]: "Full House",
+  [PokerHandCategory.FOUR_OF_A_KIND]: "Four of a Kind",
+  [PokerHandCategory.STRAIGHT_FLUSH]: "Straight Flush"
+};
+
+const RANK_VALUES: Record<string, number> = {
+  [CardRank.TWO]: 2,
+  [CardRank.THREE]: 3,
+  [CardRank.FOUR]: 4,
+  [CardRank.FIVE]: 5,
+  [CardRank.SIX]: 6,
+  [CardRank.SEVEN]: 7,
+  [CardRank.EIGHT]: 8,
+  [CardRank.NINE]: 9,
+  [CardRank.TEN]: 10,
+  [CardRank.JACK]: 11,
+  [CardRank.QUEEN]: 12,
+  [CardRank.KING]: 13,
+  [CardRank.ACE]: 14
+};
+
+/**
+ * The result of evaluating a poker hand.
+ */
+export interface PokerHandResult {
+  /** The category of the best hand. */
+  category: PokerHandCategory;
+  /** The readable name of the category, for example `Full House`. */
+  name: string;
+  /** The best 5 cards, ordered by significance: the cards making the category first, then the kickers. */
+  cards: Card[];
+  /** The cards of `cards` that only break ties within the category. */
+  kickers: Card[];
+  /** The rank values (2-14) deciding ties within the category, in order of significance. */
+  ranks: number[];
+  /** A comparable score. A higher score wins, equal scores split. */
+  score: number;
+}
+
+/**
+ * A hand competing at showdown.
+ */
+export interface PokerShowdownEntry {
+  seatIndex: number;
+  hand: Hand | Card[];
+}
+
+/**
+ * The evaluated hand of a seat at showdown.
+ */
+export interface PokerShowdownResult {
+  seatIndex: number;
+  result: PokerHandResult;
+}
+
+/**
+ * A seat's share of a pot.
+ */
+export interface PotShare {
+  seatIndex: number;
+  amount: number;
+}
+
+/**
+ * Gets the poker value of a rank, from 2 for a Two to 14 for an Ace.
+ *
+ * @param rank The rank.
+ * @returns The rank value or 0 for jokers.
+ */
+export function getPokerRankValue(rank: CardRank): number {
+  return RANK_VALUES[rank] ?? 0;
+}
+
+function createResult(category: PokerHandCategory, madeCards: Card[], kickers: Card[], ranks: number[]): PokerHandResult {
+  // Base 16 digits: the category, followed by up to 5 tie-breaking ranks
+  let score = category;
+  for (let i = 0; i < 5; i++) {
+    score = score * 16 + (ranks[i] ?? 0);
+  }
+
+  return {
+    category,
+    name: CATEGORY_NAMES[category],
+    cards: [...madeCards, ...kickers],
+    kickers,
+    ranks,
+    score
+  };
+}
+
+/**
+ * Finds the highest straight in cards sorted by descending rank value.
+ * Returns one card per rank, highest first. In a wheel (5-4-3-2-A) the Ace is last,
+ * so the first card always holds the straight's high rank.
+ */
+function findStraight(sortedCards: Card[]): Card[] | null {
+  const byValue = new Map<number, Card>();
+  for (const card of sortedCards) {
+    const value = getPokerRankValue(card.rank);
+    if (!byValue.has(value)) byValue.set(value, card);
+  }
+
+  for (let high = 14; high >= 5; high--) {
+    const straight: Card[] = [];
+    for (let value = high; value > high - 5; value--) {
+      // The Ace plays low in the wheel
+      const card = byValue.get(value === 1 ? 14 : value);
+      if (!card) break;
+      straight.push(card);
+    }
+    if (straight.length === 5) return straight;
+  }
+  return null;
+}
+
+function compareRanks(a: Card[], b: Card[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const difference = getPokerRankValue(a[i].rank) - getPokerRankValue(b[i].rank);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Evaluates the best 5-card poker hand from a hand and optional community cards.
+ * Evaluates any number of cards in a single pass, so a whole table can be evaluated at showdown.
+ * Jokers are ignored.
+ *
+ * @param hand The hand or the cards of the player.
+ * @param communityCards The community cards shared by all players.
+ * @returns The best hand or null if there are fewer than 5 cards.
+ */
+export function evaluatePokerHand(hand: Hand | Card[], communityCards: Card[] = []): PokerHandResult | null {
+  const cards = [...(hand instanceof Hand ? hand.getCards() : hand), ...communityCards]
+    .filter(card => getPokerRankValue(card.rank) > 0)
+    .sort((a, b) => getPokerRankValue(b.rank) - getPokerRankValue(a.rank));
+
+  if (cards.length < 5) return null;
+
+  // Flushes and straight flushes
+  const bySuit = new Map<string, Card[]>();
+  for (const card of cards) {
+    const suited = bySuit.get(card.suit) ?? [];
+    suited.push(card);
+    bySuit.set(card.suit, suited);
+  }
+  let flush: Card[] | null = null;
+  let straightFlush: Card[] | null = null;
+  for (const suited of bySuit.values()) {
+    if (suited.length < 5) continue;
+
+    const suitedStraight = findStraight(suited);
+    if (suitedStraight && (!straightFlush || compareRanks(suitedStraight, straightFlush) > 0)) {
+      straightFlush = suitedStraight;
+    }
+    if (!flush || compareRanks(suited.slice(0, 5), flush) > 0) {
+      flush = suited.slice(0, 5);
+    }
+  }
+  if (straightFlush) {
+    return createResult(PokerHandCategory.STRAIGHT_FLUSH, straightFlush, [], [getPokerRankValue(straightFlush[0].rank)]);
+  }
+
+  // Groups of equal rank, largest group first, then highest rank
+  const groups: Card[][] = [];
+  for (const card of cards) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].rank === card.rank) {
+      last.push(card);
+    } else {
+      groups.push([card]);
+    }
+  }
+  groups.sort((a, b) => b.length - a.length || getPokerRankValue(b[0].rank) - getPokerRankValue(a[0].rank));
+
+  const valueOf = (card: Card) => getPokerRankValue(card.rank);
+  const kickersExcluding = (used: Card[], count: number) =>
+    cards.filter(card => !used.includes(card)).slice(0, count);
+
+  if (groups[0].length >= 4) {
+    const quads = groups[0].slice(0, 4);
+    const kickers = kickersExcluding(quads, 1);
+    return createResult(PokerHandCategory.FOUR_OF_A_KIND, quads, kickers, [valueOf(quads[0]), ...kickers.map(valueOf)]);
+  }
+
+  if (groups[0].length === 3 && groups.length > 1 && groups[1].length >= 2) {
+    const fullHouse = [...groups[0], ...groups[1].slice(0, 2)];
+    return createResult(PokerHandCategory.FULL_HOUSE, fullHouse, [], [valueOf(groups[0][0]), valueOf(groups[1][0])]);
+  }
+
+  if (flush) {
+    return createResult(PokerHandCategory.FLUSH, flush, [], flush.map(valueOf));
+  }
+
+  const straight = findStraight(cards);
+  if (straight) {
+    return createResult(PokerHandCategory.STRAIGHT, straight, [], [valueOf(straight[0])]);
+  }
+
+  if (groups[0].length === 3) {
+    const trips = groups[0];
+    const kickers = kickersExcluding(trips, 2);
+    return createResult(PokerHandCategory.THREE_OF_A_KIND, trips, kickers, [valueOf(trips[0]), ...kickers.map(valueOf)]);
+  }
+
+  if (groups[0].length === 2 && groups[1].length === 2) {
+    const pairs = [...groups[0], ...groups[1]];
+    const kickers = kickersExcluding(pairs, 1);
+    return createResult(PokerHandCategory.TWO_PAIR, pairs, kickers, [valueOf(groups[0][0]), valueOf(groups[1][0]), ...kickers.map(valueOf)]);
+  }
+
+  if (groups[0].length === 2) {
+    const pair = groups[0];
+    const kickers = kickersExcluding(pair, 3);
+    return createResult(PokerHandCategory.PAIR, pair, kickers, [valueOf(pair[0]), ...kickers.map(valueOf)]);
+  }
+
+  const highCards = cards.slice(0, 5);
+  return createResult(PokerHandCategory.HIGH_CARD, highCards.slice(0, 1), highCards.slice(1), highCards.map(valueOf));
+}
+
+/**
+ * Compares two evaluated poker hands.
+ *
+ * @param a The first hand.
+ * @param b The second hand.
+ * @returns A positive number if `a` wins, a negative number if `b` wins and 0 for a tie.
+ */
+export function comparePokerHands(a: PokerHandResult, b: PokerHandResult): number {
+  return a.score - b.score;
+}
+
+/**
+ * Evaluates the hands of several seats and finds the winners.
+ *
+ * @param entries The hands competing at showdown.
+ * @param communityCards The community cards shared by all players.
+ * @returns The winning seats, more than one on a tie, in the order of `entries`. Seats with fewer than 5 cards cannot win.
+ */
+export function findPokerWinners(entries: PokerShowdownEntry[], communityCards: Card[] = []): PokerShowdownResult[] {
+  let winners: PokerShowdownResult[] = [];
+
+  for (const entry of entries) {
+    const result = evaluatePokerHand(entry.hand, communityCards);
+    if (!result) continue;
+
+    const comparison = winners.length === 0 ? 1 : comparePokerHands(result, winners[0].result);
+    if (comparison > 0) {
+      winners = [{ seatIndex: entry.seatIndex, result }];
+    } else if (comparison === 0) {
+      winners.push({ seatIndex: entry.seatIndex, result });
+    }
+  }
+
+  return winners;
+}
+
+/**
+ * Splits a pot evenly between seats. Chips that cannot be split evenly are
+ * given one unit at a time to the seats in the given order, so pass the seats
+ * in the order your game awards odd chips, for example starting left of the dealer.
+ *
+ * @param amount The amount in the pot.
+ * @param seatIndexes The seats sharing the pot.
+ * @param unit The smallest chip. Defaults to 1.
+ * @returns The share of each seat, in the order of `seatIndexes`.
+ */
+export function splitPot(amount: number, seatIndexes: number[], unit = 1): PotShare[] {
+  if (seatIndexes.length === 0) return [];
+
+  const units = Math.floor(amount / unit);
+  const remainder = amount - units * unit;
+  const unitsPerSeat = Math.floor(units / seatIndexes.length);
+  const oddUnits = units - unitsPerSeat * seatIndexes.length;
+
+  return seatIndexes.map((seatIndex, index) => ({
+    seatIndex,
+    amount: (unitsPerSeat + (index < oddUnits ? 1 : 0)) * unit + (index === 0 ? remainder : 0)
+  }));
+}
@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import { Card } from './types';
+import { shuffleWithSeed } from './Random';
+
+/**
+ * A client seed contributed to a provably fair shuffle.
+ */
+export interface ClientSeed {
+  playerId: string;
+  seed: string;
+}
+
+/**
+ * Everything needed to verify a provably fair shuffle, published once the round is over.
+ */
+export interface ProvablyFairReveal {
+  /** The hash published before the round. */
+  commitment: string;
+  /** The secret server seed the commitment was made with. */
+  serverSeed: string;
+  /** The card codes of the deck before the shuffle, in deck order. The last code is drawn first. */
+  initialOrder: string[];
+  /** The client seeds mixed into the shuffle, in the order they were received. */
+  clientSeeds: ClientSeed[];
+  /** The seed the deck was shuffled with. */
+  shuffleSeed: string;
+}
+
+function sha256(input: string): string {
+  return crypto.createHash("sha256").update(input).digest("hex");
+}
+
+/**
+ * Gets the short code of a card, made of its rank and suit, for example `AS` or `TH`.
+ *
+ * @param card The card.
+ * @returns The card code.
+ */
+export function getCardCode(card: Card): string {
+  return `${card.rank}${card.suit}`;
+}
+
+/**
+ * Creates the commitment published before a round: the SHA-256 hash of the server seed
+ * and the deck order before the shuffle.
+ *
+ * @param serverSeed The secret server seed.
+ * @param initialOrder The card codes of the deck before the shuffle.
+ * @returns The commitment as a hexadecimal string.
+ */
+export function createCommitment(serverSeed: string, initialOrder: string[]): string {
+  return sha256(`${serverSeed}:${initialOrder.join(",")}`);
+}
+
+/**
+ * Combines the server seed with the client seeds into the seed the deck is shuffled with.
+ * Neither the server nor any single client can choose the result on their own.
+ *
+ * The seeds are hashed as the JSON array `[serverSeed, [playerId, seed], ...]`, so no player ID
+ * or seed can pass for another split of the same characters.
+ *
+ * @param serverSeed The secret server seed.
+ * @param clientSeeds The client seeds, in the order they were received.
+ * @returns The shuffle seed as a hexadecimal string.
+ */
+export function combineSeeds(serverSeed: string, clientSeeds: ClientSeed[]): string {
+  const parts = clientSeeds.map(clientSeed => [clientSeed.playerId, clientSeed.seed]);
+  return sha256(JSON.stringify([serverSeed, ...parts]));
+}
+
+/**
+ * Recomputes the deck order after a provably fair shuffle.
+ *
+ * @param reveal The revealed shuffle data.
+ * @returns The card codes of the shuffled deck, in deck order. The last code is drawn first.
+ */
+export function recomputeShuffle(reveal: ProvablyFairReveal): string[] {
+  return shuffleWithSeed([...reveal.initialOrder], combineSeeds(reveal.serverSeed, reveal.clientSeeds));
+}
+
+/**
+ * Verifies a provably fair shuffle. Checks that the server seed and initial deck order match
+ * the commitment, that the shuffle seed was derived from the server and client seeds and,
+ * if given, that the shuffled order matches the recomputed one.
+ *
+ * @param reveal The revealed shuffle data.
+ * @param shuffledOrder The card codes of the shuffled deck, in deck order.
+ * @returns True if the shuffle is valid, false otherwise.
+ */
+export function verifyShuffle(reveal: ProvablyFairReveal, shuffledOrder?: string[]): boolean {
+  if (createCommitment(reveal.serverSeed, reveal.initialOrder) !== reveal.commitment) {
+    return false;
+  }
+
+  if (combineSeeds(reveal.serverSeed, reveal.clientSeeds) !== reveal.shuffleSeed) {
+    return false;
+  }
+
+  if (shuffledOrder) {
+    const expected = recomputeShuffle(reveal);
+    return expected.length === shuffledOrder.length &&
+      expected.every((code, index) => code === shuffledOrder[index]);
+  }
+
+  return true;
+}
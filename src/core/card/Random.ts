@@ -0,0 +1,146 @@
+import crypto from "crypto";
+
+/**
+ * A source of random numbers used to shuffle decks.
+ */
+export interface RandomSource {
+  /**
+   * Returns a random number in the range [0, 1).
+   */
+  next(): number;
+  /**
+   * Returns the next shuffle seed, if the source provides seeds directly, for example to replay
+   * recorded shuffles. If omitted, or if it returns undefined, the seed is derived from `next()`.
+   */
+  nextSeed?(): string | undefined;
+}
+
+/**
+ * Converts 7 random bytes into a float in the range [0, 1) using 53 bits of precision.
+ */
+function bytesToFloat(bytes: Buffer, offset: number): number {
+  // 21 high bits + 32 low bits = 53 bits
+  const high = bytes.readUInt32BE(offset) >>> 11;
+  const low = bytes.readUInt32BE(offset + 3);
+  return (high * 0x100000000 + low) / 0x20000000000000;
+}
+
+/**
+ * A cryptographically secure random source backed by Node's `crypto` module.
+ * This is the default random source of a [Deck](/api/classes/deck/).
+ */
+export class CryptoRandomSource implements RandomSource {
+  public next(): number {
+    return bytesToFloat(crypto.randomBytes(7), 0);
+  }
+}
+
+/**
+ * A deterministic random source. The same seed always produces the same sequence,
+ * which makes shuffles reproducible for tests, bug reports and replays.
+ *
+ * Numbers are derived from SHA-256 in counter mode, so the sequence cannot be
+ * predicted without knowing the seed.
+ */
+export class SeededRandomSource implements RandomSource {
+  private readonly seed: string;
+  private counter = 0;
+  private block: Buffer = Buffer.alloc(0);
+  private offset = 0;
+
+  constructor(seed: string) {
+    this.seed = seed;
+  }
+
+  /**
+   * Gets the seed of this random source.
+   *
+   * @returns The seed.
+   */
+  public getSeed(): string {
+    return this.seed;
+  }
+
+  public next(): number {
+    if (this.offset + 7 > this.block.length) {
+      this.block = crypto.createHash("sha256").update(`${this.seed}:${this.counter++}`).digest();
+      this.offset = 0;
+    }
+
+    const value = bytesToFloat(this.block, this.offset);
+    this.offset += 7;
+    return value;
+  }
+}
+
+/**
+ * A random source that provides a given sequence of seeds, for example the seeds recorded
+ * during a table session, so that its shuffles can be replayed. Once the sequence is used up,
+ * seeds and numbers come from the fallback source.
+ */
+export class SeedSequenceSource implements RandomSource {
+  private readonly seeds: string[];
+  private readonly fallback: RandomSource;
+
+  constructor(seeds: string[], fallback: RandomSource = new CryptoRandomSource()) {
+    this.seeds = [...seeds];
+    this.fallback = fallback;
+  }
+
+  public next(): number {
+    return this.fallback.next();
+  }
+
+  public nextSeed(): string {
+    return this.seeds.shift() ?? generateSeed(this.fallback);
+  }
+
+  /**
+   * Gets the number of seeds left in the sequence.
+   *
+   * @returns The number of remaining seeds.
+   */
+  public getRemainingSeeds(): number {
+    return this.seeds.length;
+  }
+}
+
+/**
+ * Generates a new shuffle seed from a random source.
+ *
+ * @param rng The random source to draw the seed from. Defaults to a cryptographically secure source.
+ * @returns The seed provided by the source's `nextSeed`, or a 64 character hexadecimal seed.
+ */
+export function generateSeed(rng?: RandomSource): string {
+  const providedSeed = rng?.nextSeed?.();
+  if (providedSeed !== undefined) {
+    return providedSeed;
+  }
+
+  if (!rng || rng instanceof CryptoRandomSource) {
+    return crypto.randomBytes(32).toString("hex");
+  }
+
+  let seed = "";
+  while (seed.length < 64) {
+    seed += Math.floor(rng.next() * 0x100000000).toString(16).padStart(8, "0");
+  }
+  return seed;
+}
+
+/**
+ * Shuffles an array in place with the Fisher-Yates algorithm, driven by a seed.
+ * The same input order and seed always produce the same result.
+ *
+ * @param items The array to shuffle.
+ * @param seed The seed of the shuffle.
+ * @returns The shuffled array.
+ */
+export function shuffleWithSeed<T>(items: T[], seed: string): T[] {
+  const rng = new SeededRandomSource(seed);
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
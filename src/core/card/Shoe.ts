@@ -0,0 +1,146 @@
+import { Card } from './types';
+import { Deck, DeckOptions } from './Deck';
+
+/**
+ * The default share of a shoe dealt before the cut card is reached.
+ */
+export const DEFAULT_SHOE_PENETRATION = 0.75;
+
+/**
+ * Options for creating a [Shoe](/api/classes/shoe/).
+ */
+export interface ShoeOptions extends DeckOptions {
+  /**
+   * The share of the shoe, between 0 and 1, dealt before the cut card is reached.
+   * Ignored if `cutCardPosition` is set. Defaults to 0.75.
+   */
+  penetration?: number;
+  /**
+   * The number of cards dealt after a shuffle before the cut card is reached.
+   */
+  cutCardPosition?: number;
+  /**
+   * Called once per shuffle, when the card at the cut card position is drawn.
+   */
+  onCutCardReached?: (shoe: Shoe) => void;
+}
+
+/**
+ * A multi-deck shoe with a cut card.
+ *
+ * Cards are dealt as from a [Deck](/api/classes/deck/). Once the cut card is reached, the current
+ * round is finished as usual and the shoe is reshuffled at the next round boundary by
+ * calling `prepareForRound`.
+ */
+export class Shoe extends Deck {
+  private readonly totalCards: number;
+  private cutCardPosition: number;
+  private dealtSinceShuffle = 0;
+  private cutCardReached = false;
+  private onCutCardReached?: (shoe: Shoe) => void;
+
+  constructor(numberOfDecks = 6, options: ShoeOptions = {}) {
+    super(numberOfDecks, options);
+    this.totalCards = this.getRemainingCards();
+    this.onCutCardReached = options.onCutCardReached;
+    this.cutCardPosition = this.clampCutCardPosition(
+      options.cutCardPosition ??
+      Math.floor(this.totalCards * (options.penetration ?? DEFAULT_SHOE_PENETRATION))
+    );
+  }
+
+  private clampCutCardPosition(position: number): number {
+    return Math.max(0, Math.min(this.totalCards, Math.floor(position)));
+  }
+
+  /**
+   * Shuffles the shoe and puts the cut card back in.
+   *
+   * @param seed The seed to shuffle with. If omitted, a new seed is drawn from the shoe's random source.
+   * @returns The seed used for the shuffle.
+   */
+  public shuffle(seed?: string): string {
+    const shuffleSeed = super.shuffle(seed);
+    this.dealtSinceShuffle = 0;
+    this.cutCardReached = false;
+    return shuffleSeed;
+  }
+
+  /**
+   * Draws a card from the shoe. Calls `onCutCardReached` when the cut card is reached.
+   *
+   * @param isVisible Whether the card should be visible.
+   * @returns The drawn card or null if the shoe is empty.
+   */
+  public drawCard(isVisible = true): Card | null {
+    const card = super.drawCard(isVisible);
+    if (!card) return null;
+
+    this.dealtSinceShuffle++;
+    if (!this.cutCardReached && this.dealtSinceShuffle >= this.cutCardPosition) {
+      this.cutCardReached = true;
+      if (this.onCutCardReached) {
+        this.onCutCardReached(this);
+      }
+    }
+    return card;
+  }
+
+  /**
+   * Reshuffles the shoe from the discard pile if the cut card has been reached.
+   * Call this between rounds, after the cards of the previous round have been discarded.
+   *
+   * @param seed The seed to shuffle with. If omitted, a new seed is drawn from the shoe's random source.
+   * @returns The seed of the reshuffle or null if the shoe did not need one.
+   */
+  public prepareForRound(seed?: string): string | null {
+    if (!this.cutCardReached) return null;
+    return this.resetFromDiscard(seed);
+  }
+
+  /**
+   * Whether the cut card has been reached since the last shuffle.
+   *
+   * @returns True if the shoe should be reshuffled before the next round.
+   */
+  public isCutCardReached(): boolean {
+    return this.cutCardReached;
+  }
+
+  /**
+   * Gets the number of cards dealt after a shuffle before the cut card is reached.
+   *
+   * @returns The cut card position.
+   */
+  public getCutCardPosition(): number {
+    return this.cutCardPosition;
+  }
+
+  /**
+   * Moves the cut card, for example when a player cuts the shoe. Takes effect for the cards
+   * dealt from now on; if the new position has already been passed, the next card reaches it.
+   *
+   * @param position The number of cards dealt after a shuffle before the cut card is reached.
+   */
+  public setCutCardPosition(position: number): void {
+    this.cutCardPosition = this.clampCutCardPosition(position);
+  }
+
+  /**
+   * Gets the number of cards dealt since the last shuffle.
+   *
+   * @returns The number of dealt cards.
+   */
+  public getDealtCards(): number {
+    return this.dealtSinceShuffle;
+  }
+
+  /**
+   * Gets the share of the shoe dealt since the last shuffle.
+   *
+   * @returns The penetration, between 0 and 1.
+   */
+  public getPenetration(): number {
+    return this.totalCards === 0 ? 0 : this.dealtSinceShuffle / this.totalCards;
+  }
+}
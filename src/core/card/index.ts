@@ -1,3 +1,42 @@
 export { Card, CardSuit, CardRank } from './types';
-export { Hand } from './Hand';
-export { Deck } from './Deck'; 
\ No newline at end of file
+export { Hand, HandState } from './Hand';
+export { Deck, DeckOptions } from './Deck';
+export { Shoe, ShoeOptions, DEFAULT_SHOE_PENETRATION } from './Shoe';
+export {
+  DeckSpec,
+  CardValueFunction,
+  STANDARD_RANKS,
+  STANDARD_SUITS,
+  DECK_SPECS,
+  blackjackCardValue,
+  buildCards
+} from './DeckSpec';
+export { RandomSource, CryptoRandomSource, SeededRandomSource, SeedSequenceSource, generateSeed, shuffleWithSeed } from './Random'; 
+export {
+  ClientSeed,
+  ProvablyFairReveal,
+  getCardCode,
+  createCommitment,
+  combineSeeds,
+  recomputeShuffle,
+  verifyShuffle
+} from './ProvablyFair';
+export {
+  PokerHandCategory,
+  PokerHandResult,
+  PokerShowdownEntry,
+  PokerShowdownResult,
+  PotShare,
+  getPokerRankValue,
+  evaluatePokerHand,
+  comparePokerHands,
+  findPokerWinners,
+  splitPot
+} from './PokerEvaluator';
+export {
+  BlackjackRules,
+  BlackjackEvaluationOptions,
+  BlackjackHandResult,
+  evaluateBlackjackHand,
+  applyBlackjackAttributes
+} from './BlackjackEvaluator';
@@ -10,7 +10,7 @@ export enum CardSuit {
 }
 
 /**
- * Represents the rank of a card.
+ * Represents the rank of a card. Jokers use the `JOKER` rank and a hearts (red) or spades (black) suit.
  */
 export enum CardRank {
   ACE = "A",
@@ -25,7 +25,8 @@ export enum CardRank {
   TEN = "T",
   JACK = "J",
   QUEEN = "Q",
-  KING = "K"
+  KING = "K",
+  JOKER = "X"
 }
 
 /**
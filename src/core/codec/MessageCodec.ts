@@ -0,0 +1,29 @@
+/**
+ * Encodes the messages the server sends and decodes the messages it receives on a connection.
+ * Clients choose the codec of their connection with a WebSocket subprotocol or the `codec`
+ * query parameter, both named after the codec.
+ */
+export interface MessageCodec {
+  /** The name clients negotiate the codec with. */
+  readonly name: string;
+  /**
+   * Encode a message. Strings are sent as text frames and buffers as binary frames.
+   * @param message The message
+   */
+  encode(message: unknown): string | Buffer;
+  /**
+   * Decode a message.
+   * @param data The data of a frame
+   * @throws If the data is not a valid message
+   */
+  decode(data: string | Buffer): unknown;
+}
+
+/**
+ * The default codec, which sends messages as JSON text.
+ */
+export const JSON_CODEC: MessageCodec = {
+  name: "json",
+  encode: (message: unknown): string => JSON.stringify(message),
+  decode: (data: string | Buffer): unknown => JSON.parse(typeof data === "string" ? data : data.toString("utf8"))
+};
@@ -0,0 +1,329 @@
+import { MessageCodec } from "./MessageCodec";
+
+/**
+ * A growable buffer that MessagePack data is written to.
+ */
+class Writer {
+  private buffer: Buffer = Buffer.allocUnsafe(256);
+  private length = 0;
+
+  public uint8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  public header(type: number, size: number, bytes: number): void {
+    this.uint8(type);
+    this.ensure(bytes);
+    this.buffer.writeUIntBE(size, this.length, bytes);
+    this.length += bytes;
+  }
+
+  public int(type: number, value: number, bytes: 1 | 2 | 4): void {
+    this.uint8(type);
+    this.ensure(bytes);
+    this.buffer.writeIntBE(value, this.length, bytes);
+    this.length += bytes;
+  }
+
+  public bigInt(type: number, value: bigint): void {
+    this.uint8(type);
+    this.ensure(8);
+    if (type === 0xcf) {
+      this.buffer.writeBigUInt64BE(value, this.length);
+    } else {
+      this.buffer.writeBigInt64BE(value, this.length);
+    }
+    this.length += 8;
+  }
+
+  public float64(value: number): void {
+    this.uint8(0xcb);
+    this.ensure(8);
+    this.buffer.writeDoubleBE(value, this.length);
+    this.length += 8;
+  }
+
+  public bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  public toBuffer(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, this.length));
+  }
+
+  private ensure(bytes: number): void {
+    if (this.length + bytes <= this.buffer.length) return;
+    const buffer = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + bytes));
+    this.buffer.copy(buffer, 0, 0, this.length);
+    this.buffer = buffer;
+  }
+}
+
+function writeSize(writer: Writer, size: number, types: [number, number, number]): void {
+  if (size <= 0xff) {
+    writer.header(types[0], size, 1);
+  } else if (size <= 0xffff) {
+    writer.header(types[1], size, 2);
+  } else {
+    writer.header(types[2], size, 4);
+  }
+}
+
+function writeCollectionSize(writer: Writer, size: number, fixType: number, types: [number, number]): void {
+  if (size < 0x10) {
+    writer.uint8(fixType | size);
+  } else if (size <= 0xffff) {
+    writer.header(types[0], size, 2);
+  } else {
+    writer.header(types[1], size, 4);
+  }
+}
+
+function writeInteger(writer: Writer, value: number): void {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.uint8(value);
+    } else if (value <= 0xff) {
+      writer.header(0xcc, value, 1);
+    } else if (value <= 0xffff) {
+      writer.header(0xcd, value, 2);
+    } else if (value <= 0xffffffff) {
+      writer.header(0xce, value, 4);
+    } else {
+      writer.bigInt(0xcf, BigInt(value));
+    }
+  } else if (value >= -0x20) {
+    writer.uint8(value & 0xff);
+  } else if (value >= -0x80) {
+    writer.int(0xd0, value, 1);
+  } else if (value >= -0x8000) {
+    writer.int(0xd1, value, 2);
+  } else if (value >= -0x80000000) {
+    writer.int(0xd2, value, 4);
+  } else {
+    writer.bigInt(0xd3, BigInt(value));
+  }
+}
+
+function writeString(writer: Writer, value: string): void {
+  const bytes = Buffer.from(value, "utf8");
+  if (bytes.length < 0x20) {
+    writer.uint8(0xa0 | bytes.length);
+  } else {
+    writeSize(writer, bytes.length, [0xd9, 0xda, 0xdb]);
+  }
+  writer.bytes(bytes);
+}
+
+/**
+ * Writes a value the way `JSON.stringify` would see it: `toJSON` is called, and functions,
+ * symbols and undefined properties are left out.
+ */
+function writeValue(writer: Writer, value: unknown, ancestors: unknown[]): void {
+  if (value !== null && typeof value === "object" && !(value instanceof Uint8Array) && "toJSON" in value && typeof value.toJSON === "function") {
+    value = value.toJSON();
+  }
+
+  if (value === null || value === undefined || typeof value === "function" || typeof value === "symbol") {
+    writer.uint8(0xc0);
+  } else if (typeof value === "boolean") {
+    writer.uint8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === "number") {
+    if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+      writeInteger(writer, value);
+    } else {
+      writer.float64(value);
+    }
+  } else if (typeof value === "bigint") {
+    throw new TypeError("Cannot encode a BigInt as MessagePack");
+  } else if (typeof value === "string") {
+    writeString(writer, value);
+  } else if (value instanceof Uint8Array) {
+    writeSize(writer, value.length, [0xc4, 0xc5, 0xc6]);
+    writer.bytes(value);
+  } else {
+    if (ancestors.includes(value)) {
+      throw new TypeError("Cannot encode a circular structure as MessagePack");
+    }
+    const nextAncestors = [...ancestors, value];
+
+    if (Array.isArray(value)) {
+      writeCollectionSize(writer, value.length, 0x90, [0xdc, 0xdd]);
+      value.forEach(item => writeValue(writer, item, nextAncestors));
+      return;
+    }
+
+    const entries = Object.entries(value as object).filter(([, item]) =>
+      item !== undefined && typeof item !== "function" && typeof item !== "symbol"
+    );
+    writeCollectionSize(writer, entries.length, 0x80, [0xde, 0xdf]);
+    for (const [key, item] of entries) {
+      writeString(writer, key);
+      writeValue(writer, item, nextAncestors);
+    }
+  }
+}
+
+/**
+ * Encode a value as MessagePack. Values are encoded the way they are encoded as JSON, except
+ * that buffers and typed byte arrays are encoded as binary data.
+ * @param value The value
+ * @returns The MessagePack data
+ * @throws If the value has a circular reference or a BigInt
+ */
+export function encodeMessagePack(value: unknown): Buffer {
+  const writer = new Writer();
+  writeValue(writer, value, []);
+  return writer.toBuffer();
+}
+
+/**
+ * Reads MessagePack data, checking that every read stays inside the data.
+ */
+class Reader {
+  private buffer: Buffer;
+  private offset = 0;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+  }
+
+  public isAtEnd(): boolean {
+    return this.offset === this.buffer.length;
+  }
+
+  public uint(bytes: number): number {
+    this.check(bytes);
+    const value = this.buffer.readUIntBE(this.offset, bytes);
+    this.offset += bytes;
+    return value;
+  }
+
+  public int(bytes: number): number {
+    this.check(bytes);
+    const value = this.buffer.readIntBE(this.offset, bytes);
+    this.offset += bytes;
+    return value;
+  }
+
+  public bigInt(signed: boolean): number {
+    this.check(8);
+    const value = signed ? this.buffer.readBigInt64BE(this.offset) : this.buffer.readBigUInt64BE(this.offset);
+    this.offset += 8;
+    return Number(value);
+  }
+
+  public float(bytes: 4 | 8): number {
+    this.check(bytes);
+    const value = bytes === 4 ? this.buffer.readFloatBE(this.offset) : this.buffer.readDoubleBE(this.offset);
+    this.offset += bytes;
+    return value;
+  }
+
+  public bytes(length: number): Buffer {
+    this.check(length);
+    const value = Buffer.from(this.buffer.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  public string(length: number): string {
+    this.check(length);
+    const value = this.buffer.toString("utf8", this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private check(bytes: number): void {
+    if (this.offset + bytes > this.buffer.length) {
+      throw new RangeError("Unexpected end of MessagePack data");
+    }
+  }
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+  const result: unknown[] = [];
+  for (let index = 0; index < length; index++) {
+    result.push(readValue(reader));
+  }
+  return result;
+}
+
+function readMap(reader: Reader, size: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (let index = 0; index < size; index++) {
+    const key = readValue(reader);
+    if (typeof key !== "string" && typeof key !== "number") {
+      throw new TypeError("MessagePack map keys must be strings or numbers");
+    }
+    // Define the property, so a "__proto__" key cannot change the prototype of the result
+    Object.defineProperty(result, String(key), { value: readValue(reader), enumerable: true, writable: true, configurable: true });
+  }
+  return result;
+}
+
+function readValue(reader: Reader): unknown {
+  const type = reader.uint(1);
+
+  if (type < 0x80) return type;
+  if (type >= 0xe0) return type - 0x100;
+  if (type < 0x90) return readMap(reader, type & 0x0f);
+  if (type < 0xa0) return readArray(reader, type & 0x0f);
+  if (type < 0xc0) return reader.string(type & 0x1f);
+
+  switch (type) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.bytes(reader.uint(1));
+    case 0xc5: return reader.bytes(reader.uint(2));
+    case 0xc6: return reader.bytes(reader.uint(4));
+    case 0xca: return reader.float(4);
+    case 0xcb: return reader.float(8);
+    case 0xcc: return reader.uint(1);
+    case 0xcd: return reader.uint(2);
+    case 0xce: return reader.uint(4);
+    case 0xcf: return reader.bigInt(false);
+    case 0xd0: return reader.int(1);
+    case 0xd1: return reader.int(2);
+    case 0xd2: return reader.int(4);
+    case 0xd3: return reader.bigInt(true);
+    case 0xd9: return reader.string(reader.uint(1));
+    case 0xda: return reader.string(reader.uint(2));
+    case 0xdb: return reader.string(reader.uint(4));
+    case 0xdc: return readArray(reader, reader.uint(2));
+    case 0xdd: return readArray(reader, reader.uint(4));
+    case 0xde: return readMap(reader, reader.uint(2));
+    case 0xdf: return readMap(reader, reader.uint(4));
+    default:
+      throw new TypeError(`Unsupported MessagePack type 0x${type.toString(16)}`);
+  }
+}
+
+/**
+ * Decode MessagePack data. Extension types are not supported, and 64-bit integers are
+ * decoded as numbers.
+ * @param data The MessagePack data
+ * @returns The value
+ * @throws If the data is not a single valid MessagePack value
+ */
+export function decodeMessagePack(data: Buffer | Uint8Array): unknown {
+  const reader = new Reader(Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  const value = readValue(reader);
+  if (!reader.isAtEnd()) {
+    throw new RangeError("Unexpected data after the MessagePack value");
+  }
+  return value;
+}
+
+/**
+ * A compact binary codec, which sends messages as MessagePack in binary frames.
+ */
+export const MESSAGE_PACK_CODEC: MessageCodec = {
+  name: "msgpack",
+  encode: (message: unknown): Buffer => encodeMessagePack(message),
+  decode: (data: string | Buffer): unknown => decodeMessagePack(typeof data === "string" ? Buffer.from(data, "utf8") : data)
+};
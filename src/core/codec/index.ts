@@ -0,0 +1,2 @@
+export { MessageCodec, JSON_CODEC } from './MessageCodec';
+export { MESSAGE_PACK_CODEC, encodeMessagePack, decodeMessagePack } from './MessagePack';
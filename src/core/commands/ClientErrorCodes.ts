@@ -0,0 +1,33 @@
+/**
+ * ClientErrorCodes.ts
+ * 
+ * This file contains the codes of the error messages that can be sent from the game server to the client.
+ * Clients should handle errors by their code, the message is meant to be read by people.
+ */
+
+export const CLIENT_ERROR_CODES = {
+    // Message errors
+    INVALID_MESSAGE: "INVALID_MESSAGE",
+    UNKNOWN_ACTION: "UNKNOWN_ACTION",
+    MISSING_PARAMETER: "MISSING_PARAMETER",
+    INVALID_PARAMETER: "INVALID_PARAMETER",
+    UNSUPPORTED_PROTOCOL_VERSION: "UNSUPPORTED_PROTOCOL_VERSION",
+    // Table errors
+    NOT_AT_TABLE: "NOT_AT_TABLE",
+    NOT_SEATED: "NOT_SEATED",
+    TABLE_NOT_FOUND: "TABLE_NOT_FOUND",
+    TABLE_JOIN_FAILED: "TABLE_JOIN_FAILED",
+    TABLE_SPECTATE_FAILED: "TABLE_SPECTATE_FAILED",
+    TABLE_CREATE_FAILED: "TABLE_CREATE_FAILED",
+    ROLE_SWITCH_FAILED: "ROLE_SWITCH_FAILED",
+    SEAT_SIT_FAILED: "SEAT_SIT_FAILED",
+    SEAT_STAND_FAILED: "SEAT_STAND_FAILED",
+    CLIENT_SEED_FAILED: "CLIENT_SEED_FAILED",
+    // Command errors
+    REJECTED: "REJECTED",
+    RATE_LIMITED: "RATE_LIMITED",
+    COMMAND_FAILED: "COMMAND_FAILED",
+    INTERNAL_ERROR: "INTERNAL_ERROR"
+} as const;
+
+export type ClientErrorCode = typeof CLIENT_ERROR_CODES[keyof typeof CLIENT_ERROR_CODES];
@@ -0,0 +1,70 @@
+/**
+ * CommandRequest.ts
+ *
+ * This file contains the context of the client command the server is currently handling. Messages sent
+ * to the player who sent the command are tagged with its request ID, so the client can tie them to it.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * The ID a client gives a command, to tie the responses and errors of the server to it.
+ */
+export type RequestId = string | number;
+
+/**
+ * A structured error, as sent to the client in `error` messages and failed responses.
+ */
+export interface CommandError {
+  code: string;
+  message: string;
+}
+
+/**
+ * A command of a player that is being handled.
+ */
+export interface CommandRequest {
+  playerId: string;
+  action: string;
+  requestId: RequestId;
+  /** The errors sent to the player while the command was handled. */
+  errors: CommandError[];
+}
+
+const commandRequests = new AsyncLocalStorage<CommandRequest>();
+
+// Requests that were handled. Timers and promises started by a handler keep the request in their
+// context after it is handled, so it is only current until it ends.
+const endedRequests = new WeakSet<CommandRequest>();
+
+/**
+ * Runs a callback in the context of a command request. The request stays current in the
+ * callbacks and promises started by the callback, until it is ended.
+ *
+ * @param request The request.
+ * @param callback The callback that handles the request.
+ * @returns The return value of the callback.
+ */
+export function runInCommandRequest<T>(request: CommandRequest, callback: () => T): T {
+  return commandRequests.run(request, callback);
+}
+
+/**
+ * Gets the command request that is currently being handled.
+ *
+ * @returns The request, or undefined outside of a request.
+ */
+export function getCurrentCommandRequest(): CommandRequest | undefined {
+  const request = commandRequests.getStore();
+  return request && !endedRequests.has(request) ? request : undefined;
+}
+
+/**
+ * Ends a command request once it is handled, so the work it started later, like timers, is no
+ * longer tied to it.
+ *
+ * @param request The request.
+ */
+export function endCommandRequest(request: CommandRequest): void {
+  endedRequests.add(request);
+}
@@ -0,0 +1,173 @@
+/**
+ * CommandSchema.ts
+ *
+ * This file contains the schemas that describe the payloads of the commands clients send to the game server.
+ * The MessageRouter validates commands against their schemas before they are handled.
+ */
+
+import { CLIENT_ERROR_CODES } from "./ClientErrorCodes";
+import { CommandError, RequestId } from "./CommandRequest";
+
+export type CommandFieldType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "any";
+
+/**
+ * The schema of a field of a command.
+ */
+export interface CommandFieldSchema {
+  type: CommandFieldType;
+  /** Fields are required unless they are optional. */
+  optional?: boolean;
+  description?: string;
+  /** The values the field accepts. */
+  enum?: ReadonlyArray<string | number | boolean>;
+  /** The minimum value of a number. */
+  minimum?: number;
+  /** The maximum value of a number. */
+  maximum?: number;
+  /** The minimum length of a string or an array. */
+  minLength?: number;
+  /** The maximum length of a string or an array. */
+  maxLength?: number;
+  /** The schema of the items of an array. */
+  items?: CommandFieldSchema;
+  /** The schemas of the fields of an object. */
+  fields?: Record<string, CommandFieldSchema>;
+}
+
+/**
+ * The schema of the payload of a command. The `action` and `requestId` of a command are not part of its schema.
+ *
+ * ```typescript
+ * const betSchema: CommandSchema = {
+ *   description: "Places a bet at the player's table",
+ *   fields: {
+ *     amount: { type: "integer", minimum: 1 },
+ *     currency: { type: "string", enum: ["chips", "gold"], optional: true }
+ *   }
+ * };
+ * ```
+ */
+export interface CommandSchema {
+  description?: string;
+  fields?: Record<string, CommandFieldSchema>;
+}
+
+/**
+ * The type of the value of a field, inferred from its schema.
+ */
+export type CommandFieldValue<F extends CommandFieldSchema> =
+  F["type"] extends "string" ? string :
+  F["type"] extends "number" | "integer" ? number :
+  F["type"] extends "boolean" ? boolean :
+  F["type"] extends "object" ? (F["fields"] extends Record<string, CommandFieldSchema> ? CommandFieldValues<F["fields"]> : Record<string, unknown>) :
+  F["type"] extends "array" ? Array<F["items"] extends CommandFieldSchema ? CommandFieldValue<F["items"]> : unknown> :
+  unknown;
+
+/**
+ * The values of the fields of a command, inferred from their schemas.
+ */
+export type CommandFieldValues<Fields extends Record<string, CommandFieldSchema>> = {
+  [K in keyof Fields as Fields[K]["optional"] extends true ? never : K]: CommandFieldValue<Fields[K]>;
+} & {
+  [K in keyof Fields as Fields[K]["optional"] extends true ? K : never]?: CommandFieldValue<Fields[K]>;
+};
+
+/**
+ * The command a handler receives: its action, its request ID and its fields. The fields of a
+ * schema are typed after the schema, and other fields are unknown as they are not validated.
+ * Commands without a schema are not validated at all, so their fields are not typed.
+ *
+ * ```typescript
+ * // { action: string; requestId?: RequestId; amount: number; currency?: string }
+ * type BetCommand = CommandData<{ fields: { amount: { type: "integer" }; currency: { type: "string"; optional: true } } }>;
+ * ```
+ */
+export type CommandData<S extends CommandSchema = CommandSchema> = { action: string; requestId?: RequestId } & (
+  S["fields"] extends Record<string, CommandFieldSchema>
+    ? CommandFieldValues<S["fields"]> & Record<string, unknown>
+    : Record<string, any>
+);
+
+function matchesType(type: CommandFieldType, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function isValid(schema: CommandFieldSchema, value: unknown): boolean {
+  if (!matchesType(schema.type, value)) return false;
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) return false;
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) return false;
+    if (schema.maximum !== undefined && value > schema.maximum) return false;
+  }
+
+  if (typeof value === "string" || Array.isArray(value)) {
+    if (schema.minLength !== undefined && value.length < schema.minLength) return false;
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) return false;
+  }
+
+  return true;
+}
+
+function validateFields(fields: Record<string, CommandFieldSchema>, data: Record<string, unknown>, path: string): CommandError | null {
+  for (const [name, schema] of Object.entries(fields)) {
+    const fieldPath = path + name;
+    const value = data[name];
+
+    if (value === undefined || value === null) {
+      if (schema.optional) continue;
+      return { code: CLIENT_ERROR_CODES.MISSING_PARAMETER, message: `Missing ${fieldPath} parameter` };
+    }
+
+    const error = validateField(schema, value, fieldPath);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+function validateField(schema: CommandFieldSchema, value: unknown, path: string): CommandError | null {
+  if (!isValid(schema, value)) {
+    return { code: CLIENT_ERROR_CODES.INVALID_PARAMETER, message: `Invalid ${path} parameter` };
+  }
+
+  if (schema.type === "object" && schema.fields) {
+    return validateFields(schema.fields, value as Record<string, unknown>, `${path}.`);
+  }
+
+  if (schema.type === "array" && schema.items && Array.isArray(value)) {
+    for (let index = 0; index < value.length; index++) {
+      const error = validateField(schema.items, value[index], `${path}[${index}]`);
+      if (error) return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the payload of a command against its schema. Missing fields are reported with
+ * `MISSING_PARAMETER` and invalid fields with `INVALID_PARAMETER`, for example
+ * "Missing tableId parameter" or "Invalid options.maxPlayers parameter".
+ *
+ * @param schema The schema of the command.
+ * @param data The command.
+ * @returns The error of the first invalid field, or null if the command is valid.
+ */
+export function validateCommand(schema: CommandSchema, data: Record<string, unknown>): CommandError | null {
+  return schema.fields ? validateFields(schema.fields, data, "") : null;
+}
@@ -12,18 +12,28 @@ export const LOBBY_COMMAND_TYPES = {
 
 export const TABLE_COMMAND_TYPES = {
     GET_STATE: "table:state:get",
+    ACK_STATE: "table:state:ack",
+    RESYNC_STATE: "table:state:resync",
     JOIN: "table:join",
+    SPECTATE: "table:spectate",
+    SWITCH_ROLE: "table:role:switch",
     LEAVE: "table:leave",
     CREATE: "table:create",
     SEAT_SIT: "table:seat:sit",
-    SEAT_STAND: "table:seat:stand"
+    SEAT_STAND: "table:seat:stand",
+    DECK_SEED: "table:deck:seed"
 }
 
 export const PLAYER_COMMAND_TYPES = {
     GET_STATE: "player:state:get"
 }
 
+export const PROTOCOL_COMMAND_TYPES = {
+    HELLO: "protocol:hello"
+}
+
 export const CLIENT_COMMAND_TYPES = {
+    PROTOCOL: PROTOCOL_COMMAND_TYPES,
     LOBBY: LOBBY_COMMAND_TYPES,
     TABLE: TABLE_COMMAND_TYPES,
     PLAYER: PLAYER_COMMAND_TYPES
@@ -11,17 +11,28 @@ export const LOBBY_MESSAGE_TYPES = {
 
 export const TABLE_MESSAGE_TYPES = {
     STATE: "table:state",
+    STATE_PATCH: "table:state:patch",
+    TURN: "table:turn",
+    DECK_COMMITTED: "table:deck:committed",
+    DECK_REVEALED: "table:deck:revealed",
 }
 
 export const PLAYER_MESSAGE_TYPES = {
     STATE: "player:state",
 }
 
+export const PROTOCOL_MESSAGE_TYPES = {
+    WELCOME: "protocol:welcome",
+}
+
 export const CLIENT_MESSAGE_TYPES = {
+    PROTOCOL: PROTOCOL_MESSAGE_TYPES,
     LOBBY: LOBBY_MESSAGE_TYPES,
     TABLE: TABLE_MESSAGE_TYPES,
     PLAYER: PLAYER_MESSAGE_TYPES,
     ERROR: "error",
+    RESPONSE: "response",
+    RATE_LIMITED: "rate:limited",
 }
 
 export type BuiltInClientMessageType = typeof CLIENT_MESSAGE_TYPES[keyof typeof CLIENT_MESSAGE_TYPES];
@@ -0,0 +1,82 @@
+/**
+ * Protocol.ts
+ *
+ * This file contains the versions and features of the protocol the game server and its clients speak.
+ * Clients declare the versions and features they support with a `protocol:hello` handshake. The server
+ * builds its messages for the current version, and adapts them to the version each player negotiated,
+ * so clients of older versions keep working while the protocol evolves.
+ */
+
+import { PLAYER_MESSAGE_TYPES } from "./OutboundClientMessageTypes";
+
+/**
+ * The current version of the protocol.
+ *
+ * - Version 1: the protocol before versioning. `player:state` messages sent on connection had the
+ *   player's `id` and `attributes` at the top level, other `player:state` messages had them in `data`.
+ * - Version 2: `player:state` messages always have the player's `id` and `attributes` in `data`.
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * The oldest version of the protocol the server supports. Clients that never send a handshake
+ * are assumed to speak it.
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * The optional features of the protocol clients can declare in their handshake. Players only
+ * get the messages of a feature once they negotiated it. Games can support their own features
+ * with `MessageRouter.registerProtocolFeature`.
+ */
+export const PROTOCOL_FEATURES = {
+    /** Table state patches, once the client acknowledged a table state. Full states are sent otherwise. */
+    STATE_PATCHES: "statePatches",
+    /** `rate:limited` messages for messages over the rate limits. `error` messages are sent otherwise. */
+    RATE_LIMITS: "rateLimits"
+} as const;
+
+/**
+ * Adapts the messages of a version of the protocol to the version before it.
+ */
+export interface ProtocolAdapter {
+    /** The version the adapter adapts messages to, from the next version. */
+    version: number;
+    /**
+     * Adapt a message. Messages the version does not change are returned as they are.
+     * @param message The message, in the next version
+     * @returns The message, in the version of the adapter
+     */
+    adapt(message: unknown): unknown;
+}
+
+/**
+ * The adapters of the protocol, one for every version before the current one.
+ */
+export const PROTOCOL_ADAPTERS: ReadonlyArray<ProtocolAdapter> = [
+    {
+        version: 1,
+        // Version 1 clients read the player state from the top level or from `data`, depending on
+        // the message, so they get both
+        adapt: (message: unknown): unknown => {
+            const { type, data } = (message ?? {}) as { type?: unknown; data?: { id?: unknown; attributes?: unknown } };
+            if (type !== PLAYER_MESSAGE_TYPES.STATE || !data) return message;
+            return { ...(message as object), id: data.id, attributes: data.attributes };
+        }
+    }
+];
+
+/**
+ * Adapt a message of the current version of the protocol to an older version.
+ * @param message The message, in the current version
+ * @param version The version to adapt the message to
+ * @returns The message, in the given version
+ */
+export function adaptMessage(message: unknown, version: number): unknown {
+    if (version >= PROTOCOL_VERSION) return message;
+
+    return PROTOCOL_ADAPTERS
+        .filter(adapter => adapter.version >= version)
+        .sort((a, b) => b.version - a.version)
+        .reduce((adapted, adapter) => adapter.adapt(adapted), message);
+}
@@ -1,4 +1,54 @@
 import { CLIENT_COMMAND_TYPES } from "./InboundClientCommandTypes";
 import { CLIENT_MESSAGE_TYPES } from "./OutboundClientMessageTypes";
+import { CLIENT_ERROR_CODES, ClientErrorCode } from "./ClientErrorCodes";
+import {
+  RequestId,
+  CommandError,
+  CommandRequest,
+  runInCommandRequest,
+  getCurrentCommandRequest,
+  endCommandRequest
+} from "./CommandRequest";
+import {
+  CommandFieldType,
+  CommandFieldSchema,
+  CommandSchema,
+  CommandFieldValue,
+  CommandFieldValues,
+  CommandData,
+  validateCommand
+} from "./CommandSchema";
+import {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  PROTOCOL_ADAPTERS,
+  ProtocolAdapter,
+  adaptMessage
+} from "./Protocol";
 
-export { CLIENT_COMMAND_TYPES, CLIENT_MESSAGE_TYPES };
\ No newline at end of file
+export {
+  CLIENT_COMMAND_TYPES,
+  CLIENT_MESSAGE_TYPES,
+  CLIENT_ERROR_CODES,
+  ClientErrorCode,
+  RequestId,
+  CommandError,
+  CommandRequest,
+  runInCommandRequest,
+  getCurrentCommandRequest,
+  endCommandRequest,
+  CommandFieldType,
+  CommandFieldSchema,
+  CommandSchema,
+  CommandFieldValue,
+  CommandFieldValues,
+  CommandData,
+  validateCommand,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  PROTOCOL_ADAPTERS,
+  ProtocolAdapter,
+  adaptMessage
+};
@@ -0,0 +1,39 @@
+import type { CommandContext, CommandMiddleware } from "./MessageRouter";
+import { CLIENT_ERROR_CODES } from "../core/commands/index";
+
+/**
+ * Middleware that rejects commands of players who are not at a table with `NOT_AT_TABLE`.
+ * The table of the player is attached to the command as `context.state.table`.
+ */
+export const requireTable: CommandMiddleware = (context: CommandContext, next) => {
+  const table = context.player.getTable();
+  if (!table) {
+    return context.reject(CLIENT_ERROR_CODES.NOT_AT_TABLE, "You are not at a table");
+  }
+
+  context.state.table = table;
+  return next();
+};
+
+/**
+ * Middleware that rejects commands of players who are not seated at their table with `NOT_SEATED`,
+ * or with `NOT_AT_TABLE` if they are not at a table. The table of the player is attached to the
+ * command as `context.state.table`, and the indexes of the player's seats as `context.state.seatIndexes`.
+ */
+export const requireSeat: CommandMiddleware = (context: CommandContext, next) => {
+  const table = context.player.getTable();
+  if (!table) {
+    return context.reject(CLIENT_ERROR_CODES.NOT_AT_TABLE, "You are not at a table");
+  }
+
+  const seatIndexes = table.getSeats()
+    .map((seat, index) => seat.getPlayer()?.id === context.player.id ? index : -1)
+    .filter(index => index !== -1);
+  if (seatIndexes.length === 0) {
+    return context.reject(CLIENT_ERROR_CODES.NOT_SEATED, "You are not seated at the table");
+  }
+
+  context.state.table = table;
+  context.state.seatIndexes = seatIndexes;
+  return next();
+};
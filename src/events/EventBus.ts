@@ -1,5 +1,116 @@
 import { EventEmitter } from "events";
-import { EventType } from "./EventTypes";
+import { EventPayloads } from "./EventTypes";
+import { EVENT_BUS_EVENTS } from "./EventBusEvents";
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from "../core/commands/index";
+import type { Player } from "../core/Player";
+
+/**
+ * The arguments of an event in a payload map. Events that are not in the map,
+ * such as events named by a plain `string`, accept any arguments.
+ */
+export type EventArgs<TMap, E> = E extends keyof TMap
+  ? (TMap[E] extends any[] ? TMap[E] : any[])
+  : any[];
+
+/**
+ * A listener for an event in a payload map.
+ */
+export type EventListener<TMap, E> = (...args: EventArgs<TMap, E>) => void;
+
+/**
+ * A listener for a wildcard subscription. It receives the name of the event, followed by its arguments.
+ */
+export type PatternListener = (event: string, ...args: any[]) => void;
+
+/**
+ * The outcome of an awaited emit.
+ */
+export interface EventDispatchResult {
+  /** The number of listeners that were called. */
+  listenerCount: number;
+  /** Whether an interceptor cancelled the event, in which case no listeners were called. */
+  cancelled: boolean;
+  /** The errors thrown or rejected by listeners, in the order the listeners were registered. */
+  errors: unknown[];
+}
+
+/**
+ * An event on its way through the interceptors of the EventBus.
+ */
+export interface EventInterception {
+  /** The name of the event. */
+  readonly event: string;
+  /** The arguments of the event. Interceptors can change them, or replace the array, before the listeners receive them. */
+  args: any[];
+  /** The player that caused the event: the first argument that is a player, or null. */
+  readonly player: Player | null;
+  /** Cancels the event. No further interceptors or listeners are called. */
+  cancel(): void;
+  /**
+   * Cancels the event and sends an error message to the player that caused it.
+   * @param message The error message
+   * @param player The player to send the message to. Defaults to `player`.
+   */
+  reject(message: string, player?: Player | null): void;
+}
+
+/**
+ * An interceptor, called before the listeners of the events it is registered for.
+ * An interceptor that throws rejects the event with the error's message.
+ */
+export type EventInterceptor = (interception: EventInterception) => void;
+
+/**
+ * Options for registering an interceptor.
+ */
+export interface InterceptorOptions {
+  /** Interceptors with a higher priority run first. Interceptors with the same priority run in the order they were added. Defaults to 0. */
+  priority?: number;
+}
+
+/**
+ * The outcome of running the interceptors of an event.
+ */
+interface InterceptionOutcome {
+  cancelled: boolean;
+  args: unknown[];
+}
+
+interface InterceptorRegistration {
+  pattern: string;
+  regex: RegExp;
+  interceptor: EventInterceptor;
+  priority: number;
+}
+
+function isPlayer(value: unknown): value is Player {
+  return typeof value === "object" && value !== null &&
+    typeof (value as Player).id === "string" &&
+    typeof (value as Player).sendMessage === "function";
+}
+
+interface PatternSubscription {
+  pattern: string;
+  regex: RegExp;
+  listener: PatternListener;
+}
+
+/**
+ * Compiles an event pattern to a regular expression. Segments are separated by colons:
+ * `*` matches one segment, `**` matches one or more segments, and a `*` inside a segment
+ * matches any characters of that segment.
+ */
+function compilePattern(pattern: string): RegExp {
+  const segments = pattern.split(":").map(segment => {
+    if (segment === "**") return "[^:]+(?::[^:]+)*";
+    if (segment === "*") return "[^:]+";
+    return segment
+      .split("*")
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^:]*");
+  });
+  return new RegExp(`^${segments.join(":")}$`);
+}
 
 /**
  * EventBus
@@ -14,6 +125,11 @@ import { EventType } from "./EventTypes";
  * 
  * Use the EventTypes constants to ensure consistent event naming across the application.
  * 
+ * Typed payloads:
+ * `on`, `once`, `off` and `emit` are checked against the payload map `TMap`, which defaults to
+ * the built-in payload maps merged with the payload maps declared in `CustomEventMap`. Events that
+ * are not in the map accept any arguments.
+ * 
  * External Usage:
  * Developers can extend the EventBus with their own custom events:
  * 
@@ -23,23 +139,74 @@ import { EventType } from "./EventTypes";
  *   CUSTOM_ACTION: "myGame:customAction"
  * } as const;
  * 
- * // Use the predefined event constants in your code
+ * // Describe their payloads
+ * interface MyEventPayloadMap {
+ *   [MY_EVENTS.CUSTOM_ACTION]: [data: string];
+ * }
+ * 
+ * declare module "shoehive" {
+ *   interface CustomEventMap {
+ *     myEvents: MyEventPayloadMap;
+ *   }
+ * }
+ * 
+ * // Use the predefined event constants in your code, `data` is a string
  * eventBus.on(MY_EVENTS.CUSTOM_ACTION, (data) => {
  *   console.log(`Custom action received: ${data}`);
  * });
  * 
- * // You can also use string literals, but you lose type safety
+ * // You can also use string literals that are not in the payload map, but you lose type safety
  * eventBus.on("myGame:anotherAction", (data) => {
  *   console.log(`Another action received: ${data}`);
  * });
  * ```
+ * 
+ * Wildcard subscriptions:
+ * `onPattern` subscribes to every event matching a pattern, and `onAny` to every event.
+ * Their listeners receive the event name followed by the event's arguments, after the
+ * listeners registered for the exact event name.
+ * 
+ * ```typescript
+ * // "table:created", but not "table:player:sat"
+ * eventBus.onPattern("table:*", (event, table) => {});
+ * 
+ * // Every table event, including "table:player:sat"
+ * eventBus.onPattern("table:**", (event, ...args) => {});
+ * 
+ * // Every event
+ * eventBus.onAny((event, ...args) => {});
+ * ```
+ * 
+ * Awaitable emits:
+ * `emit` calls listeners synchronously and does not wait for async listeners. `emitAsync` awaits
+ * the listeners one after another and `emitAsyncParallel` awaits them concurrently. Both keep
+ * calling the remaining listeners when one fails, and report the failure with
+ * EVENT_BUS_EVENTS.LISTENER_ERROR.
+ * 
+ * ```typescript
+ * eventBus.on(EVENT_BUS_EVENTS.LISTENER_ERROR, (error, event) => {
+ *   console.error(`Listener for ${event} failed`, error);
+ * });
+ * 
+ * const { errors } = await eventBus.emitAsync(TABLE_EVENTS.POT_SETTLED, table, settlement);
+ * ```
+ * 
+ * Child buses:
+ * `createChild` creates a bus scoped to part of the application. Each table has one, available
+ * with `table.getEventBus()`. Events emitted on a child bubble up to its parent, and `dispose`
+ * removes the child's listeners when the scope ends.
  */
-export class EventBus {
+export class EventBus<TMap extends object = EventPayloads> {
   private emitter: EventEmitter;
-  private debugEnabled: boolean = false;
-  private debugFilter?: (event: string) => boolean;
-  private debugLogger: (event: string, ...args: any[]) => void = console.log;
+  private patternSubscriptions: PatternSubscription[] = [];
+  private interceptors: InterceptorRegistration[] = [];
+  private debugListener?: PatternListener;
   private originalEmit: EventEmitter['emit'];
+  private parent: EventBus<any> | null = null;
+  private children: Set<EventBus<any>> = new Set();
+  private disposed = false;
+  // Set by a child bus while it bubbles an event that it has already intercepted
+  private receivingBubbledEvent = false;
 
   constructor() {
     this.emitter = new EventEmitter();
@@ -54,7 +221,7 @@ export class EventBus {
    * @param event The event to listen for
    * @param listener The callback function to execute when the event occurs
    */
-  public on(event: EventType | string, listener: (...args: any[]) => void): void {
+  public on<E extends string>(event: E, listener: EventListener<TMap, E>): void {
     this.emitter.on(event, listener);
   }
 
@@ -63,7 +230,7 @@ export class EventBus {
    * @param event The event to listen for
    * @param listener The callback function to execute when the event occurs
    */
-  public once(event: EventType | string, listener: (...args: any[]) => void): void {
+  public once<E extends string>(event: E, listener: EventListener<TMap, E>): void {
     this.emitter.once(event, listener);
   }
 
@@ -72,7 +239,7 @@ export class EventBus {
    * @param event The event to stop listening for
    * @param listener The callback function to remove
    */
-  public off(event: EventType | string, listener: (...args: any[]) => void): void {
+  public off<E extends string>(event: E, listener: EventListener<TMap, E>): void {
     this.emitter.off(event, listener);
   }
 
@@ -82,26 +249,337 @@ export class EventBus {
    * @param args Arguments to pass to event listeners
    * @returns Whether the event had listeners
    */
-  public emit(event: EventType | string, ...args: any[]): boolean {
+  public emit<E extends string>(event: E, ...args: EventArgs<TMap, E>): boolean {
+    const intercept = !this.receivingBubbledEvent;
+    this.receivingBubbledEvent = false;
+    return this.dispatch(event, args, intercept);
+  }
+
+  /**
+   * Calls the exact listeners of an event, then the matching wildcard listeners, then bubbles
+   * the event to the parent bus.
+   */
+  private dispatch(event: string, eventArgs: unknown[], intercept = true): boolean {
+    const { cancelled, args } = intercept ? this.intercept(event, eventArgs) : { cancelled: false, args: eventArgs };
+    if (cancelled) return false;
+    
     const result = this.originalEmit.call(this.emitter, event, ...args);
     
-    // If debug monitoring is enabled, log the event
-    if (this.debugEnabled) {
-      if (!this.debugFilter || this.debugFilter(event)) {
-        this.debugLogger(`[EVENT] ${event}`, ...args);
+    // Wildcard listeners run after the exact listeners. Matching first means listeners
+    // added or removed while the event is dispatched only apply to the next event.
+    const matching = this.patternSubscriptions.filter(subscription => subscription.regex.test(event));
+    for (const subscription of matching) {
+      subscription.listener(event, ...args);
+    }
+    
+    const bubbled = this.bubble(event, args);
+    return result || matching.length > 0 || bubbled;
+  }
+
+  /**
+   * Emits an event on the parent bus, without running the parent's interceptors again.
+   */
+  private bubble(event: string, args: unknown[]): boolean {
+    if (!this.parent) return false;
+    
+    this.parent.receivingBubbledEvent = true;
+    try {
+      return this.parent.emit(event, ...args);
+    } finally {
+      this.parent.receivingBubbledEvent = false;
+    }
+  }
+
+  /**
+   * Emit an event and wait for its listeners, one after another
+   * 
+   * Each listener is awaited before the next one is called, so listeners that call a
+   * ServerTransportModule run in the order they were registered. A listener that throws or
+   * rejects does not stop the others: its error is collected and reported with
+   * EVENT_BUS_EVENTS.LISTENER_ERROR.
+   * 
+   * @param event The event to emit
+   * @param args Arguments to pass to event listeners
+   * @returns The number of listeners called and the errors of the listeners that failed
+   */
+  public async emitAsync<E extends string>(event: E, ...eventArgs: EventArgs<TMap, E>): Promise<EventDispatchResult> {
+    const { cancelled, args } = this.intercept(event, eventArgs);
+    if (cancelled) return { listenerCount: 0, cancelled, errors: [] };
+    
+    const listeners = this.getDispatchListeners(event);
+    const errors: unknown[] = [];
+    
+    for (const listener of listeners) {
+      try {
+        await listener(...args);
+      } catch (error) {
+        errors.push(error);
+        this.reportListenerError(error, event, args);
+      }
+    }
+    
+    return { listenerCount: listeners.length, cancelled, errors };
+  }
+
+  /**
+   * Emit an event and wait for its listeners, which run concurrently
+   * 
+   * All listeners are called at once and awaited together. Like `emitAsync`, failing
+   * listeners do not affect the others and are reported with EVENT_BUS_EVENTS.LISTENER_ERROR.
+   * 
+   * @param event The event to emit
+   * @param args Arguments to pass to event listeners
+   * @returns The number of listeners called and the errors of the listeners that failed
+   */
+  public async emitAsyncParallel<E extends string>(event: E, ...eventArgs: EventArgs<TMap, E>): Promise<EventDispatchResult> {
+    const { cancelled, args } = this.intercept(event, eventArgs);
+    if (cancelled) return { listenerCount: 0, cancelled, errors: [] };
+    
+    const listeners = this.getDispatchListeners(event);
+    const results = await Promise.allSettled(
+      listeners.map(async listener => listener(...args))
+    );
+    
+    const errors: unknown[] = [];
+    for (const result of results) {
+      if (result.status === "rejected") {
+        errors.push(result.reason);
+        this.reportListenerError(result.reason, event, args);
       }
     }
     
-    return result;
+    return { listenerCount: listeners.length, cancelled, errors };
+  }
+
+  /**
+   * Gets the listeners an event is dispatched to: the exact listeners, then the matching wildcard
+   * listeners, then the listeners of the parent bus. `once` listeners are removed as they are
+   * called, like with `emit`.
+   */
+  private getDispatchListeners(event: string): Array<(...args: unknown[]) => unknown> {
+    const listeners = this.emitter.rawListeners(event) as Array<(...args: unknown[]) => unknown>;
+    const patternListeners = this.patternSubscriptions
+      .filter(subscription => subscription.regex.test(event))
+      .map(subscription => (...args: unknown[]) => subscription.listener(event, ...args));
+    const parentListeners = this.parent ? this.parent.getDispatchListeners(event) : [];
+    return [...listeners, ...patternListeners, ...parentListeners];
+  }
+
+  /**
+   * Reports a failed listener with EVENT_BUS_EVENTS.LISTENER_ERROR. The error is also logged
+   * unless a listener is registered for EVENT_BUS_EVENTS.LISTENER_ERROR.
+   */
+  private reportListenerError(error: unknown, event: string, args: unknown[]): void {
+    // A failing error listener is only logged, so errors cannot loop
+    if (event === EVENT_BUS_EVENTS.LISTENER_ERROR) {
+      console.error(`Error in listener for ${event}:`, error);
+      return;
+    }
+    
+    const handled = this.hasErrorListener();
+    try {
+      this.dispatch(EVENT_BUS_EVENTS.LISTENER_ERROR, [error, event, args]);
+    } catch (reportError) {
+      console.error(`Error in listener for ${EVENT_BUS_EVENTS.LISTENER_ERROR}:`, reportError);
+    }
+    if (!handled) {
+      console.error(`Error in listener for ${event}:`, error);
+    }
+  }
+
+  /**
+   * Whether this bus or one of its parents has a listener for EVENT_BUS_EVENTS.LISTENER_ERROR.
+   */
+  private hasErrorListener(): boolean {
+    return this.emitter.listenerCount(EVENT_BUS_EVENTS.LISTENER_ERROR) > 0 ||
+      (this.parent?.hasErrorListener() ?? false);
+  }
+
+  /**
+   * Register an interceptor for every event matching a pattern
+   * 
+   * Interceptors run before any listener of the event, from the highest priority to the lowest.
+   * They can change the arguments of the event, cancel it, or reject it with an error message
+   * that is sent to the player who caused it. Interceptors are synchronous and run for `emit`,
+   * `emitAsync` and `emitAsyncParallel`. The interceptors of a bus also run for the events of its
+   * child buses, before the interceptors of the child with the same priority.
+   * 
+   * @param pattern The event name or pattern, as for `onPattern`
+   * @param interceptor The interceptor
+   * @param options The priority of the interceptor
+   */
+  public addInterceptor(pattern: string, interceptor: EventInterceptor, options: InterceptorOptions = {}): void {
+    const registration = { pattern, regex: compilePattern(pattern), interceptor, priority: options.priority ?? 0 };
+    const index = this.interceptors.findIndex(existing => existing.priority < registration.priority);
+    if (index === -1) {
+      this.interceptors.push(registration);
+    } else {
+      this.interceptors.splice(index, 0, registration);
+    }
+  }
+
+  /**
+   * Remove an interceptor
+   * @param pattern The event name or pattern the interceptor was registered with
+   * @param interceptor The interceptor to remove
+   */
+  public removeInterceptor(pattern: string, interceptor: EventInterceptor): void {
+    const index = this.interceptors.findIndex(
+      registration => registration.pattern === pattern && registration.interceptor === interceptor
+    );
+    if (index !== -1) {
+      this.interceptors.splice(index, 1);
+    }
+  }
+
+  /**
+   * Runs the interceptors of an event and sends the error message of a rejection.
+   */
+  private intercept(event: string, args: unknown[]): InterceptionOutcome {
+    // Sorting is stable, so the parent's interceptors stay ahead of the child's with the same priority
+    const interceptors = this.getInterceptors(event).sort((a, b) => b.priority - a.priority);
+    if (interceptors.length === 0) return { cancelled: false, args };
+    
+    let cancelled = false;
+    const rejections: Array<{ message: string; player: Player | null }> = [];
+    const interception: EventInterception = {
+      event,
+      args: [...args],
+      player: args.find(isPlayer) ?? null,
+      cancel: () => {
+        cancelled = true;
+      },
+      reject: (message, player = interception.player) => {
+        cancelled = true;
+        rejections.push({ message, player });
+      }
+    };
+    
+    for (const { interceptor } of interceptors) {
+      try {
+        interceptor(interception);
+      } catch (error) {
+        interception.reject(error instanceof Error ? error.message : "Request rejected");
+      }
+      if (cancelled) break;
+    }
+    
+    for (const { message, player } of rejections) {
+      player?.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.REJECTED,
+        message
+      });
+    }
+    
+    return { cancelled, args: interception.args };
+  }
+
+  /**
+   * Gets the interceptors of an event registered on the parent buses and on this bus.
+   */
+  private getInterceptors(event: string): InterceptorRegistration[] {
+    const inherited = this.parent ? this.parent.getInterceptors(event) : [];
+    return [...inherited, ...this.interceptors.filter(registration => registration.regex.test(event))];
+  }
+
+  /**
+   * Create a child bus, scoped to part of the application such as a table
+   * 
+   * Events emitted on the child reach the child's listeners first and then bubble up to this
+   * bus and its parents. Events emitted on this bus do not reach the child, so listeners on
+   * the child only receive events of its scope. The interceptors of this bus also run for the
+   * events of the child.
+   * 
+   * @returns The child bus
+   */
+  public createChild(): EventBus<TMap> {
+    const child = new EventBus<TMap>();
+    child.parent = this;
+    this.children.add(child);
+    return child;
+  }
+
+  /**
+   * Remove all listeners and interceptors of this bus and dispose its child buses
+   * 
+   * Events emitted on a disposed child bus still bubble up to its parent, so the last events
+   * of a scope, such as a removed table, are not lost.
+   */
+  public dispose(): void {
+    for (const child of this.children) {
+      child.dispose();
+    }
+    this.children.clear();
+    this.emitter.removeAllListeners();
+    this.patternSubscriptions = [];
+    this.interceptors = [];
+    this.debugListener = undefined;
+    this.parent?.children.delete(this);
+    this.disposed = true;
+  }
+
+  /**
+   * Whether this bus has been disposed
+   * @returns True if `dispose` has been called
+   */
+  public isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  /**
+   * Register a listener for every event matching a pattern
+   * 
+   * Segments are separated by colons. `*` matches exactly one segment and `**` matches
+   * one or more segments, so `table:*` matches `table:created` and `table:**` also
+   * matches `table:player:sat`. A `*` inside a segment, as in `table:deck:*ed`, matches
+   * any characters of that segment.
+   * 
+   * @param pattern The pattern of the events to listen for
+   * @param listener The callback function, called with the event name followed by the event's arguments
+   */
+  public onPattern(pattern: string, listener: PatternListener): void {
+    this.patternSubscriptions.push({ pattern, regex: compilePattern(pattern), listener });
+  }
+
+  /**
+   * Remove a listener registered with `onPattern`
+   * @param pattern The pattern the listener was registered with
+   * @param listener The callback function to remove
+   */
+  public offPattern(pattern: string, listener: PatternListener): void {
+    const index = this.patternSubscriptions.findIndex(
+      subscription => subscription.pattern === pattern && subscription.listener === listener
+    );
+    if (index !== -1) {
+      this.patternSubscriptions.splice(index, 1);
+    }
+  }
+
+  /**
+   * Register a listener for every event
+   * @param listener The callback function, called with the event name followed by the event's arguments
+   */
+  public onAny(listener: PatternListener): void {
+    this.onPattern("**", listener);
+  }
+
+  /**
+   * Remove a listener registered with `onAny`
+   * @param listener The callback function to remove
+   */
+  public offAny(listener: PatternListener): void {
+    this.offPattern("**", listener);
   }
 
   /**
    * Get the number of listeners for an event
    * @param event The event to check
-   * @returns The number of listeners for the event
+   * @returns The number of listeners for the event, including wildcard listeners whose pattern matches it
    */
-  public listenerCount(event: EventType | string): number {
-    return this.emitter.listenerCount(event);
+  public listenerCount(event: string): number {
+    const patternCount = this.patternSubscriptions.filter(subscription => subscription.regex.test(event)).length;
+    return this.emitter.listenerCount(event) + patternCount;
   }
 
   /**
@@ -116,18 +594,20 @@ export class EventBus {
   public debugMonitor(
     enabled: boolean = true, 
     filter?: (event: string) => boolean,
-    logger: (event: string, ...args: any[]) => void = console.log
+    logger: (event: string, ...args: unknown[]) => void = console.log
   ): void {
-    this.debugEnabled = enabled;
-    this.debugFilter = filter;
-    this.debugLogger = logger;
+    if (this.debugListener) {
+      this.offAny(this.debugListener);
+      this.debugListener = undefined;
+    }
     
-    // For testing purposes, add a listener to a special event named '*'
-    // This doesn't actually catch all events, but it's useful for testing the listenerCount
     if (enabled) {
-      this.emitter.on('*', () => {});
-    } else {
-      this.emitter.removeAllListeners('*');
+      this.debugListener = (event, ...args) => {
+        if (!filter || filter(event)) {
+          logger(`[EVENT] ${event}`, ...args);
+        }
+      };
+      this.onAny(this.debugListener);
     }
   }
-} 
\ No newline at end of file
+}
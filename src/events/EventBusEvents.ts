@@ -0,0 +1,18 @@
+/**
+ * EventBus events.
+ * 
+ * These events are emitted by the EventBus itself, for example when a listener fails.
+ */
+export const EVENT_BUS_EVENTS = {
+    LISTENER_ERROR: "eventbus:listener:error"
+} as const;
+
+/**
+ * These are the payload structures for native EventBus events.
+ * 
+ * You can use these payloads to monitor the listeners of the EventBus.
+ */
+export interface DefaultEventBusEventPayloadMap {
+    // The error thrown or rejected by the listener, and the event it was listening to
+    [EVENT_BUS_EVENTS.LISTENER_ERROR]: [error: unknown, event: string, args: any[]];
+}
@@ -10,9 +10,13 @@ import {
   TABLE_EVENTS, 
   DefaultTableEventPayloadMap 
 } from "./TableEvents";
+import { 
+  EVENT_BUS_EVENTS, 
+  DefaultEventBusEventPayloadMap 
+} from "./EventBusEvents";
 
 // Re-export the event constants so they can be imported from EventTypes.ts
-export { LOBBY_EVENTS, PLAYER_EVENTS, TABLE_EVENTS };
+export { LOBBY_EVENTS, PLAYER_EVENTS, TABLE_EVENTS, EVENT_BUS_EVENTS };
 
 /**
  * Interface for custom event maps that consumers of the library can extend
@@ -52,6 +56,19 @@ export { LOBBY_EVENTS, PLAYER_EVENTS, TABLE_EVENTS };
  *   }
  * }
  * ```
+ * 
+ * An entry can also be a payload map, so the EventBus type checks the payloads of its events:
+ * ```
+ * interface PokerEventPayloadMap {
+ *   [POKER_EVENTS.PLAYER_RAISED]: [table: Table, player: Player, amount: number];
+ * }
+ * 
+ * declare module "shoehive" {
+ *   interface CustomEventMap {
+ *     pokerEvents: PokerEventPayloadMap;
+ *   }
+ * }
+ * ```
  */
 export interface CustomEventMap {}
 
@@ -59,12 +76,19 @@ export interface CustomEventMap {}
 export type PlayerEventType = typeof PLAYER_EVENTS[keyof typeof PLAYER_EVENTS];
 export type TableEventType = typeof TABLE_EVENTS[keyof typeof TABLE_EVENTS];
 export type LobbyEventType = typeof LOBBY_EVENTS[keyof typeof LOBBY_EVENTS];
+export type EventBusEventType = typeof EVENT_BUS_EVENTS[keyof typeof EVENT_BUS_EVENTS];
 
 // Create a union type of all built-in possible event names
-export type BuiltInEventType = PlayerEventType | TableEventType | LobbyEventType;
+export type BuiltInEventType = PlayerEventType | TableEventType | LobbyEventType | EventBusEventType;
+
+// The event names of each CustomEventMap entry, whether it is a union of names or a payload map
+type CustomEventNames<T> = T extends string ? T : Extract<keyof T, string>;
+
+// Create a union type of all custom event names
+export type CustomEventType = { [K in keyof CustomEventMap]: CustomEventNames<CustomEventMap[K]> }[keyof CustomEventMap];
 
 // Combined event type including built-in and custom events
-export type EventType = BuiltInEventType | (CustomEventMap extends Record<string, infer E> ? E : never);
+export type EventType = BuiltInEventType | CustomEventType;
 
 // Helper type to extract the payload type for a specific event
 export type EventPayloadMap<TMap extends Record<string, any>> = {
@@ -81,11 +105,28 @@ export type EventPayloadMap<TMap extends Record<string, any>> = {
 export type DefaultEventPayloadMap = 
   DefaultPlayerEventPayloadMap & 
   DefaultTableEventPayloadMap & 
-  DefaultLobbyEventPayloadMap;
+  DefaultLobbyEventPayloadMap & 
+  DefaultEventBusEventPayloadMap;
+
+type UnionToIntersection<U> = (U extends any ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+/**
+ * The payloads of the custom events declared with payload maps in `CustomEventMap`.
+ */
+export type CustomEventPayloadMap = UnionToIntersection<
+  { [K in keyof CustomEventMap]: CustomEventMap[K] extends string ? never : CustomEventMap[K] }[keyof CustomEventMap]
+>;
+
+/**
+ * The payloads of all events known to the EventBus: the built-in events and the
+ * custom events declared with payload maps in `CustomEventMap`.
+ */
+export type EventPayloads = DefaultEventPayloadMap & CustomEventPayloadMap;
 
 // Export all event constants in a single object for convenience
 export const EVENTS = {
   PLAYER: PLAYER_EVENTS,
   TABLE: TABLE_EVENTS,
   LOBBY: LOBBY_EVENTS,
+  EVENT_BUS: EVENT_BUS_EVENTS,
 } as const;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { Lobby } from "../core/Lobby";
+import { Lobby, LobbyState } from "../core/Lobby";
 
 /**
  * Lobby events.
@@ -18,7 +18,7 @@ export const LOBBY_EVENTS = {
  * You can use these payloads to listen for changes in the lobby state, or to trigger actions based on lobby events.
  */
 export interface DefaultLobbyEventPayloadMap {
-    [LOBBY_EVENTS.UPDATED]: [lobby: Lobby];
+    [LOBBY_EVENTS.UPDATED]: [lobbyState: LobbyState];
     [LOBBY_EVENTS.ATTRIBUTE_CHANGED]: [lobby: Lobby, key: string, value: any];
     [LOBBY_EVENTS.ATTRIBUTES_CHANGED]: [lobby: Lobby, changedKeys: string[], attributes: Record<string, any>];
 }
\ No newline at end of file
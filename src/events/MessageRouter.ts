@@ -1,22 +1,152 @@
 import { Player } from "../core/Player";
+import type { Table } from "../core/Table";
 import { EventBus } from "./EventBus";
-import { CLIENT_MESSAGE_TYPES, CLIENT_COMMAND_TYPES } from "../core/commands/index";
+import { PLAYER_EVENTS } from "./PlayerEvents";
+import {
+  CLIENT_MESSAGE_TYPES,
+  CLIENT_COMMAND_TYPES,
+  CLIENT_ERROR_CODES,
+  CommandError,
+  CommandRequest,
+  CommandFieldSchema,
+  CommandSchema,
+  CommandData,
+  RequestId,
+  runInCommandRequest,
+  endCommandRequest,
+  validateCommand,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES
+} from "../core/commands/index";
+import { JSON_CODEC, MessageCodec } from "../core/codec/index";
+import { requireTable } from "./CommandMiddleware";
 
-interface Message {
+/**
+ * The result of a command, sent to the client as a `response` message when the command has a request ID.
+ */
+export interface CommandResult {
+  success: boolean;
+  /** The data of a successful command. */
+  data?: unknown;
+  /** The error of a failed command. */
+  error?: CommandError;
+}
+
+/**
+ * What handling a command returns: nothing, its result, or a promise of either.
+ */
+export type CommandOutcome = void | CommandResult | Promise<void | CommandResult>;
+
+/**
+ * A command on its way through the middleware of the MessageRouter.
+ */
+export interface CommandContext {
+  readonly player: Player;
+  readonly action: string;
+  /** The command, including its action. */
+  readonly data: CommandData;
+  /** Values attached by middleware for the middleware after them and the handler. */
+  readonly state: Record<string, any>;
+  /**
+   * Sends an error message to the player and returns the failed result of the command.
+   * Middleware reject a command by returning this result instead of calling `next`.
+   * @param code The error code
+   * @param message The error message
+   */
+  reject(code: string, message: string): CommandResult;
+}
+
+/**
+ * Middleware run before the handler of a command. It calls `next` to pass the command on and
+ * returns what `next` returns, or rejects the command by returning `context.reject(...)`.
+ */
+export type CommandMiddleware = (context: CommandContext, next: () => CommandOutcome) => CommandOutcome;
+
+/**
+ * Handles a command of a player. A handler can return the result of the command, or a promise of it.
+ * Without a result, the command succeeded unless an error was sent to the player while it was handled.
+ * The context holds the values middleware attached to the command.
+ *
+ * The command is typed after the schema the handler is registered with (see `CommandData`).
+ */
+export type CommandHandler<TData extends CommandData = CommandData> = (player: Player, data: TData, context: CommandContext) => CommandOutcome;
+
+/**
+ * A command of a protocol description.
+ */
+export interface ProtocolCommandDescription {
   action: string;
-  tableId?: string;
-  [key: string]: any;
+  description?: string;
+  /** The fields of the command, or undefined if the command has no schema and is not validated. */
+  fields?: Record<string, CommandFieldSchema>;
+}
+
+/**
+ * A machine-readable description of the protocol between the clients and the game server.
+ */
+export interface ProtocolDescription {
+  /** The current version of the protocol. */
+  version: number;
+  /** The oldest version of the protocol the server supports. */
+  minVersion: number;
+  /** The optional features the server supports. */
+  features: string[];
+  /** The commands clients can send, sorted by action. */
+  commands: ProtocolCommandDescription[];
+  /** The types of the messages the server sends. */
+  messageTypes: string[];
+  /** The codes of the errors the server sends. */
+  errorCodes: string[];
+}
+
+// Client seeds are hashed into the shuffle seed, so there is no need for long ones
+const MAX_CLIENT_SEED_LENGTH = 256;
+
+const TABLE_ID_FIELD = { type: "string", minLength: 1, description: "The ID of the table" } as const;
+const GAME_ID_FIELD = { type: "string", minLength: 1, description: "The ID of the game" } as const;
+const TABLE_OPTIONS_FIELD = { type: "object", optional: true, description: "The options of the table" } as const;
+const SEAT_INDEX_FIELD = { type: "integer", minimum: 0, description: "The index of the seat" } as const;
+
+// Closes connections that speak a version of the protocol the server does not support
+const PROTOCOL_ERROR_CLOSE_CODE = 1002;
+
+// Events of these namespaces are emitted by the server itself, so clients can never forward them
+const INTERNAL_NAMESPACES = ["player", "table", "lobby", "request", "eventbus"];
+
+function isInternalAction(action: string): boolean {
+  return INTERNAL_NAMESPACES.some(namespace => action === namespace || action.startsWith(`${namespace}:`));
+}
+
+interface MiddlewareRegistration {
+  prefix: string | null;
+  middleware: CommandMiddleware;
+}
+
+function isRequestId(value: unknown): value is RequestId {
+  return (typeof value === "string" && value.length > 0) || (typeof value === "number" && Number.isFinite(value));
 }
 
 export class MessageRouter {
   private eventBus: EventBus;
-  private commandHandlers: Map<string, (player: Player, data: any) => void>;
+  private commandHandlers: Map<string, CommandHandler>;
+  private commandSchemas: Map<string, CommandSchema>;
+  private handlerMiddleware: Map<string, CommandMiddleware[]>;
+  private customActions: Set<string>;
+  private middleware: MiddlewareRegistration[];
+  private protocolFeatures: Set<string>;
 
   constructor(eventBus: EventBus) {
     this.eventBus = eventBus;
     this.commandHandlers = new Map();
+    this.commandSchemas = new Map();
+    this.handlerMiddleware = new Map();
+    this.customActions = new Set();
+    this.middleware = [];
+    this.protocolFeatures = new Set(Object.values(PROTOCOL_FEATURES));
     
     // Register built-in command handlers
+    this.registerProtocolCommandHandlers();
     this.registerStateCommandHandlers();
     this.registerLobbyCommandHandlers();
     this.registerTableCommandHandlers();
@@ -26,14 +156,194 @@ export class MessageRouter {
    * Register a command handler for a specific action. For example, if you
    * want a user to be able to make a choice, you could register `game:choice:make`
    * and then handle it in your game logic.
+   * 
+   * With a schema, commands are validated before the handler is called, and invalid commands
+   * are answered with a `MISSING_PARAMETER` or `INVALID_PARAMETER` error. Without a schema,
+   * the schema already registered for the action is kept.
+   * 
+   * The middleware of a handler run after the router's middleware and the validation of the
+   * command, and are replaced along with the handler.
    * @param action - The action to register the handler for
    * @param handler - The handler function to be called when the action is received
+   * @param schema - The schema of the command payload, which the command passed to the handler is typed after
+   * @param middleware - The middleware to run before the handler, in order
    */
-  public registerCommandHandler(
+  public registerCommandHandler<S extends CommandSchema = CommandSchema>(
     action: string,
-    handler: (player: Player, data: any) => void
+    handler: CommandHandler<CommandData<S>>,
+    schema?: S,
+    middleware: CommandMiddleware[] = []
   ): void {
-    this.commandHandlers.set(action, handler);
+    this.commandHandlers.set(action, handler as CommandHandler);
+    this.handlerMiddleware.set(action, [...middleware]);
+    if (schema) {
+      this.commandSchemas.set(action, schema);
+    }
+  }
+
+  /**
+   * Add middleware for every command, or for the commands of a prefix. A prefix matches the
+   * action itself and the actions below it, so `table` matches `table:seat:sit` but not `tables:list`.
+   * 
+   * Middleware run in the order they were added, before the command is validated against its
+   * schema, and for commands that are emitted as events as well as for handled ones.
+   * @param prefixOrMiddleware - The prefix of the actions, or the middleware for every command
+   * @param middleware - The middleware, if a prefix is given
+   */
+  public use(middleware: CommandMiddleware): void;
+  public use(prefix: string, middleware: CommandMiddleware): void;
+  public use(prefixOrMiddleware: string | CommandMiddleware, middleware?: CommandMiddleware): void {
+    if (typeof prefixOrMiddleware === "string") {
+      if (middleware) {
+        this.middleware.push({ prefix: prefixOrMiddleware, middleware });
+      }
+    } else {
+      this.middleware.push({ prefix: null, middleware: prefixOrMiddleware });
+    }
+  }
+
+  /**
+   * Remove middleware added with `use`
+   * @param middleware - The middleware to remove, for every prefix it was added for
+   */
+  public removeMiddleware(middleware: CommandMiddleware): void {
+    this.middleware = this.middleware.filter(registration => registration.middleware !== middleware);
+  }
+
+  /**
+   * Register the schema of a command without replacing its handler. Commands are validated
+   * against it whether they are handled or forwarded as custom actions.
+   * @param action - The action of the command
+   * @param schema - The schema of the command payload
+   */
+  public registerCommandSchema(action: string, schema: CommandSchema): void {
+    this.commandSchemas.set(action, schema);
+  }
+
+  /**
+   * Register a custom action. Commands without a handler are only emitted as events on the
+   * EventBus if their action is registered, so clients cannot emit other events. Commands with
+   * any other action are rejected with `UNKNOWN_ACTION` and reported with `player:command:rejected`.
+   * 
+   * Actions of the namespaces the server emits its own events in (`player`, `table`, `lobby`,
+   * `request` and `eventbus`) cannot be registered.
+   * @param action - The action, which is also the name of the event
+   * @param schema - The schema of the command payload
+   * @throws If the action is in an internal namespace
+   */
+  public registerCustomAction(action: string, schema?: CommandSchema): void {
+    if (isInternalAction(action)) {
+      throw new Error(`The action ${action} is in an internal event namespace`);
+    }
+
+    this.customActions.add(action);
+    if (schema) {
+      this.commandSchemas.set(action, schema);
+    }
+  }
+
+  /**
+   * Unregister a custom action, so commands with the action are rejected again
+   * @param action - The action to unregister
+   */
+  public unregisterCustomAction(action: string): void {
+    this.customActions.delete(action);
+  }
+
+  /**
+   * Check whether commands with an action are handled or forwarded, rather than rejected
+   * @param action - The action of the command
+   * @returns True if the action has a handler or is a registered custom action
+   */
+  public isActionAllowed(action: string): boolean {
+    return this.commandHandlers.has(action) || this.customActions.has(action);
+  }
+
+  /**
+   * Get the schema of a command.
+   * @param action - The action of the command
+   * @returns The schema, or undefined if the command has none
+   */
+  public getCommandSchema(action: string): CommandSchema | undefined {
+    return this.commandSchemas.get(action);
+  }
+
+  /**
+   * Describe the commands the router accepts, the message types the server sends and the
+   * error codes, for example to generate a client. The description is plain JSON.
+   * @returns The protocol description
+   */
+  public getProtocolDescription(): ProtocolDescription {
+    const actions = new Set([...this.commandHandlers.keys(), ...this.customActions]);
+
+    return {
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION,
+      features: Array.from(this.protocolFeatures).sort(),
+      commands: Array.from(actions).sort().map(action => {
+        const schema = this.commandSchemas.get(action);
+        return {
+          action,
+          ...(schema?.description !== undefined ? { description: schema.description } : {}),
+          ...(schema ? { fields: JSON.parse(JSON.stringify(schema.fields ?? {})) } : {})
+        };
+      }),
+      messageTypes: Object.values(CLIENT_MESSAGE_TYPES).flatMap(type =>
+        typeof type === "string" ? [type] : Object.values(type)
+      ),
+      errorCodes: Object.values(CLIENT_ERROR_CODES)
+    };
+  }
+
+  /**
+   * Declare a protocol feature the server supports, so clients can negotiate it in their handshake
+   * @param feature - The name of the feature
+   */
+  public registerProtocolFeature(feature: string): void {
+    this.protocolFeatures.add(feature);
+  }
+
+  /**
+   * Register the handler of the protocol handshake
+   */
+  private registerProtocolCommandHandlers(): void {
+    // Handshake, negotiates the highest version both sides speak and the features both sides support
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.PROTOCOL.HELLO, (player, data) => {
+      const version = Math.min(data.version, PROTOCOL_VERSION);
+      if (version < Math.max(MIN_PROTOCOL_VERSION, data.minVersion ?? MIN_PROTOCOL_VERSION)) {
+        player.sendMessage({
+          type: CLIENT_MESSAGE_TYPES.ERROR,
+          code: CLIENT_ERROR_CODES.UNSUPPORTED_PROTOCOL_VERSION,
+          message: `The server supports protocol versions ${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}`,
+          minVersion: MIN_PROTOCOL_VERSION,
+          maxVersion: PROTOCOL_VERSION
+        });
+        player.disconnect(PROTOCOL_ERROR_CLOSE_CODE, "Unsupported protocol version");
+        return;
+      }
+
+      const features = Array.from(new Set<string>(data.features ?? []))
+        .filter(feature => this.protocolFeatures.has(feature));
+      player.setProtocol(version, features);
+      player.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.PROTOCOL.WELCOME,
+        data: {
+          version,
+          minVersion: MIN_PROTOCOL_VERSION,
+          maxVersion: PROTOCOL_VERSION,
+          features
+        }
+      });
+
+      this.eventBus.emit(PLAYER_EVENTS.PROTOCOL_NEGOTIATED, player, version, features);
+    }, {
+      description: "Negotiates the protocol version and features of the connection",
+      fields: {
+        version: { type: "integer", minimum: 1, description: "The highest protocol version the client speaks" },
+        minVersion: { type: "integer", minimum: 1, optional: true, description: "The lowest protocol version the client speaks" },
+        features: { type: "array", items: { type: "string" }, optional: true, description: "The protocol features the client supports" }
+      }
+    });
   }
 
   /**
@@ -41,7 +351,7 @@ export class MessageRouter {
    */
   private registerStateCommandHandlers(): void {
     // Player state
-    this.registerCommandHandler(CLIENT_COMMAND_TYPES.PLAYER.GET_STATE, (player, data) => {
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.PLAYER.GET_STATE, (player) => {
       player.sendMessage({
         type: CLIENT_MESSAGE_TYPES.PLAYER.STATE,
         data: {
@@ -49,28 +359,56 @@ export class MessageRouter {
           attributes: player.getAttributes()
         }
       });
-    });
+    }, { description: "Requests the state of the player" });
     
     // Table state
-    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.GET_STATE, (player, data) => {
-      const table = player.getTable();
-      if (table) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.TABLE.STATE,
-          data: table.getTableState()
-        });
-      } else {
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.GET_STATE, (player, data, context) => {
+      context.state.table.sendTableState(player);
+    }, { description: "Requests the state of the player's table" }, [requireTable]);
+    
+    // Table state acknowledgement, enables patch updates for the player
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.ACK_STATE, (player, data, context) => {
+      const table: Table = context.state.table;
+
+      // Clients that did not negotiate patches keep getting full snapshots
+      if (!player.hasProtocolFeature(PROTOCOL_FEATURES.STATE_PATCHES)) return;
+
+      // An unknown version means the client is out of sync, so send a full snapshot
+      if (!table.acknowledgeState(player.id, data.version)) {
+        table.sendTableState(player);
+      }
+    }, {
+      description: "Acknowledges a table state version, so the next updates are sent as patches",
+      fields: {
+        version: { type: "integer", description: "The version of the last table state the client applied" }
+      }
+    }, [requireTable]);
+
+    // Table state resync, sends a full snapshot
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.RESYNC_STATE, (player, data, context) => {
+      context.state.table.sendTableState(player);
+    }, { description: "Requests a full snapshot of the state of the player's table" }, [requireTable]);
+
+    // Client seed for a provably fair shuffle
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.DECK_SEED, (player, data, context) => {
+      if (!context.state.table.addClientSeed(player.id, data.seed)) {
         player.sendMessage({
           type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "You are not at a table"
+          code: CLIENT_ERROR_CODES.CLIENT_SEED_FAILED,
+          message: "Failed to add client seed"
         });
       }
-    });
+    }, {
+      description: "Contributes a client seed to the provably fair shuffle of the player's table",
+      fields: {
+        seed: { type: "string", minLength: 1, maxLength: MAX_CLIENT_SEED_LENGTH }
+      }
+    }, [requireTable]);
     
     // Lobby state
-    this.registerCommandHandler(CLIENT_COMMAND_TYPES.LOBBY.GET_STATE, (player, data) => {
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.LOBBY.GET_STATE, (player) => {
       this.eventBus.emit('request:lobby:state', player);
-    });
+    }, { description: "Requests the state of the lobby" });
   }
 
   /**
@@ -79,28 +417,18 @@ export class MessageRouter {
   private registerLobbyCommandHandlers(): void {
     // Join table
     this.registerCommandHandler(CLIENT_COMMAND_TYPES.LOBBY.JOIN_TABLE, (player, data) => {
-      if (!data.tableId) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "Missing tableId parameter"
-        });
-        return;
-      }
-
       this.eventBus.emit('request:table:join', player, data.tableId);
+    }, {
+      description: "Joins a table as a player",
+      fields: { tableId: TABLE_ID_FIELD }
     });
 
     // Create table
     this.registerCommandHandler(CLIENT_COMMAND_TYPES.LOBBY.CREATE_TABLE, (player, data) => {
-      if (!data.gameId) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "Missing gameId parameter"
-        });
-        return;
-      }
-
       this.eventBus.emit('request:table:create', player, data.gameId, data.options);
+    }, {
+      description: "Creates a table and joins it",
+      fields: { gameId: GAME_ID_FIELD, options: TABLE_OPTIONS_FIELD }
     });
   }
 
@@ -110,115 +438,241 @@ export class MessageRouter {
   private registerTableCommandHandlers(): void {
     // Join table
     this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.JOIN, (player, data) => {
-      if (!data.tableId) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "Missing tableId parameter"
-        });
-        return;
-      }
-
       this.eventBus.emit('request:table:join', player, data.tableId);
+    }, {
+      description: "Joins a table as a player",
+      fields: { tableId: TABLE_ID_FIELD }
     });
 
-    // Leave table
-    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.LEAVE, (player, data) => {
-      const table = player.getTable();
-      if (!table) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "You are not at a table"
-        });
-        return;
-      }
-
-      this.eventBus.emit('request:table:leave', player, table.id);
+    // Join table as a spectator
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SPECTATE, (player, data) => {
+      this.eventBus.emit('request:table:spectate', player, data.tableId);
+    }, {
+      description: "Joins a table as a spectator",
+      fields: { tableId: TABLE_ID_FIELD }
     });
 
+    // Switch between spectator and player
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SWITCH_ROLE, (player, data, context) => {
+      this.eventBus.emit('request:table:role:switch', player, context.state.table.id, data.role);
+    }, {
+      description: "Switches between player and spectator at the player's table",
+      fields: { role: { type: "string", enum: ["player", "spectator"] } }
+    }, [requireTable]);
+
+    // Leave table
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.LEAVE, (player, data, context) => {
+      this.eventBus.emit('request:table:leave', player, context.state.table.id);
+    }, { description: "Leaves the player's table" }, [requireTable]);
+
     // Create table
     this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.CREATE, (player, data) => {
-      if (!data.gameId) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "Missing gameId parameter"
-        });
-        return;
-      }
-
       this.eventBus.emit('request:table:create', player, data.gameId, data.options);
+    }, {
+      description: "Creates a table and joins it",
+      fields: { gameId: GAME_ID_FIELD, options: TABLE_OPTIONS_FIELD }
     });
 
     // Sit at seat
-    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, (player, data) => {
-      const table = player.getTable();
-      if (!table) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "You are not at a table"
-        });
-        return;
-      }
-
-      if (data.seatIndex === undefined || data.seatIndex === null) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "Missing seatIndex parameter"
-        });
-        return;
-      }
-
-      this.eventBus.emit('request:table:seat:sit', player, table.id, data.seatIndex);
-    });
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, (player, data, context) => {
+      this.eventBus.emit('request:table:seat:sit', player, context.state.table.id, data.seatIndex);
+    }, {
+      description: "Sits at a seat of the player's table",
+      fields: { seatIndex: SEAT_INDEX_FIELD }
+    }, [requireTable]);
 
     // Stand from seat
-    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_STAND, (player, data) => {
-      const table = player.getTable();
-      if (!table) {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "You are not at a table"
-        });
-        return;
-      }
-
-      this.eventBus.emit('request:table:seat:stand', player, table.id);
-    });
+    this.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_STAND, (player, data, context) => {
+      this.eventBus.emit('request:table:seat:stand', player, context.state.table.id);
+    }, { description: "Stands up from the player's seats" }, [requireTable]);
   }
 
   /**
    * Process a message from the client.
+   * 
+   * A message can have a `requestId`. While the command is handled, the messages sent to the player
+   * are tagged with it, and once it is handled, a `response` message with the result is sent.
    * @param player - The player object
-   * @param messageStr - The message string to process
+   * @param data - The encoded message to process
+   * @param codec - The codec the message is encoded with, JSON by default
    */
-  public processMessage(player: Player, messageStr: string): void {
+  public processMessage(player: Player, data: string | Buffer, codec: MessageCodec = JSON_CODEC): void {
+    let message: CommandData;
     try {
-      const message = JSON.parse(messageStr) as Message;
-      
-      // Validate message format
-      if (!message.action || typeof message.action !== "string") {
-        player.sendMessage({
-          type: CLIENT_MESSAGE_TYPES.ERROR,
-          message: "Invalid message format: missing or invalid action"
-        });
+      message = codec.decode(data) as CommandData;
+    } catch (error) {
+      console.error("Error processing message:", error);
+      player.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.INVALID_MESSAGE,
+        message: "Failed to process message"
+      });
+      return;
+    }
+
+    const requestId = isRequestId(message?.requestId) ? message.requestId : undefined;
+
+    // Validate message format
+    if (!message || typeof message !== "object" || !message.action || typeof message.action !== "string") {
+      player.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.INVALID_MESSAGE,
+        message: "Invalid message format: missing or invalid action",
+        ...(requestId !== undefined ? { requestId } : {})
+      });
+      return;
+    }
+
+    if (message.requestId !== undefined && requestId === undefined) {
+      player.sendMessage({
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.INVALID_PARAMETER,
+        message: "Invalid requestId parameter"
+      });
+      return;
+    }
+
+    const request: CommandRequest | null = requestId !== undefined
+      ? { playerId: player.id, action: message.action, requestId, errors: [] }
+      : null;
+
+    let result: CommandOutcome;
+    try {
+      result = request
+        ? runInCommandRequest(request, () => this.dispatch(player, message))
+        : this.dispatch(player, message);
+    } catch (error) {
+      this.handleCommandError(player, request, error);
+      return;
+    }
+
+    if (result instanceof Promise) {
+      result.then(
+        value => this.respond(player, request, value),
+        error => this.handleCommandError(player, request, error)
+      );
+    } else {
+      this.respond(player, request, result);
+    }
+  }
+
+  /**
+   * Rejects a message with an unknown action, or passes it through the middleware of its action, validates
+   * it against the schema of the action, and passes it to the handler of the action or emits it as a custom action.
+   */
+  private dispatch(player: Player, message: CommandData): CommandOutcome {
+    if (!this.isActionAllowed(message.action)) {
+      const error: CommandError = { code: CLIENT_ERROR_CODES.UNKNOWN_ACTION, message: "Unknown action" };
+      player.sendMessage({ type: CLIENT_MESSAGE_TYPES.ERROR, ...error });
+      this.eventBus.emit(PLAYER_EVENTS.COMMAND_REJECTED, player, message, error);
+      return;
+    }
+
+    const handler = this.commandHandlers.get(message.action);
+    const context: CommandContext = {
+      player,
+      action: message.action,
+      data: message,
+      state: {},
+      reject: (code, errorMessage) => {
+        const error: CommandError = { code, message: errorMessage };
+        player.sendMessage({ type: CLIENT_MESSAGE_TYPES.ERROR, ...error });
+        return { success: false, error };
+      }
+    };
+
+    const validate: CommandMiddleware = (_context, next) => {
+      const schema = this.commandSchemas.get(message.action);
+      const error = schema ? validateCommand(schema, message) : null;
+      if (error) {
+        player.sendMessage({ type: CLIENT_MESSAGE_TYPES.ERROR, ...error });
         return;
       }
+      return next();
+    };
+
+    const middleware = [
+      ...this.middleware
+        .filter(({ prefix }) => prefix === null || message.action === prefix || message.action.startsWith(`${prefix}:`))
+        .map(registration => registration.middleware),
+      validate,
+      ...(handler ? this.handlerMiddleware.get(message.action) ?? [] : [])
+    ];
+
+    const run = (index: number): CommandOutcome => {
+      if (index < middleware.length) {
+        let called = false;
+        return middleware[index](context, () => {
+          if (called) {
+            throw new Error(`next() called more than once for ${message.action}`);
+          }
+          called = true;
+          return run(index + 1);
+        });
+      }
+
+      // Let recorders and other observers see every command that passed the middleware and validation
+      this.eventBus.emit(PLAYER_EVENTS.COMMAND_RECEIVED, player, message);
 
       // First check if we have a registered command handler for this action
-      const handler = this.commandHandlers.get(message.action);
       if (handler) {
-        handler(player, message);
-        return;
+        return handler(player, message, context);
       }
 
-      // Otherwise, treat it as an event
+      // Otherwise, forward the custom action as an event
       this.eventBus.emit(message.action, player, message);
-      
-    } catch (error) {
-      console.error("Error processing message:", error);
+    };
+
+    return run(0);
+  }
+
+  /**
+   * Sends the response to a command with a request ID. Without an explicit result, the command
+   * failed with the first error sent to the player while it was handled.
+   */
+  private respond(player: Player, request: CommandRequest | null, result: void | CommandResult): void {
+    if (!request) return;
+    endCommandRequest(request);
+
+    const success = result ? result.success : request.errors.length === 0;
+    if (success) {
       player.sendMessage({
-        type: CLIENT_MESSAGE_TYPES.ERROR,
-        message: "Failed to process message"
+        type: CLIENT_MESSAGE_TYPES.RESPONSE,
+        requestId: request.requestId,
+        action: request.action,
+        success: true,
+        ...(result && result.data !== undefined ? { data: result.data } : {})
       });
+      return;
     }
+
+    player.sendMessage({
+      type: CLIENT_MESSAGE_TYPES.RESPONSE,
+      requestId: request.requestId,
+      action: request.action,
+      success: false,
+      error: (result && result.error) ?? request.errors[0] ?? {
+        code: CLIENT_ERROR_CODES.COMMAND_FAILED,
+        message: "Command failed"
+      }
+    });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Reports a command handler that threw or rejected to the player: in the failed response to a
+   * command with a request ID, or otherwise in an `error` message.
+   */
+  private handleCommandError(player: Player, request: CommandRequest | null, error: unknown): void {
+    console.error("Error processing message:", error);
+
+    const commandError: CommandError = {
+      code: CLIENT_ERROR_CODES.INTERNAL_ERROR,
+      message: "Failed to process message"
+    };
+    if (request) {
+      this.respond(player, request, { success: false, error: commandError });
+      return;
+    }
+    player.sendMessage({ type: CLIENT_MESSAGE_TYPES.ERROR, ...commandError });
+  }
+}
@@ -1,4 +1,6 @@
 import { Player } from "../core/Player";
+import { CommandError } from "../core/commands/CommandRequest";
+import type { CommandData } from "../core/commands/CommandSchema";
 
 /**
  * Player events.
@@ -17,7 +19,12 @@ export const PLAYER_EVENTS = {
     ATTRIBUTES_CHANGED: "player:attributes:changed",
     // Player authentication events
     AUTHENTICATION_FAILED: "player:authentication:failed",
-    AUTHENTICATION_SUCCEEDED: "player:authentication:succeeded"
+    AUTHENTICATION_SUCCEEDED: "player:authentication:succeeded",
+    // Player command events
+    COMMAND_RECEIVED: "player:command:received",
+    COMMAND_REJECTED: "player:command:rejected",
+    // Player protocol events
+    PROTOCOL_NEGOTIATED: "player:protocol:negotiated"
 } as const;
 
 /**
@@ -35,4 +42,7 @@ export interface DefaultPlayerEventPayloadMap {
   [PLAYER_EVENTS.ATTRIBUTES_CHANGED]: [player: Player, changedKeys: string[], attributes: Record<string, any>];
   [PLAYER_EVENTS.AUTHENTICATION_FAILED]: [player: Player, reason: string];
   [PLAYER_EVENTS.AUTHENTICATION_SUCCEEDED]: [player: Player];
+  [PLAYER_EVENTS.COMMAND_RECEIVED]: [player: Player, command: CommandData];
+  [PLAYER_EVENTS.COMMAND_REJECTED]: [player: Player, command: CommandData, error: CommandError];
+  [PLAYER_EVENTS.PROTOCOL_NEGOTIATED]: [player: Player, version: number, features: string[]];
 }
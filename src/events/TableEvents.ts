@@ -1,5 +1,10 @@
-import { Table } from "../core/Table";
+import { Table, TableState } from "../core/Table";
+import { Card } from "../core/card/types";
 import { Player } from "../core/Player";
+import { TurnEndReason } from "../core/TurnManager";
+import { ProvablyFairReveal } from "../core/card/ProvablyFair";
+import { Shoe } from "../core/card/Shoe";
+import { PotSettlement } from "../core/PotManager";
 
 /**
  * Table events
@@ -16,18 +21,36 @@ export const TABLE_EVENTS = {
     STATE_UPDATED: "table:state:updated",
     ATTRIBUTE_CHANGED: "table:attribute:changed",
     ATTRIBUTES_CHANGED: "table:attributes:changed",
+    PHASE_CHANGED: "table:phase:changed",
     // Player-related table events
     PLAYER_JOINED: "table:player:joined",
     PLAYER_LEFT: "table:player:left",
     PLAYER_SAT: "table:player:sat",
     PLAYER_STOOD: "table:player:stood",
+    PLAYER_ROLE_CHANGED: "table:player:role:changed",
+    // Spectator-related table events
+    SPECTATOR_JOINED: "table:spectator:joined",
+    SPECTATOR_LEFT: "table:spectator:left",
     // Player request events
     PLAYER_SIT_REQUEST: "table:player:sit:request",
     PLAYER_STAND_REQUEST: "table:player:stand:request",
+    // Turn-related table events
+    TURN_STARTED: "table:turn:started",
+    TURN_ENDED: "table:turn:ended",
+    TURN_TIMED_OUT: "table:turn:timedout",
     // Deck-related table events
     DECK_CREATED: "table:deck:created",
     DECK_SHUFFLED: "table:deck:shuffled",
     DECK_CARD_DRAWN: "table:deck:card:drawn",
+    DECK_COMMITTED: "table:deck:committed",
+    DECK_CLIENT_SEED_ADDED: "table:deck:clientseed:added",
+    DECK_REVEALED: "table:deck:revealed",
+    SHOE_CUT_CARD_REACHED: "table:shoe:cutcard:reached",
+
+    // Pot-related table events
+    POT_BET_PLACED: "table:pot:bet:placed",
+    POT_BET_FAILED: "table:pot:bet:failed",
+    POT_SETTLED: "table:pot:settled",
 
     // Card-related table events
     CARD_DEALT: "table:card:dealt",
@@ -47,21 +70,37 @@ export const TABLE_EVENTS = {
 export interface DefaultTableEventPayloadMap {
     [TABLE_EVENTS.CREATED]: [table: Table];
     [TABLE_EVENTS.EMPTY]: [table: Table];
-    [TABLE_EVENTS.STATE_UPDATED]: [table: Table];
+    // The full table state can be read with table.getTableState()
+    [TABLE_EVENTS.STATE_UPDATED]: [table: Table, state: TableState];
     [TABLE_EVENTS.ATTRIBUTE_CHANGED]: [table: Table, key: string, value: any];
     [TABLE_EVENTS.ATTRIBUTES_CHANGED]: [table: Table, changedKeys: string[], attributes: Record<string, any>];
-    [TABLE_EVENTS.PLAYER_JOINED]: [table: Table, player: Player];
-    [TABLE_EVENTS.PLAYER_LEFT]: [table: Table, player: Player];
-    [TABLE_EVENTS.PLAYER_SAT]: [table: Table, player: Player, seatIndex: number];
-    [TABLE_EVENTS.PLAYER_STOOD]: [table: Table, player: Player, seatIndex: number];
+    [TABLE_EVENTS.PHASE_CHANGED]: [table: Table, phase: string, previousPhase: string | null];
+    [TABLE_EVENTS.PLAYER_JOINED]: [player: Player, table: Table];
+    [TABLE_EVENTS.PLAYER_LEFT]: [player: Player, table: Table];
+    [TABLE_EVENTS.PLAYER_SAT]: [player: Player, table: Table, seatIndex: number];
+    [TABLE_EVENTS.PLAYER_STOOD]: [player: Player, table: Table, seatIndex: number];
+    [TABLE_EVENTS.PLAYER_ROLE_CHANGED]: [player: Player, table: Table, role: "player" | "spectator"];
+    [TABLE_EVENTS.SPECTATOR_JOINED]: [player: Player, table: Table];
+    [TABLE_EVENTS.SPECTATOR_LEFT]: [player: Player, table: Table];
     [TABLE_EVENTS.PLAYER_SIT_REQUEST]: [player: Player, table: Table, seatIndex: number];
     [TABLE_EVENTS.PLAYER_STAND_REQUEST]: [player: Player, table: Table];
-    [TABLE_EVENTS.DECK_CREATED]: [table: Table, deckId: string];
-    [TABLE_EVENTS.DECK_SHUFFLED]: [table: Table, deckId: string];
-    [TABLE_EVENTS.DECK_CARD_DRAWN]: [table: Table, deckId: string, card: any];
-    [TABLE_EVENTS.CARD_DEALT]: [table: Table, player: Player, card: any];
+    [TABLE_EVENTS.TURN_STARTED]: [table: Table, seatIndex: number, player: Player | null, deadline: number | null];
+    [TABLE_EVENTS.TURN_ENDED]: [table: Table, seatIndex: number, player: Player | null, reason: TurnEndReason];
+    [TABLE_EVENTS.TURN_TIMED_OUT]: [table: Table, seatIndex: number, player: Player | null];
+    [TABLE_EVENTS.DECK_CREATED]: [table: Table, numberOfDecks: number];
+    [TABLE_EVENTS.DECK_SHUFFLED]: [table: Table, seed: string];
+    [TABLE_EVENTS.DECK_CARD_DRAWN]: [table: Table, card: Card];
+    [TABLE_EVENTS.DECK_COMMITTED]: [table: Table, commitment: string];
+    [TABLE_EVENTS.DECK_CLIENT_SEED_ADDED]: [table: Table, player: Player, seed: string];
+    [TABLE_EVENTS.DECK_REVEALED]: [table: Table, reveal: ProvablyFairReveal];
+    [TABLE_EVENTS.SHOE_CUT_CARD_REACHED]: [table: Table, shoe: Shoe];
+    [TABLE_EVENTS.POT_BET_PLACED]: [table: Table, seatIndex: number, amount: number, seatTotal: number];
+    [TABLE_EVENTS.POT_BET_FAILED]: [table: Table, seatIndex: number, amount: number, error: unknown];
+    [TABLE_EVENTS.POT_SETTLED]: [table: Table, settlement: PotSettlement];
+    // The seat index is -1 for cards dealt to a hand that is not at a seat
+    [TABLE_EVENTS.CARD_DEALT]: [table: Table, seatIndex: number, card: Card, handId: string];
     [TABLE_EVENTS.SEAT_HAND_ADDED]: [table: Table, seatIndex: number, handId: string];
     [TABLE_EVENTS.SEAT_HAND_REMOVED]: [table: Table, seatIndex: number, handId: string];
-    [TABLE_EVENTS.SEAT_HAND_CLEARED]: [table: Table, seatIndex: number];
+    [TABLE_EVENTS.SEAT_HAND_CLEARED]: [table: Table, seatIndex: number, handId: string];
     [TABLE_EVENTS.SEATS_HANDS_CLEARED]: [table: Table];
 }
\ No newline at end of file
@@ -10,20 +10,35 @@ export {
   PLAYER_EVENTS,
   TABLE_EVENTS,
   LOBBY_EVENTS,
+  EVENT_BUS_EVENTS,
   EVENTS,
   
   // Event types
   PlayerEventType,
   TableEventType,
   LobbyEventType,
+  EventBusEventType,
   BuiltInEventType,
   CustomEventMap,
+  CustomEventType,
   EventType,
   
   // Payload types
   EventPayloadMap,
-  DefaultEventPayloadMap
+  DefaultEventPayloadMap,
+  CustomEventPayloadMap,
+  EventPayloads
 } from './EventTypes';
 
-export { EventBus } from './EventBus';
-export { MessageRouter } from './MessageRouter'; 
\ No newline at end of file
+export {
+  EventBus,
+  EventArgs,
+  EventListener,
+  PatternListener,
+  EventDispatchResult,
+  EventInterception,
+  EventInterceptor,
+  InterceptorOptions
+} from './EventBus';
+export { MessageRouter } from './MessageRouter';
+export { requireTable, requireSeat } from './CommandMiddleware'; 
\ No newline at end of file
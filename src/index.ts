@@ -1,15 +1,112 @@
 import { Player } from "./core/Player";
-import { Table, TableState } from "./core/Table";
-import { Card, CardSuit, CardRank, Deck, Hand } from "./core/card/index";
+import { Table, TableState, TableStateSnapshot, TableViewerRole, TableStateProjector, TableOptions, TableDeckOptions } from "./core/Table";
+import {
+  Card,
+  CardSuit,
+  CardRank,
+  Deck,
+  DeckOptions,
+  Shoe,
+  ShoeOptions,
+  DEFAULT_SHOE_PENETRATION,
+  DeckSpec,
+  CardValueFunction,
+  STANDARD_RANKS,
+  STANDARD_SUITS,
+  DECK_SPECS,
+  blackjackCardValue,
+  buildCards,
+  Hand,
+  HandState,
+  RandomSource,
+  CryptoRandomSource,
+  SeededRandomSource,
+  SeedSequenceSource,
+  generateSeed,
+  shuffleWithSeed,
+  ClientSeed,
+  ProvablyFairReveal,
+  getCardCode,
+  createCommitment,
+  combineSeeds,
+  recomputeShuffle,
+  verifyShuffle,
+  PokerHandCategory,
+  PokerHandResult,
+  PokerShowdownEntry,
+  PokerShowdownResult,
+  PotShare,
+  getPokerRankValue,
+  evaluatePokerHand,
+  comparePokerHands,
+  findPokerWinners,
+  splitPot,
+  BlackjackRules,
+  BlackjackEvaluationOptions,
+  BlackjackHandResult,
+  evaluateBlackjackHand,
+  applyBlackjackAttributes
+} from "./core/card/index";
 import { Seat } from "./core/Seat";
+import { TurnManager, TurnOptions, TurnEndReason, TurnState } from "./core/TurnManager";
+import { PotManager, PotOptions, RakeOptions, SeatBet, Pot, PotState, PotSettlement, FailedBet } from "./core/PotManager";
+import { PhaseMachine, GamePhaseConfig, GamePhaseDefinition } from "./core/PhaseMachine";
 import { TableFactory } from "./core/TableFactory";
+import { TableRecorder, TableLog, TableLogEntry, TableLogEntryType } from "./core/TableRecorder";
+import { replayTableLog, TableReplayContext, TableReplayOptions, TableReplayResult } from "./core/TableReplay";
 import { WebSocketManager } from "./core/WebSocketManager";
-import { EventBus } from "./events/EventBus";
-import { MessageRouter } from "./events/MessageRouter";
+import { RateLimiter, RateLimiterOptions, RateLimit, RateLimitResult, TokenBucket } from "./core/RateLimiter";
+import { MessageCodec, JSON_CODEC, MESSAGE_PACK_CODEC, encodeMessagePack, decodeMessagePack } from "./core/codec/index";
+import {
+  EventBus,
+  EventArgs,
+  EventListener,
+  PatternListener,
+  EventDispatchResult,
+  EventInterception,
+  EventInterceptor,
+  InterceptorOptions
+} from "./events/EventBus";
+import {
+  MessageRouter,
+  CommandHandler,
+  CommandResult,
+  CommandOutcome,
+  CommandContext,
+  CommandMiddleware,
+  ProtocolDescription,
+  ProtocolCommandDescription
+} from "./events/MessageRouter";
+import { requireTable, requireSeat } from "./events/CommandMiddleware";
 import { GameManager, GameDefinition } from "./core/GameManager";
-import { Lobby } from "./core/Lobby";
+import { Lobby, LobbyState } from "./core/Lobby";
 import { AuthModule, ServerTransportModule, TransportModule } from "./transport";
-import { CLIENT_COMMAND_TYPES, CLIENT_MESSAGE_TYPES } from "./core/commands/index";
+import {
+  CLIENT_COMMAND_TYPES,
+  CLIENT_MESSAGE_TYPES,
+  CLIENT_ERROR_CODES,
+  ClientErrorCode,
+  RequestId,
+  CommandError,
+  CommandRequest,
+  runInCommandRequest,
+  getCurrentCommandRequest,
+  endCommandRequest,
+  CommandFieldType,
+  CommandFieldSchema,
+  CommandSchema,
+  CommandFieldValue,
+  CommandFieldValues,
+  CommandData,
+  validateCommand,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  PROTOCOL_ADAPTERS,
+  ProtocolAdapter,
+  adaptMessage
+} from "./core/commands/index";
+import { createStatePatch, applyStatePatch, StatePatchOperation } from "./core/StatePatch";
 import * as http from "http";
 
 // Import all events-related exports
@@ -17,14 +114,20 @@ import {
   PLAYER_EVENTS,
   TABLE_EVENTS,
   LOBBY_EVENTS,
+  EVENT_BUS_EVENTS,
   EVENTS,
   PlayerEventType,
   TableEventType,
   LobbyEventType,
+  EventBusEventType,
   BuiltInEventType,
   CustomEventMap,
+  CustomEventType,
   EventType,
   EventPayloadMap,
+  DefaultEventPayloadMap,
+  CustomEventPayloadMap,
+  EventPayloads,
 } from "./events";
 
 // Export all the classes
@@ -33,38 +136,168 @@ export {
   Table,
   Seat,
   TableState,
+  TableStateSnapshot,
+  TableViewerRole,
+  TableStateProjector,
+  TableOptions,
+  TableDeckOptions,
+  TurnManager,
+  TurnOptions,
+  TurnEndReason,
+  TurnState,
+  PotManager,
+  PotOptions,
+  RakeOptions,
+  SeatBet,
+  Pot,
+  PotState,
+  PotSettlement,
+  FailedBet,
+  PhaseMachine,
+  GamePhaseConfig,
+  GamePhaseDefinition,
   TableFactory,
+  TableRecorder,
+  TableLog,
+  TableLogEntry,
+  TableLogEntryType,
+  replayTableLog,
+  TableReplayContext,
+  TableReplayOptions,
+  TableReplayResult,
   WebSocketManager,
+  RateLimiter,
+  RateLimiterOptions,
+  RateLimit,
+  RateLimitResult,
+  TokenBucket,
+  MessageCodec,
+  JSON_CODEC,
+  MESSAGE_PACK_CODEC,
+  encodeMessagePack,
+  decodeMessagePack,
   EventBus,
   MessageRouter,
+  CommandHandler,
+  CommandResult,
+  CommandOutcome,
+  CommandContext,
+  CommandMiddleware,
+  requireTable,
+  requireSeat,
+  ProtocolDescription,
+  ProtocolCommandDescription,
   GameManager,
   GameDefinition,
   Lobby,
+  LobbyState,
   // Export new transport modules
   AuthModule,
   ServerTransportModule,
   TransportModule,
   CLIENT_COMMAND_TYPES,
   CLIENT_MESSAGE_TYPES,
+  CLIENT_ERROR_CODES,
+  ClientErrorCode,
+  RequestId,
+  CommandError,
+  CommandRequest,
+  runInCommandRequest,
+  getCurrentCommandRequest,
+  endCommandRequest,
+  CommandFieldType,
+  CommandFieldSchema,
+  CommandSchema,
+  CommandFieldValue,
+  CommandFieldValues,
+  CommandData,
+  validateCommand,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  PROTOCOL_ADAPTERS,
+  ProtocolAdapter,
+  adaptMessage,
   // Export events
   PLAYER_EVENTS,
   TABLE_EVENTS,
   LOBBY_EVENTS,
+  EVENT_BUS_EVENTS,
   EVENTS,
   // Export event types
   PlayerEventType,
   TableEventType,
   LobbyEventType,
+  EventBusEventType,
   BuiltInEventType,
   CustomEventMap,
+  CustomEventType,
   EventType,
   EventPayloadMap,
+  DefaultEventPayloadMap,
+  CustomEventPayloadMap,
+  EventPayloads,
+  EventArgs,
+  EventListener,
+  PatternListener,
+  EventDispatchResult,
+  EventInterception,
+  EventInterceptor,
+  InterceptorOptions,
+  // State patches
+  createStatePatch,
+  applyStatePatch,
+  StatePatchOperation,
   // Deck of cards
   Card,
   CardSuit,
   CardRank,
   Deck,
-  Hand
+  DeckOptions,
+  Shoe,
+  ShoeOptions,
+  DEFAULT_SHOE_PENETRATION,
+  DeckSpec,
+  CardValueFunction,
+  STANDARD_RANKS,
+  STANDARD_SUITS,
+  DECK_SPECS,
+  blackjackCardValue,
+  buildCards,
+  Hand,
+  HandState,
+  // Randomness
+  RandomSource,
+  CryptoRandomSource,
+  SeededRandomSource,
+  SeedSequenceSource,
+  generateSeed,
+  shuffleWithSeed,
+  // Provably fair shuffles
+  ClientSeed,
+  ProvablyFairReveal,
+  getCardCode,
+  createCommitment,
+  combineSeeds,
+  recomputeShuffle,
+  verifyShuffle,
+  // Poker hand evaluation
+  PokerHandCategory,
+  PokerHandResult,
+  PokerShowdownEntry,
+  PokerShowdownResult,
+  PotShare,
+  getPokerRankValue,
+  evaluatePokerHand,
+  comparePokerHands,
+  findPokerWinners,
+  splitPot,
+  // Blackjack hand evaluation
+  BlackjackRules,
+  BlackjackEvaluationOptions,
+  BlackjackHandResult,
+  evaluateBlackjackHand,
+  applyBlackjackAttributes
 };
 
 export function createGameServer(
@@ -80,11 +313,16 @@ export function createGameServer(
      * Default is 600000 (10 minutes). Set to 0 to disable reconnection.
      */
     reconnectionTimeoutMs?: number;
+    /**
+     * Optional limits of how fast players and IP addresses can send messages, and how fast
+     * players can send each command. Messages are not rate limited by default.
+     */
+    rateLimits?: RateLimiterOptions;
   }
 ) {
   const eventBus = new EventBus();
   const messageRouter = new MessageRouter(eventBus);
-  const tableFactory = new TableFactory(eventBus);
+  const tableFactory = new TableFactory(eventBus, serverTransportModule);
   const gameManager = new GameManager(eventBus, tableFactory);
   const lobby = new Lobby(eventBus, gameManager, tableFactory);
   const wsManager = new WebSocketManager(
@@ -95,7 +333,8 @@ export function createGameServer(
     authModule, 
     options?.reconnectionTimeoutMs || 600000,
     lobby,
-    tableFactory
+    tableFactory,
+    options?.rateLimits ? new RateLimiter(options.rateLimits) : undefined
   );
   
   // Register default Lobby message handlers
@@ -105,22 +344,18 @@ export function createGameServer(
    */
 
   messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.GET_STATE, (player, data) => {
-    if (!data.tableId) return;
-    
     const table = gameManager.getTableById(data.tableId);
     if (table) {
-      player.sendMessage({
-        type: CLIENT_MESSAGE_TYPES.TABLE.STATE,
-        data: table.getState()
-      });
+      table.sendTableState(player);
     } else {
       console.error(`Failed to get table state: ${data.tableId}`);
     }
+  }, {
+    description: "Requests the state of a table",
+    fields: { tableId: { type: "string", minLength: 1, description: "The ID of the table" } }
   });
 
   messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.JOIN, (player, data) => {
-    if (!data.tableId) return;
-    
     const table = gameManager.getTableById(data.tableId);
     if (table) {
       table.addPlayer(player);
@@ -130,11 +365,6 @@ export function createGameServer(
   });
   
   messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.CREATE, (player, data) => {
-    if (!data.gameId) {
-      console.error(`Failed to create table: ${data.gameId} (no gameId provided)`);
-      return;
-    }
-    
     const table = lobby.createTable(data.gameId, data.options);
     if (table) {
       table.addPlayer(player);
@@ -143,40 +373,24 @@ export function createGameServer(
     }
   });
   
-  messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.LEAVE, (player, data) => {
-    const table = player.getTable();
-    if (table) {
-      table.removePlayer(player.id);
-    } else {
-      console.error(`Failed to leave table`);
-    }
-  });
+  messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.LEAVE, (player, data, context) => {
+    context.state.table.removePlayer(player.id);
+  }, undefined, [requireTable]);
 
   /**
    * Seat commands
    */
   
-  messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, (player, data) => {
-    if (typeof data.seatIndex !== 'number') return;
-    
-    const table = player.getTable();
-    if (table) {
-      table.sitPlayerAtSeat(player.id, data.seatIndex);
-    } else {
-      console.error(`Failed to sit player at seat: ${data.seatIndex}`);
-    }
-  });
+  messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, (player, data, context) => {
+    context.state.table.sitPlayerAtSeat(player.id, data.seatIndex);
+  }, undefined, [requireTable]);
   
-  messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_STAND, (player, data) => {
-    if (typeof data.seatIndex !== 'number') return;
-    
-    const table = player.getTable();
-    if (table) {
-      table.removePlayerFromSeat(data.seatIndex);
-    } else {
-      console.error(`Failed to stand up from seat: ${data.seatIndex}`);
-    }
-  });
+  messageRouter.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_STAND, (player, data, context) => {
+    context.state.table.removePlayerFromSeat(data.seatIndex);
+  }, {
+    description: "Stands up from a seat of the player's table",
+    fields: { seatIndex: { type: "integer", minimum: 0, description: "The index of the seat" } }
+  }, [requireTable]);
   
   return {
     eventBus,
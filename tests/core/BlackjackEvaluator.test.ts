@@ -0,0 +1,83 @@
+import {
+  Card,
+  CardRank,
+  CardSuit,
+  Hand,
+  applyBlackjackAttributes,
+  evaluateBlackjackHand
+} from '../../src/core/card';
+
+// Parses card codes such as 'AS' or 'TH'
+function cards(codes: string, isVisible = true): Card[] {
+  return codes.split(' ').map(code => ({
+    rank: code[0] as CardRank,
+    suit: code[1] as CardSuit,
+    isVisible
+  }));
+}
+
+describe('Blackjack evaluator', () => {
+  test('should compute hard and soft totals', () => {
+    const soft = evaluateBlackjackHand(cards('AH 6D'));
+    expect(soft).toMatchObject({ hardTotal: 7, softTotal: 17, total: 17, isSoft: true });
+
+    const hard = evaluateBlackjackHand(cards('AH 6D TC'));
+    expect(hard).toMatchObject({ hardTotal: 17, softTotal: null, total: 17, isSoft: false, isBust: false });
+
+    const twoAces = evaluateBlackjackHand(cards('AH AD 9C'));
+    expect(twoAces).toMatchObject({ hardTotal: 11, softTotal: 21, total: 21 });
+  });
+
+  test('should detect blackjack and bust', () => {
+    expect(evaluateBlackjackHand(cards('AS KH')).isBlackjack).toBe(true);
+    expect(evaluateBlackjackHand(cards('AS KH'), { isSplitHand: true }).isBlackjack).toBe(false);
+    expect(evaluateBlackjackHand(cards('7S 7H 7D')).isBlackjack).toBe(false);
+
+    const bust = evaluateBlackjackHand(cards('KS QH 2D'));
+    expect(bust.isBust).toBe(true);
+    expect(bust.total).toBe(22);
+  });
+
+  test('should check splits and doubles against the rules', () => {
+    expect(evaluateBlackjackHand(cards('8S 8H')).canSplit).toBe(true);
+    expect(evaluateBlackjackHand(cards('KS QH')).canSplit).toBe(false);
+    expect(evaluateBlackjackHand(cards('KS QH'), { splitByValue: true }).canSplit).toBe(true);
+    expect(evaluateBlackjackHand(cards('8S 8H 8D')).canSplit).toBe(false);
+
+    expect(evaluateBlackjackHand(cards('5S 4H')).canDouble).toBe(true);
+    expect(evaluateBlackjackHand(cards('5S 3H'), { doubleOnTotals: [9, 10, 11] }).canDouble).toBe(false);
+    expect(evaluateBlackjackHand(cards('5S 6H'), { doubleOnTotals: [9, 10, 11] }).canDouble).toBe(true);
+    expect(evaluateBlackjackHand(cards('AS 8H'), { doubleOnTotals: [9, 10, 11] }).canDouble).toBe(false);
+    expect(evaluateBlackjackHand(cards('AS 8H'), { doubleOnTotals: [19] }).canDouble).toBe(true);
+    expect(evaluateBlackjackHand(cards('5S 3H 2D')).canDouble).toBe(false);
+  });
+
+  test('should count only visible cards when asked', () => {
+    const dealer = [...cards('TS'), ...cards('AH', false)];
+
+    expect(evaluateBlackjackHand(dealer).isBlackjack).toBe(true);
+    expect(evaluateBlackjackHand(dealer, { visibleOnly: true }).total).toBe(10);
+  });
+
+  test('should write the evaluation into hand attributes without revealing hidden cards', () => {
+    const hand = new Hand('dealer');
+    [...cards('AS'), ...cards('KH', false)].forEach(card => hand.addCard(card));
+
+    const result = applyBlackjackAttributes(hand);
+
+    expect(result.total).toBe(11);
+    expect(hand.getVisibleState().attributes).toMatchObject({
+      total: 11,
+      hardTotal: 1,
+      softTotal: 11,
+      isSoft: true,
+      isBlackjack: false,
+      isBust: false,
+      canSplit: false,
+      canDouble: false
+    });
+
+    applyBlackjackAttributes(hand, { visibleOnly: false });
+    expect(hand.getAttribute('isBlackjack')).toBe(true);
+  });
+});
@@ -213,8 +213,6 @@ describe('Deck', () => {
   });
 
   test('should shuffle the deck', () => {
-    jest.spyOn(global.Math, 'random').mockImplementation(() => 0.5);
-    
     const deck1 = new Deck();
     const deck2 = new Deck();
     
@@ -226,8 +224,8 @@ describe('Deck', () => {
     expect(preShuffleCard1?.suit).toBe(preShuffleCard2?.suit);
     expect(preShuffleCard1?.rank).toBe(preShuffleCard2?.rank);
     
-    // Shuffle only the second deck
-    deck2.shuffle();
+    // Shuffle only the second deck, with a fixed seed so the result is deterministic
+    deck2.shuffle('card-test-seed');
     
     // Draw another card from each deck
     const postShuffleCard1 = deck1.drawCard();
@@ -238,7 +236,5 @@ describe('Deck', () => {
       postShuffleCard1?.suit !== postShuffleCard2?.suit || 
       postShuffleCard1?.rank !== postShuffleCard2?.rank
     ).toBeTruthy();
-    
-    jest.spyOn(global.Math, 'random').mockRestore();
   });
 }); 
\ No newline at end of file
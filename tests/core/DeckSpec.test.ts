@@ -0,0 +1,70 @@
+import {
+  CardRank,
+  CardSuit,
+  Deck,
+  DECK_SPECS,
+  blackjackCardValue,
+  buildCards
+} from '../../src/core/card';
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+
+describe('DeckSpec', () => {
+  test('should build a standard deck without values by default', () => {
+    const cards = buildCards();
+
+    expect(cards).toHaveLength(52);
+    expect(cards.every(card => card.value === undefined)).toBe(true);
+    expect(cards.some(card => card.rank === CardRank.JOKER)).toBe(false);
+  });
+
+  test('should build Euchre and Pinochle decks', () => {
+    const euchre = new Deck(1, { spec: DECK_SPECS.EUCHRE });
+    const pinochle = new Deck(1, { spec: DECK_SPECS.PINOCHLE });
+
+    expect(euchre.getRemainingCards()).toBe(24);
+    expect(pinochle.getRemainingCards()).toBe(48);
+    expect(pinochle.getCardCodes().filter(code => code === 'AS')).toHaveLength(2);
+    expect(euchre.getCardCodes()).not.toContain('8H');
+  });
+
+  test('should add red and black jokers to each deck', () => {
+    const deck = new Deck(2, { spec: DECK_SPECS.STANDARD_WITH_JOKERS });
+    const jokers = deck.drawCards(deck.getRemainingCards()).filter(card => card.rank === CardRank.JOKER);
+
+    expect(deck.getSpec()).toBe(DECK_SPECS.STANDARD_WITH_JOKERS);
+    expect(jokers).toHaveLength(4);
+    expect(jokers.filter(card => card.suit === CardSuit.HEARTS)).toHaveLength(2);
+    expect(jokers.filter(card => card.suit === CardSuit.SPADES)).toHaveLength(2);
+  });
+
+  test('should restrict suits and ranks', () => {
+    const cards = buildCards({ suits: [CardSuit.SPADES], ranks: [CardRank.ACE, CardRank.KING, CardRank.JOKER] }, 2);
+
+    expect(cards.map(card => `${card.rank}${card.suit}`)).toEqual(['AS', 'KS', 'AS', 'KS']);
+  });
+
+  test('should assign values with the value function', () => {
+    const cards = buildCards(DECK_SPECS.BLACKJACK);
+    const valueOf = (rank: CardRank) => cards.find(card => card.rank === rank)!.value;
+
+    expect(valueOf(CardRank.ACE)).toBe(11);
+    expect(valueOf(CardRank.KING)).toBe(10);
+    expect(valueOf(CardRank.TEN)).toBe(10);
+    expect(valueOf(CardRank.SEVEN)).toBe(7);
+    expect(blackjackCardValue({ suit: CardSuit.HEARTS, rank: CardRank.JOKER })).toBeUndefined();
+
+    const custom = buildCards({ ranks: [CardRank.QUEEN], value: card => (card.suit === CardSuit.SPADES ? 13 : 0) });
+    expect(custom.map(card => card.value)).toEqual([0, 0, 0, 13]);
+  });
+
+  test('should use the deck spec of the table options', () => {
+    const table = new Table(new EventBus(), 4, 1, 'euchre', 'euchre', { deckSpec: DECK_SPECS.EUCHRE });
+
+    table.createDeck();
+    expect(table.getDeck()!.getRemainingCards()).toBe(24);
+
+    table.createDeck(1, { spec: DECK_SPECS.PINOCHLE });
+    expect(table.getDeck()!.getRemainingCards()).toBe(48);
+  });
+});
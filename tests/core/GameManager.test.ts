@@ -19,7 +19,8 @@ jest.mock('../../src/core/Table', () => {
       getTableMetadata: jest.fn().mockReturnValue({
         id: 'mock-table-id',
         gameId: 'test-game'
-      })
+      }),
+      dispose: jest.fn()
     }))
   };
 });
@@ -115,8 +116,9 @@ describe('GameManager', () => {
     // Trigger the TABLE_EMPTY event
     eventBus.emit(TABLE_EVENTS.EMPTY, mockTable);
     
-    // Check that the table was removed
+    // Check that the table was removed and disposed
     expect(gameManager.getAllTables()).not.toContain(mockTable);
+    expect(mockTable.dispose).toHaveBeenCalledTimes(1);
   });
   
   test('should get available games', () => {
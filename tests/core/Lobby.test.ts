@@ -239,7 +239,8 @@ describe('Lobby', () => {
     
     expect(tableFactory.createTable).toHaveBeenCalledWith(
       gameDefinition.defaultSeats,
-      gameDefinition.maxSeatsPerPlayer
+      gameDefinition.maxSeatsPerPlayer,
+      { maxSpectators: undefined }
     );
     
     expect(table).not.toBeNull();
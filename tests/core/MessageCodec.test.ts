@@ -0,0 +1,216 @@
+import * as http from 'http';
+import {
+  JSON_CODEC,
+  MESSAGE_PACK_CODEC,
+  MessageCodec,
+  decodeMessagePack,
+  encodeMessagePack
+} from '../../src/core/codec';
+import { WebSocketManager } from '../../src/core/WebSocketManager';
+import { GameManager } from '../../src/core/GameManager';
+import { Lobby } from '../../src/core/Lobby';
+import { TableFactory } from '../../src/core/TableFactory';
+import { EventBus } from '../../src/events/EventBus';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands';
+
+const mockWSServer = {
+  on: jest.fn()
+};
+
+jest.mock('ws', () => {
+  return {
+    Server: jest.fn(() => mockWSServer),
+    WebSocket: {
+      CONNECTING: 0,
+      OPEN: 1,
+      CLOSING: 2,
+      CLOSED: 3
+    }
+  };
+});
+
+describe('MessagePack', () => {
+  test('should encode values with the smallest types', () => {
+    expect(encodeMessagePack({ a: 1 })).toEqual(Buffer.from([0x81, 0xa1, 0x61, 0x01]));
+    expect(encodeMessagePack([null, true, false, -1])).toEqual(Buffer.from([0x94, 0xc0, 0xc3, 0xc2, 0xff]));
+    expect(encodeMessagePack(200)).toEqual(Buffer.from([0xcc, 0xc8]));
+    expect(encodeMessagePack(-200)).toEqual(Buffer.from([0xd1, 0xff, 0x38]));
+    expect(encodeMessagePack(1.5)).toEqual(Buffer.from([0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0]));
+    expect(encodeMessagePack('x'.repeat(40)).subarray(0, 2)).toEqual(Buffer.from([0xd9, 40]));
+    expect(encodeMessagePack(new Array(16).fill(0)).subarray(0, 3)).toEqual(Buffer.from([0xdc, 0x00, 0x10]));
+  });
+
+  test('should round trip values of every size', () => {
+    const values = [
+      0, 127, 128, 255, 256, 65535, 65536, 2 ** 32 - 1, 2 ** 32, Number.MAX_SAFE_INTEGER,
+      -32, -33, -128, -129, -32768, -32769, -(2 ** 31), -(2 ** 31) - 1, Number.MIN_SAFE_INTEGER,
+      0.1, -2.5, 1e300,
+      '', 'héllo', 'x'.repeat(31), 'x'.repeat(32), 'x'.repeat(300), 'x'.repeat(70000),
+      new Array(20).fill('item'),
+      Object.fromEntries(Array.from({ length: 20 }, (_, index) => [`key${index}`, index])),
+      { nested: { list: [1, 'two', { three: [3] }], flag: true, empty: {} } }
+    ];
+
+    for (const value of values) {
+      expect(decodeMessagePack(encodeMessagePack(value))).toEqual(value);
+    }
+  });
+
+  test('should encode values the way JSON does', () => {
+    const value = {
+      date: new Date(0),
+      skipped: undefined,
+      method: () => 1,
+      list: [undefined, 1],
+      custom: { toJSON: () => 'custom' }
+    };
+
+    expect(decodeMessagePack(encodeMessagePack(value))).toEqual(JSON.parse(JSON.stringify(value)));
+    expect(decodeMessagePack(encodeMessagePack(Buffer.from([1, 2, 3])))).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  test('should refuse values JSON cannot encode', () => {
+    const circular: Record<string, any> = {};
+    circular.self = circular;
+
+    expect(() => encodeMessagePack(circular)).toThrow(TypeError);
+    expect(() => encodeMessagePack({ value: BigInt(1) })).toThrow(TypeError);
+  });
+
+  test('should refuse invalid data', () => {
+    expect(() => decodeMessagePack(Buffer.from([0x92, 0x01]))).toThrow('Unexpected end of MessagePack data');
+    expect(() => decodeMessagePack(Buffer.from([0x01, 0x02]))).toThrow('Unexpected data after the MessagePack value');
+    expect(() => decodeMessagePack(Buffer.from([0xd4, 0x01, 0x00]))).toThrow('Unsupported MessagePack type 0xd4');
+    expect(() => decodeMessagePack(Buffer.from([0x81, 0x90, 0x01]))).toThrow(TypeError);
+  });
+
+  test('should not let keys change the prototype of maps', () => {
+    const decoded = decodeMessagePack(encodeMessagePack(JSON.parse('{"__proto__": {"polluted": true}}'))) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(decoded.polluted).toBeUndefined();
+    expect(Object.keys(decoded)).toEqual(['__proto__']);
+  });
+});
+
+describe('Message codecs', () => {
+  test('should decode text and binary frames', () => {
+    const message = { action: 'game:ping', data: { count: 1 } };
+
+    expect(JSON_CODEC.encode(message)).toBe(JSON.stringify(message));
+    expect(JSON_CODEC.decode(Buffer.from(JSON.stringify(message)))).toEqual(message);
+    expect(MESSAGE_PACK_CODEC.encode(message)).toEqual(encodeMessagePack(message));
+    expect(MESSAGE_PACK_CODEC.decode(encodeMessagePack(message))).toEqual(message);
+  });
+
+  describe('with a WebSocketManager', () => {
+    let eventBus: EventBus;
+    let messageRouter: MessageRouter;
+    let manager: WebSocketManager;
+
+    const connect = async (request: { url?: string }, protocol = '') => {
+      const frames: any[] = [];
+      const handlers: Record<string, (...args: any[]) => void> = {};
+      const socket = {
+        protocol,
+        on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+          handlers[event] = handler;
+        }),
+        send: jest.fn((data: string | Buffer) => frames.push(data)),
+        close: jest.fn(),
+        readyState: 1
+      };
+      const connectionHandler = mockWSServer.on.mock.calls[mockWSServer.on.mock.calls.length - 1][1];
+      await connectionHandler(socket, { headers: {}, ...request });
+      frames.length = 0;
+
+      return {
+        socket,
+        frames,
+        receive: (data: string | Buffer) => handlers.message(data)
+      };
+    };
+
+    beforeEach(() => {
+      mockWSServer.on.mockClear();
+      (jest.requireMock('ws').Server as jest.Mock).mockClear();
+      eventBus = new EventBus();
+      messageRouter = new MessageRouter(eventBus);
+      manager = new WebSocketManager(
+        {} as http.Server,
+        eventBus,
+        messageRouter,
+        {
+          getAvailableGames: jest.fn().mockReturnValue([]),
+          getAllTables: jest.fn().mockReturnValue([])
+        } as unknown as GameManager,
+        undefined,
+        0,
+        { updateLobbyState: jest.fn() } as unknown as Lobby,
+        {} as TableFactory
+      );
+    });
+
+    test('should accept the first subprotocol that names a codec', () => {
+      const { handleProtocols } = (jest.requireMock('ws').Server as jest.Mock).mock.calls[0][0];
+
+      expect(handleProtocols(new Set(['v2.game', 'msgpack', 'json']))).toBe('msgpack');
+      expect(handleProtocols(new Set(['v2.game']))).toBe(false);
+    });
+
+    test('should use the codec of the subprotocol', async () => {
+      messageRouter.registerCommandHandler('game:ping', player => {
+        player.sendMessage({ type: 'game:pong' });
+      });
+      const client = await connect({}, 'msgpack');
+
+      client.receive(encodeMessagePack({ action: 'game:ping', requestId: 'ping-1' }));
+
+      expect(client.frames.every(frame => Buffer.isBuffer(frame))).toBe(true);
+      expect(client.frames.map(frame => decodeMessagePack(frame))).toEqual([
+        { type: 'game:pong', requestId: 'ping-1' },
+        { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'ping-1', action: 'game:ping', success: true }
+      ]);
+    });
+
+    test('should use the codec of the query parameter', async () => {
+      const client = await connect({ url: '/?codec=msgpack' });
+
+      client.receive(Buffer.from('{"action": "game:ping"}'));
+
+      expect(client.frames.map(frame => decodeMessagePack(frame))).toEqual([{
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.INVALID_MESSAGE,
+        message: 'Failed to process message'
+      }]);
+    });
+
+    test('should default to JSON and close connections asking for unknown codecs', async () => {
+      const jsonClient = await connect({ url: '/' });
+      jsonClient.receive(Buffer.from('{"action": "game:ping"}'));
+      expect(typeof jsonClient.frames[0]).toBe('string');
+
+      const unknownClient = await connect({ url: '/?codec=protobuf' });
+      expect(unknownClient.socket.close).toHaveBeenCalledWith(1003, 'Unsupported codec');
+      expect(manager.getConnectedPlayerCount()).toBe(1);
+    });
+
+    test('should negotiate registered codecs', async () => {
+      const upperCodec: MessageCodec = {
+        name: 'upper',
+        encode: message => JSON.stringify(message).toUpperCase(),
+        decode: data => JSON.parse(data.toString())
+      };
+      manager.registerCodec(upperCodec);
+      messageRouter.registerCommandHandler('game:ping', player => {
+        player.sendMessage({ type: 'game:pong' });
+      });
+
+      const client = await connect({ url: '/?codec=upper' });
+      client.receive(Buffer.from('{"action": "game:ping"}'));
+
+      expect(client.frames).toEqual(['{"TYPE":"GAME:PONG"}']);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { Table, TableState } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { GamePhaseConfig, PhaseMachine } from '../../src/core/PhaseMachine';
+import { TABLE_EVENTS } from '../../src/events/EventTypes';
+
+describe('PhaseMachine', () => {
+  let eventBus: EventBus;
+  let table: Table;
+  let config: GamePhaseConfig;
+  let log: string[];
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    table = new Table(eventBus, 2, 1, 'phase-table');
+    log = [];
+
+    config = {
+      initial: 'waiting',
+      phases: [
+        { name: 'waiting', transitions: ['betting'], tableState: TableState.WAITING },
+        {
+          name: 'betting',
+          transitions: ['dealing', 'waiting'],
+          tableState: TableState.ACTIVE,
+          onEnter: (_table, from) => log.push(`enter betting from ${from}`),
+          onExit: (_table, to) => log.push(`exit betting to ${to}`)
+        },
+        {
+          name: 'dealing',
+          transitions: ['showdown'],
+          guard: (t) => t.getAttribute('cardsReady') === true
+        },
+        { name: 'showdown', transitions: ['waiting'], tableState: TableState.ENDED }
+      ]
+    };
+  });
+
+  test('should enter the initial phase when phases are configured', () => {
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+    table.setPhases(config);
+
+    expect(table.getPhase()).toBe('waiting');
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.PHASE_CHANGED, table, 'waiting', null);
+    expect(table.getTableState().phase).toBe('waiting');
+  });
+
+  test('should run hooks and update the table state on transitions', () => {
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+    table.setPhases(config);
+
+    expect(table.transitionTo('betting')).toBe(true);
+    expect(table.getState()).toBe(TableState.ACTIVE);
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.STATE_UPDATED, table, TableState.ACTIVE);
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.PHASE_CHANGED, table, 'betting', 'waiting');
+
+    table.setAttribute('cardsReady', true);
+    expect(table.transitionTo('dealing')).toBe(true);
+    expect(log).toEqual(['enter betting from waiting', 'exit betting to dealing']);
+    // Phases without a table state keep the previous one
+    expect(table.getState()).toBe(TableState.ACTIVE);
+  });
+
+  test('should reject illegal transitions and guarded transitions', () => {
+    table.setPhases(config);
+
+    expect(table.transitionTo('showdown')).toBe(false);
+    expect(table.transitionTo('unknown')).toBe(false);
+    expect(table.getPhase()).toBe('waiting');
+
+    table.transitionTo('betting');
+    expect(table.getPhaseMachine()!.canTransition('dealing')).toBe(false);
+    expect(table.transitionTo('dealing')).toBe(false);
+    expect(table.getPhase()).toBe('betting');
+  });
+
+  test('should map setState onto a matching phase', () => {
+    table.setPhases(config);
+
+    table.setState(TableState.ACTIVE);
+    expect(table.getPhase()).toBe('betting');
+
+    // No allowed phase declares ENDED, so only the state changes
+    table.setState(TableState.ENDED);
+    expect(table.getPhase()).toBe('betting');
+    expect(table.getState()).toBe(TableState.ENDED);
+  });
+
+  test('should behave as before when no phases are configured', () => {
+    expect(table.getPhase()).toBeNull();
+    expect(table.transitionTo('betting')).toBe(false);
+
+    table.setState(TableState.ACTIVE);
+    expect(table.getState()).toBe(TableState.ACTIVE);
+  });
+
+  test('should validate the declared phases', () => {
+    expect(() => new PhaseMachine(table, eventBus, {
+      initial: 'missing',
+      phases: [{ name: 'a', transitions: [] }]
+    })).toThrow('Unknown initial phase: missing');
+
+    expect(() => new PhaseMachine(table, eventBus, {
+      initial: 'a',
+      phases: [{ name: 'a', transitions: ['b'] }]
+    })).toThrow('Phase a declares a transition to unknown phase: b');
+
+    expect(() => new PhaseMachine(table, eventBus, {
+      initial: 'a',
+      phases: [{ name: 'a', transitions: [] }, { name: 'a', transitions: [] }]
+    })).toThrow('Duplicate phase: a');
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  Card,
+  CardRank,
+  CardSuit,
+  Hand,
+  PokerHandCategory,
+  comparePokerHands,
+  evaluatePokerHand,
+  findPokerWinners,
+  splitPot
+} from '../../src/core/card';
+
+// Parses card codes such as 'AS' or 'TH'
+function cards(codes: string): Card[] {
+  return codes.split(' ').map(code => ({
+    rank: code[0] as CardRank,
+    suit: code[1] as CardSuit,
+    isVisible: true
+  }));
+}
+
+function evaluate(codes: string) {
+  return evaluatePokerHand(cards(codes))!;
+}
+
+describe('Poker hand evaluator', () => {
+  test.each([
+    ['AS KS QS JS TS', PokerHandCategory.STRAIGHT_FLUSH],
+    ['9H 9D 9S 9C 2H', PokerHandCategory.FOUR_OF_A_KIND],
+    ['3H 3D 3S 7C 7H', PokerHandCategory.FULL_HOUSE],
+    ['2H 7H 9H JH KH', PokerHandCategory.FLUSH],
+    ['5C 6D 7H 8S 9C', PokerHandCategory.STRAIGHT],
+    ['QH QD QS 2C 7H', PokerHandCategory.THREE_OF_A_KIND],
+    ['JH JD 4S 4C AH', PokerHandCategory.TWO_PAIR],
+    ['TH TD 4S 8C AH', PokerHandCategory.PAIR],
+    ['2H 5D 9S JC KH', PokerHandCategory.HIGH_CARD]
+  ])('should categorize %s', (codes, category) => {
+    expect(evaluate(codes).category).toBe(category);
+  });
+
+  test('should rank categories in order', () => {
+    const ordered = [
+      '2H 5D 9S JC KH',
+      'TH TD 4S 8C AH',
+      'JH JD 4S 4C AH',
+      'QH QD QS 2C 7H',
+      '5C 6D 7H 8S 9C',
+      '2H 7H 9H JH KH',
+      '3H 3D 3S 7C 7H',
+      '9H 9D 9S 9C 2H',
+      'AS KS QS JS TS'
+    ].map(evaluate);
+
+    for (let i = 1; i < ordered.length; i++) {
+      expect(comparePokerHands(ordered[i], ordered[i - 1])).toBeGreaterThan(0);
+    }
+  });
+
+  test('should handle wheel straights as the lowest straight', () => {
+    const wheel = evaluate('AH 2D 3S 4C 5H');
+    const sixHigh = evaluate('2D 3S 4C 5H 6H');
+
+    expect(wheel.category).toBe(PokerHandCategory.STRAIGHT);
+    expect(wheel.ranks).toEqual([5]);
+    expect(wheel.cards.map(card => card.rank)).toEqual(['5', '4', '3', '2', 'A']);
+    expect(comparePokerHands(sixHigh, wheel)).toBeGreaterThan(0);
+    expect(evaluate('AS 2S 3S 4S 5S').category).toBe(PokerHandCategory.STRAIGHT_FLUSH);
+  });
+
+  test('should pick the best 5 cards from a hand and community cards', () => {
+    const hand = new Hand();
+    cards('AH KH').forEach(card => hand.addCard(card));
+
+    const result = evaluatePokerHand(hand, cards('QH JH TH 2C 2D'))!;
+
+    expect(result.category).toBe(PokerHandCategory.STRAIGHT_FLUSH);
+    expect(result.name).toBe('Straight Flush');
+    expect(result.cards).toHaveLength(5);
+    expect(result.cards.map(card => card.rank)).toEqual(['A', 'K', 'Q', 'J', 'T']);
+  });
+
+  test('should use kickers to break ties', () => {
+    const aceKicker = evaluatePokerHand(cards('9H AD'), cards('9S 7C 5H 3D 2C'))!;
+    const kingKicker = evaluatePokerHand(cards('9D KD'), cards('9S 7C 5H 3D 2C'))!;
+
+    expect(aceKicker.kickers.map(card => card.rank)).toEqual(['A', '7', '5']);
+    expect(aceKicker.ranks).toEqual([9, 14, 7, 5]);
+    expect(comparePokerHands(aceKicker, kingKicker)).toBeGreaterThan(0);
+  });
+
+  test('should choose the best full house and ignore a lower third pair', () => {
+    expect(evaluate('3H 3D 3S 7C 7H 7D 2C').ranks).toEqual([7, 3]);
+    expect(evaluate('KH KD 8S 8C 4H 4D AC').ranks).toEqual([13, 8, 14]);
+  });
+
+  test('should return null with fewer than 5 cards', () => {
+    expect(evaluatePokerHand(cards('AH KH'))).toBeNull();
+    expect(evaluatePokerHand(cards('AH KH QH JH XH'))).toBeNull();
+  });
+});
+
+describe('Showdown helpers', () => {
+  const board = cards('2H 7D 9S JC KH');
+
+  test('should find a single winner', () => {
+    const winners = findPokerWinners([
+      { seatIndex: 0, hand: cards('AH AD') },
+      { seatIndex: 1, hand: cards('KD KC') },
+      { seatIndex: 2, hand: cards('3C 4C') }
+    ], board);
+
+    expect(winners.map(winner => winner.seatIndex)).toEqual([1]);
+    expect(winners[0].result.category).toBe(PokerHandCategory.THREE_OF_A_KIND);
+  });
+
+  test('should find tied winners and skip incomplete hands', () => {
+    const winners = findPokerWinners([
+      { seatIndex: 3, hand: cards('AH 3C') },
+      { seatIndex: 1, hand: cards('AD 4D') },
+      { seatIndex: 2, hand: [] }
+    ], board);
+
+    expect(winners.map(winner => winner.seatIndex)).toEqual([3, 1]);
+  });
+
+  test('should split pots with odd chips to the first seats', () => {
+    expect(splitPot(100, [0, 1])).toEqual([{ seatIndex: 0, amount: 50 }, { seatIndex: 1, amount: 50 }]);
+    expect(splitPot(101, [4, 2, 1])).toEqual([
+      { seatIndex: 4, amount: 34 },
+      { seatIndex: 2, amount: 34 },
+      { seatIndex: 1, amount: 33 }
+    ]);
+    expect(splitPot(25, [0, 1], 5)).toEqual([{ seatIndex: 0, amount: 15 }, { seatIndex: 1, amount: 10 }]);
+    expect(splitPot(100, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { Player } from '../../src/core/Player';
+import { TABLE_EVENTS } from '../../src/events/TableEvents';
+import { BasicServerTransportModule } from '../../src/transport/implementations/BasicServerTransportModule';
+import { createMockPlayer } from '../helpers/players';
+
+describe('PotManager', () => {
+  let eventBus: EventBus;
+  let transport: BasicServerTransportModule;
+  let table: Table;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    eventBus = new EventBus();
+    transport = new BasicServerTransportModule();
+    table = new Table(eventBus, 4, 1, 'pot-table', 'poker', { serverTransportModule: transport });
+
+    for (let i = 0; i < 4; i++) {
+      const player = createMockPlayer(`p${i}`);
+      transport.setPlayerBalance(player.id, 1000);
+      table.addPlayer(player);
+      table.sitPlayerAtSeat(player.id, i);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const balance = (playerId: string) => transport.getPlayerBalance({ id: playerId } as Player);
+
+  test('should place bets through the transport module', async () => {
+    const pots = table.getPotManager();
+    const spy = jest.spyOn(eventBus, 'emit');
+
+    expect(await pots.placeBet(0, 50)).toBe(true);
+    expect(await pots.placeBet(0, 25)).toBe(true);
+
+    expect(pots.getSeatBet(0)!.amount).toBe(75);
+    expect(pots.getSeatBet(0)!.bets).toHaveLength(2);
+    expect(await balance('p0')).toBe(925);
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.POT_BET_PLACED, table, 0, 25, 75);
+  });
+
+  test('should reject invalid bets', async () => {
+    const pots = table.getPotManager();
+    table.removePlayerFromSeat(3);
+
+    expect(await pots.placeBet(3, 10)).toBe(false);
+    expect(await pots.placeBet(0, 0)).toBe(false);
+    expect(await pots.placeBet(0, 5000)).toBe(false);
+
+    await pots.placeBet(1, 10);
+    pots.fold(1);
+    expect(await pots.placeBet(1, 10)).toBe(false);
+    expect(pots.getTotal()).toBe(10);
+  });
+
+  test('should report bets the transport module rejected', async () => {
+    const pots = table.getPotManager();
+    const spy = jest.spyOn(eventBus, 'emit');
+
+    expect(await pots.placeBet(0, 5000)).toBe(false);
+
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.POT_BET_FAILED, table, 0, 5000, new Error('Insufficient balance'));
+  });
+
+  test('should return bets to seats that folded while the bet was created', async () => {
+    const pots = table.getPotManager();
+    const spy = jest.spyOn(eventBus, 'emit');
+    await pots.placeBet(1, 10);
+
+    const pending = pots.placeBet(1, 20);
+    pots.fold(1);
+
+    expect(await pending).toBe(false);
+    expect(pots.getSeatBet(1)!.amount).toBe(10);
+    expect(await balance('p1')).toBe(990);
+    expect(transport.getPlayerBets('p1')[1].bet.status).toBe('won');
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.POT_BET_FAILED, table, 1, 20, expect.any(Error));
+  });
+
+  test('should build side pots for all-in players', async () => {
+    const pots = table.getPotManager();
+    await pots.placeBet(0, 50, true);
+    await pots.placeBet(1, 100, true);
+    await pots.placeBet(2, 200);
+    await pots.placeBet(3, 200);
+    pots.fold(3);
+
+    expect(pots.getPots()).toEqual([
+      { amount: 200, eligibleSeats: [0, 1, 2] },
+      { amount: 150, eligibleSeats: [1, 2] },
+      { amount: 200, eligibleSeats: [2] }
+    ]);
+    expect(pots.getTotal()).toBe(550);
+  });
+
+  test('should settle pots by ranking and mark bets won or lost', async () => {
+    const pots = table.getPotManager();
+    const spy = jest.spyOn(eventBus, 'emit');
+    await pots.placeBet(0, 50, true);
+    await pots.placeBet(1, 100);
+    await pots.placeBet(2, 100);
+
+    const settlement = await pots.settle([0, 2, 1]);
+
+    expect(settlement.pots.map(pot => pot.winners)).toEqual([
+      [{ seatIndex: 0, amount: 150 }],
+      [{ seatIndex: 2, amount: 100 }]
+    ]);
+    expect(await balance('p0')).toBe(1100);
+    expect(await balance('p1')).toBe(900);
+    expect(await balance('p2')).toBe(1000);
+    expect(transport.getPlayerBets('p1')[0].bet.status).toBe('lost');
+    expect(transport.getPlayerBets('p0')[0].bet.status).toBe('won');
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.POT_SETTLED, table, settlement);
+    expect(pots.getTotal()).toBe(0);
+  });
+
+  test('should record bets the transport module failed to settle', async () => {
+    const pots = table.getPotManager();
+    await pots.placeBet(0, 50);
+    await pots.placeBet(1, 50);
+    const error = new Error('Ledger unavailable');
+    jest.spyOn(transport, 'markBetWon').mockResolvedValue(false);
+    jest.spyOn(transport, 'markBetLost').mockRejectedValue(error);
+
+    const settlement = await pots.settle([0, 1]);
+
+    expect(settlement.failedBets).toEqual([
+      { betId: expect.any(String), seatIndex: 0, winAmount: 100, error: null },
+      { betId: expect.any(String), seatIndex: 1, winAmount: 0, error }
+    ]);
+  });
+
+  test('should return uncontested pots to the seats that bet them', async () => {
+    const pots = table.getPotManager();
+    pots.configure({ rake: { percentage: 0.1 } });
+    await pots.placeBet(0, 50);
+    await pots.placeBet(1, 80);
+    pots.fold(0);
+    pots.fold(1);
+
+    const settlement = await pots.settle([0, 1]);
+
+    expect(settlement.rake).toBe(0);
+    expect(settlement.pots[0].winners).toEqual([
+      { seatIndex: 0, amount: 50 },
+      { seatIndex: 1, amount: 80 }
+    ]);
+    expect(await balance('p0')).toBe(1000);
+    expect(await balance('p1')).toBe(1000);
+    expect(transport.getPlayerBets('p1')[0].bet.status).toBe('won');
+  });
+
+  test('should keep bets placed while the hand is settled for the next hand', async () => {
+    const pots = table.getPotManager();
+    await pots.placeBet(0, 50);
+    await pots.placeBet(1, 50);
+    const markBetLost = transport.markBetLost.bind(transport);
+    let nextBet: Promise<boolean> | undefined;
+    jest.spyOn(transport, 'markBetLost').mockImplementation(async (...args) => {
+      nextBet = pots.placeBet(2, 30);
+      await nextBet;
+      return markBetLost(...args);
+    });
+
+    await pots.settle([0, 1]);
+
+    expect(await nextBet).toBe(true);
+    expect(pots.getSeatBet(2)!.amount).toBe(30);
+    expect(pots.getTotal()).toBe(30);
+  });
+
+  test('should split tied pots and take capped rake', async () => {
+    const pots = table.getPotManager();
+    pots.configure({ rake: { percentage: 0.05, cap: 6 } });
+    await pots.placeBet(0, 101);
+    await pots.placeBet(1, 101);
+    await pots.placeBet(2, 101);
+
+    const settlement = await pots.settle([[1, 0], 2]);
+
+    expect(settlement.rake).toBe(6);
+    expect(settlement.payouts).toEqual([
+      { seatIndex: 1, amount: 149 },
+      { seatIndex: 0, amount: 148 }
+    ]);
+  });
+
+  test('should not rake pots below the minimum', async () => {
+    const pots = table.getPotManager();
+    pots.configure({ rake: { percentage: 0.1, minimumPot: 100 } });
+    await pots.placeBet(0, 20);
+    await pots.placeBet(1, 20);
+
+    expect(pots.calculateRake()).toEqual([0]);
+  });
+
+  test('should show bets and pots in the table state', async () => {
+    const pots = table.getPotManager();
+    await pots.placeBet(0, 40, true);
+    await pots.placeBet(1, 60);
+
+    expect(table.getTableState().pots).toEqual({
+      bets: [
+        { seatIndex: 0, playerId: 'p0', amount: 40, allIn: true, folded: false },
+        { seatIndex: 1, playerId: 'p1', amount: 60, allIn: false, folded: false }
+      ],
+      pots: [
+        { amount: 80, eligibleSeats: [0, 1] },
+        { amount: 20, eligibleSeats: [1] }
+      ],
+      total: 100
+    });
+  });
+
+  test('should track bets without a transport module', async () => {
+    const chipTable = new Table(new EventBus(), 2, 1, 'chip-table');
+    const player = createMockPlayer('solo');
+    chipTable.addPlayer(player);
+    chipTable.sitPlayerAtSeat('solo', 0);
+
+    expect(await chipTable.getPotManager().placeBet(0, 10)).toBe(true);
+    const settlement = await chipTable.getPotManager().settle([0]);
+    expect(settlement.payouts).toEqual([{ seatIndex: 0, amount: 10 }]);
+  });
+});
@@ -0,0 +1,146 @@
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { Player } from '../../src/core/Player';
+import { TABLE_EVENTS } from '../../src/events/TableEvents';
+import { CLIENT_COMMAND_TYPES, CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import {
+  Deck,
+  ProvablyFairReveal,
+  combineSeeds,
+  createCommitment,
+  recomputeShuffle,
+  verifyShuffle
+} from '../../src/core/card';
+import { createMockPlayer, lastMessage } from '../helpers/players';
+
+describe('Provably fair utilities', () => {
+  const initialOrder = new Deck().getCardCodes();
+  const serverSeed = 'server-seed';
+  const clientSeeds = [{ playerId: 'p1', seed: 'lucky' }];
+
+  const createReveal = (): ProvablyFairReveal => ({
+    commitment: createCommitment(serverSeed, initialOrder),
+    serverSeed,
+    initialOrder,
+    clientSeeds,
+    shuffleSeed: combineSeeds(serverSeed, clientSeeds)
+  });
+
+  test('should verify a valid reveal and its shuffled order', () => {
+    const reveal = createReveal();
+    const deck = new Deck();
+    deck.shuffle(reveal.shuffleSeed);
+
+    expect(recomputeShuffle(reveal)).toEqual(deck.getCardCodes());
+    expect(verifyShuffle(reveal)).toBe(true);
+    expect(verifyShuffle(reveal, deck.getCardCodes())).toBe(true);
+  });
+
+  test('should reject a reveal that does not match the commitment', () => {
+    expect(verifyShuffle({ ...createReveal(), serverSeed: 'other-seed' })).toBe(false);
+    expect(verifyShuffle({ ...createReveal(), initialOrder: [...initialOrder].reverse() })).toBe(false);
+  });
+
+  test('should reject a reveal with tampered client seeds or order', () => {
+    const reveal = createReveal();
+
+    expect(verifyShuffle({ ...reveal, clientSeeds: [] })).toBe(false);
+    expect(verifyShuffle(reveal, [...recomputeShuffle(reveal)].reverse())).toBe(false);
+  });
+
+  test('client seeds should change the shuffle seed', () => {
+    expect(combineSeeds(serverSeed, [])).not.toBe(combineSeeds(serverSeed, clientSeeds));
+  });
+
+  test('should not combine different seeds into the same shuffle seed', () => {
+    expect(combineSeeds('server', [{ playerId: 'a=b', seed: 'c' }]))
+      .not.toBe(combineSeeds('server', [{ playerId: 'a', seed: 'b=c' }]));
+    expect(combineSeeds('server:a=b', []))
+      .not.toBe(combineSeeds('server', [{ playerId: 'a', seed: 'b' }]));
+  });
+});
+
+describe('Table provably fair shuffle', () => {
+  let eventBus: EventBus;
+  let table: Table;
+  let player: Player;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    table = new Table(eventBus, 2, 1, 'fair-table');
+    player = createMockPlayer('p1');
+    table.addPlayer(player);
+    table.createDeck();
+  });
+
+  test('should commit, mix in client seeds and reveal a verifiable shuffle', () => {
+    const spy = jest.spyOn(eventBus, 'emit');
+
+    const commitment = table.commitDeck();
+    expect(commitment).toMatch(/^[0-9a-f]{64}$/);
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.DECK_COMMITTED, table, commitment);
+    expect(lastMessage(player)).toEqual({
+      type: CLIENT_MESSAGE_TYPES.TABLE.DECK_COMMITTED,
+      data: { tableId: 'fair-table', commitment }
+    });
+    expect(table.getDeckCommitment()).toBe(commitment);
+    expect(table.getTableState().deckCommitment).toBe(commitment);
+
+    expect(table.addClientSeed('p1', 'my-seed')).toBe(true);
+    expect(table.shuffleDeck()).toBe(true);
+    const shuffledOrder = table.getDeck()!.getCardCodes();
+
+    const reveal = table.revealDeck()!;
+    expect(reveal.commitment).toBe(commitment);
+    expect(reveal.clientSeeds).toEqual([{ playerId: 'p1', seed: 'my-seed' }]);
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, table, reveal.shuffleSeed);
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.DECK_REVEALED, table, reveal);
+    expect(lastMessage(player)).toEqual({
+      type: CLIENT_MESSAGE_TYPES.TABLE.DECK_REVEALED,
+      data: { tableId: 'fair-table', ...reveal }
+    });
+    expect(verifyShuffle(reveal, shuffledOrder)).toBe(true);
+    expect(table.getDeckCommitment()).toBeNull();
+  });
+
+  test('should only accept client seeds from players before the shuffle', () => {
+    expect(table.addClientSeed('p1', 'too-early')).toBe(false);
+
+    table.commitDeck();
+    expect(table.addClientSeed('stranger', 'seed')).toBe(false);
+    expect(table.addClientSeed('p1', '')).toBe(false);
+    expect(table.addClientSeed('p1', 'first')).toBe(true);
+    expect(table.addClientSeed('p1', 'second')).toBe(true);
+
+    table.shuffleDeck();
+    expect(table.addClientSeed('p1', 'too-late')).toBe(false);
+    expect(table.revealDeck()!.clientSeeds).toEqual([{ playerId: 'p1', seed: 'second' }]);
+  });
+
+  test('should not allow choosing the seed or reshuffling a committed deck', () => {
+    table.commitDeck();
+    expect(table.revealDeck()).toBeNull();
+    expect(table.shuffleDeck('chosen-seed')).toBe(false);
+    expect(table.shuffleDeck()).toBe(true);
+    expect(table.shuffleDeck()).toBe(false);
+
+    table.revealDeck();
+    expect(table.shuffleDeck()).toBe(true);
+  });
+
+  test('should accept client seeds through the message router', () => {
+    const router = new MessageRouter(eventBus);
+    table.commitDeck();
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.DECK_SEED, seed: 42 }));
+    expect(lastMessage(player)).toEqual({ type: CLIENT_MESSAGE_TYPES.ERROR, code: CLIENT_ERROR_CODES.INVALID_PARAMETER, message: 'Invalid seed parameter' });
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.DECK_SEED, seed: 'from-client' }));
+    table.shuffleDeck();
+    expect(table.revealDeck()!.clientSeeds).toEqual([{ playerId: 'p1', seed: 'from-client' }]);
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.DECK_SEED, seed: 'late' }));
+    expect(lastMessage(player)).toEqual({ type: CLIENT_MESSAGE_TYPES.ERROR, code: CLIENT_ERROR_CODES.CLIENT_SEED_FAILED, message: 'Failed to add client seed' });
+  });
+});
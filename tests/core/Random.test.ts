@@ -0,0 +1,144 @@
+import {
+  Deck,
+  CryptoRandomSource,
+  SeededRandomSource,
+  SeedSequenceSource,
+  generateSeed,
+  shuffleWithSeed
+} from '../../src/core/card';
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { TABLE_EVENTS } from '../../src/events/TableEvents';
+
+const drawAll = (deck: Deck): string[] =>
+  deck.drawCards(deck.getRemainingCards()).map(card => `${card.rank}${card.suit}`);
+
+describe('Random sources', () => {
+  test('SeededRandomSource should produce the same sequence for the same seed', () => {
+    const a = new SeededRandomSource('seed-1');
+    const b = new SeededRandomSource('seed-1');
+    const c = new SeededRandomSource('seed-2');
+
+    const sequenceA = Array.from({ length: 20 }, () => a.next());
+    const sequenceB = Array.from({ length: 20 }, () => b.next());
+    const sequenceC = Array.from({ length: 20 }, () => c.next());
+
+    expect(sequenceA).toEqual(sequenceB);
+    expect(sequenceA).not.toEqual(sequenceC);
+    expect(a.getSeed()).toBe('seed-1');
+  });
+
+  test('random sources should produce numbers in [0, 1)', () => {
+    const sources = [new SeededRandomSource('range'), new CryptoRandomSource()];
+
+    for (const source of sources) {
+      for (let i = 0; i < 200; i++) {
+        const value = source.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    }
+  });
+
+  test('generateSeed should be deterministic for a seeded source', () => {
+    const seedA = generateSeed(new SeededRandomSource('master'));
+    const seedB = generateSeed(new SeededRandomSource('master'));
+
+    expect(seedA).toBe(seedB);
+    expect(seedA).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateSeed()).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateSeed()).not.toBe(generateSeed());
+  });
+
+  test('SeedSequenceSource should provide its seeds before falling back', () => {
+    const fallback = new SeededRandomSource('fallback');
+    const rng = new SeedSequenceSource(['first', 'second'], fallback);
+
+    expect(generateSeed(rng)).toBe('first');
+    expect(generateSeed(rng)).toBe('second');
+    expect(rng.getRemainingSeeds()).toBe(0);
+    expect(generateSeed(rng)).toBe(generateSeed(new SeededRandomSource('fallback')));
+  });
+
+  test('shuffleWithSeed should be a reproducible permutation', () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+
+    const first = shuffleWithSeed([...items], 'permutation');
+    const second = shuffleWithSeed([...items], 'permutation');
+
+    expect(first).toEqual(second);
+    expect([...first].sort((x, y) => x - y)).toEqual(items);
+  });
+});
+
+describe('Deck shuffling', () => {
+  test('should reproduce a shuffle from its seed', () => {
+    const deck = new Deck();
+    const seed = deck.shuffle();
+    const order = drawAll(deck);
+
+    const replay = new Deck();
+    expect(replay.shuffle(seed)).toBe(seed);
+    expect(drawAll(replay)).toEqual(order);
+  });
+
+  test('should record the seed of every shuffle', () => {
+    const deck = new Deck();
+    expect(deck.getLastShuffleSeed()).toBeNull();
+
+    const first = deck.shuffle();
+    deck.addToDiscard(deck.drawCard()!);
+    const second = deck.resetFromDiscard();
+
+    expect(deck.getShuffleSeeds()).toEqual([first, second]);
+    expect(deck.getLastShuffleSeed()).toBe(second);
+  });
+
+  test('should deal the same order from decks sharing a seeded source', () => {
+    const deckA = new Deck(2, { rng: new SeededRandomSource('game-42') });
+    const deckB = new Deck(2, { rng: new SeededRandomSource('game-42') });
+
+    expect(deckA.shuffle()).toBe(deckB.shuffle());
+    expect(drawAll(deckA)).toEqual(drawAll(deckB));
+  });
+});
+
+describe('Table deck randomness', () => {
+  test('should emit the shuffle seed and reproduce the shuffle', () => {
+    const eventBus = new EventBus();
+    const table = new Table(eventBus, 4, 1, 'rng-table');
+    const spy = jest.spyOn(eventBus, 'emit');
+
+    table.createDeck();
+    table.shuffleDeck();
+
+    const seed = table.getDeck()!.getLastShuffleSeed();
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, table, seed);
+
+    const order = drawAll(table.getDeck()!);
+    table.createDeck();
+    table.shuffleDeck(seed!);
+    expect(drawAll(table.getDeck()!)).toEqual(order);
+  });
+
+  test('should use the random source of the table options by default', () => {
+    const tableA = new Table(new EventBus(), 4, 1, 'a', 'default', { rng: new SeededRandomSource('table') });
+    const tableB = new Table(new EventBus(), 4, 1, 'b', 'default', { rng: new SeededRandomSource('table') });
+
+    tableA.createDeck();
+    tableB.createDeck();
+    tableA.shuffleDeck();
+    tableB.shuffleDeck();
+
+    expect(drawAll(tableA.getDeck()!)).toEqual(drawAll(tableB.getDeck()!));
+  });
+
+  test('should prefer the random source passed to createDeck', () => {
+    const rng = new SeededRandomSource('override');
+    const table = new Table(new EventBus(), 4, 1, 'c', 'default', { rng: new SeededRandomSource('table') });
+
+    table.createDeck(1, { rng });
+
+    expect(table.getDeck()!.getRandomSource()).toBe(rng);
+  });
+});
@@ -0,0 +1,267 @@
+import * as http from 'http';
+import { RateLimiter, TokenBucket } from '../../src/core/RateLimiter';
+import { WebSocketManager } from '../../src/core/WebSocketManager';
+import { GameManager } from '../../src/core/GameManager';
+import { Lobby } from '../../src/core/Lobby';
+import { TableFactory } from '../../src/core/TableFactory';
+import { EventBus } from '../../src/events/EventBus';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { PLAYER_EVENTS } from '../../src/events/PlayerEvents';
+import { Table } from '../../src/core/Table';
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES, PROTOCOL_FEATURES, PROTOCOL_VERSION } from '../../src/core/commands';
+import { Player } from '../../src/core/Player';
+
+const mockWSServer = {
+  on: jest.fn()
+};
+
+jest.mock('ws', () => {
+  return {
+    Server: jest.fn(() => mockWSServer),
+    WebSocket: {
+      CONNECTING: 0,
+      OPEN: 1,
+      CLOSING: 2,
+      CLOSED: 3
+    }
+  };
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('token buckets should refill continuously up to their capacity', () => {
+    const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 4 }, 0);
+
+    expect(bucket.take(0)).toBe(true);
+    expect(bucket.take(0)).toBe(true);
+    expect(bucket.take(0)).toBe(false);
+    expect(bucket.getRetryAfterMs(100)).toBe(150);
+    expect(bucket.take(250)).toBe(true);
+    expect(bucket.isFull(10000)).toBe(true);
+    expect(bucket.take(10000)).toBe(true);
+    expect(bucket.take(10000)).toBe(true);
+    expect(bucket.take(10000)).toBe(false);
+  });
+
+  test('should limit the messages of each player', () => {
+    const rateLimiter = new RateLimiter({ player: { capacity: 2, refillPerSecond: 1 } });
+
+    expect(rateLimiter.consumeMessage('alice', null).allowed).toBe(true);
+    expect(rateLimiter.consumeMessage('alice', null).allowed).toBe(true);
+    expect(rateLimiter.consumeMessage('alice', null)).toEqual({ allowed: false, retryAfterMs: 1000, disconnect: false });
+    expect(rateLimiter.consumeMessage('bob', null).allowed).toBe(true);
+
+    jest.advanceTimersByTime(1000);
+    expect(rateLimiter.consumeMessage('alice', null).allowed).toBe(true);
+  });
+
+  test('should limit the messages of each IP address across players', () => {
+    const rateLimiter = new RateLimiter({
+      player: { capacity: 5, refillPerSecond: 1 },
+      ip: { capacity: 2, refillPerSecond: 1 }
+    });
+
+    expect(rateLimiter.consumeMessage('alice', '10.0.0.1').allowed).toBe(true);
+    expect(rateLimiter.consumeMessage('bob', '10.0.0.1').allowed).toBe(true);
+    expect(rateLimiter.consumeMessage('carol', '10.0.0.1').allowed).toBe(false);
+    expect(rateLimiter.consumeMessage('carol', '10.0.0.2').allowed).toBe(true);
+    expect(rateLimiter.consumeMessage('dave', null).allowed).toBe(true);
+  });
+
+  test('should not take tokens for messages that are over a limit', () => {
+    const rateLimiter = new RateLimiter({
+      player: { capacity: 1, refillPerSecond: 1 },
+      ip: { capacity: 1, refillPerSecond: 1 }
+    });
+
+    expect(rateLimiter.consumeMessage('alice', '10.0.0.1').allowed).toBe(true);
+    expect(rateLimiter.consumeMessage('bob', '10.0.0.1').allowed).toBe(false);
+
+    // Bob's rejected message took nothing from his own bucket
+    expect(rateLimiter.consumeMessage('bob', '10.0.0.2').allowed).toBe(true);
+  });
+
+  test('should limit the commands of each player by action', () => {
+    const gameLimit = { capacity: 1, refillPerSecond: 0.5 };
+    const rateLimiter = new RateLimiter({ commands: { 'table:create': { capacity: 1, refillPerSecond: 0.1 } } });
+
+    expect(rateLimiter.consumeCommand('alice', 'table:create').allowed).toBe(true);
+    expect(rateLimiter.consumeCommand('alice', 'table:create')).toEqual({ allowed: false, retryAfterMs: 10000, disconnect: false });
+    expect(rateLimiter.consumeCommand('alice', 'table:leave').allowed).toBe(true);
+    expect(rateLimiter.consumeCommand('alice', 'table:leave').allowed).toBe(true);
+
+    expect(rateLimiter.consumeCommand('alice', 'poker:raise', gameLimit).allowed).toBe(true);
+    expect(rateLimiter.consumeCommand('alice', 'poker:raise', gameLimit).retryAfterMs).toBe(2000);
+  });
+
+  test('should tell when a player exceeded their limits too often', () => {
+    const rateLimiter = new RateLimiter({
+      player: { capacity: 1, refillPerSecond: 1 },
+      maxViolations: 3,
+      violationWindowMs: 10000
+    });
+
+    rateLimiter.consumeMessage('alice', null);
+    expect(rateLimiter.consumeMessage('alice', null).disconnect).toBe(false);
+    expect(rateLimiter.consumeMessage('alice', null).disconnect).toBe(false);
+    expect(rateLimiter.getViolationCount('alice')).toBe(2);
+
+    // Overages leave the window, and they are kept when the player leaves
+    jest.advanceTimersByTime(10000);
+    expect(rateLimiter.getViolationCount('alice')).toBe(0);
+    rateLimiter.consumeMessage('alice', null);
+    rateLimiter.consumeMessage('alice', null);
+    rateLimiter.consumeMessage('alice', null);
+    rateLimiter.removePlayer('alice');
+    rateLimiter.consumeMessage('alice', null);
+
+    expect(rateLimiter.consumeMessage('alice', null)).toEqual({ allowed: false, retryAfterMs: 1000, disconnect: true });
+  });
+
+  test('should get the remote address of a connection', () => {
+    const request = {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+      socket: { remoteAddress: '10.0.0.1' }
+    } as unknown as http.IncomingMessage;
+
+    expect(new RateLimiter().getRemoteAddress(request)).toBe('10.0.0.1');
+    expect(new RateLimiter({ trustProxy: true }).getRemoteAddress(request)).toBe('203.0.113.7');
+    expect(new RateLimiter().getRemoteAddress({ headers: {} } as http.IncomingMessage)).toBeNull();
+  });
+
+  describe('with a WebSocketManager', () => {
+    let eventBus: EventBus;
+    let messageRouter: MessageRouter;
+    let gameManager: GameManager;
+
+    const connect = async (remoteAddress: string, features: string[] = [PROTOCOL_FEATURES.RATE_LIMITS]) => {
+      const messages: any[] = [];
+      const handlers: Record<string, (...args: any[]) => void> = {};
+      const socket = {
+        on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+          handlers[event] = handler;
+        }),
+        send: jest.fn((data: string) => messages.push(JSON.parse(data))),
+        close: jest.fn(),
+        readyState: 1
+      };
+      const connectionHandler = mockWSServer.on.mock.calls[mockWSServer.on.mock.calls.length - 1][1];
+      const negotiate = (player: Player) => player.setProtocol(PROTOCOL_VERSION, features);
+      eventBus.on(PLAYER_EVENTS.CONNECTED, negotiate);
+      await connectionHandler(socket, { headers: {}, socket: { remoteAddress } });
+      eventBus.off(PLAYER_EVENTS.CONNECTED, negotiate);
+      messages.length = 0;
+
+      return {
+        socket,
+        messages,
+        receive: (message: Record<string, any>) => handlers.message(Buffer.from(JSON.stringify(message)))
+      };
+    };
+
+    const createManager = (rateLimiter: RateLimiter) => new WebSocketManager(
+      {} as http.Server,
+      eventBus,
+      messageRouter,
+      gameManager,
+      undefined,
+      0,
+      { updateLobbyState: jest.fn() } as unknown as Lobby,
+      {} as TableFactory,
+      rateLimiter
+    );
+
+    beforeEach(() => {
+      mockWSServer.on.mockClear();
+      eventBus = new EventBus();
+      messageRouter = new MessageRouter(eventBus);
+      gameManager = {
+        getAvailableGames: jest.fn().mockReturnValue([]),
+        getAllTables: jest.fn().mockReturnValue([]),
+        getGameDefinition: jest.fn().mockReturnValue(undefined)
+      } as unknown as GameManager;
+    });
+
+    test('should drop messages over the limits and tell the player', async () => {
+      createManager(new RateLimiter({ ip: { capacity: 2, refillPerSecond: 1 } }));
+      const handler = jest.fn();
+      messageRouter.registerCommandHandler('game:ping', handler);
+
+      const alice = await connect('10.0.0.1');
+      const bob = await connect('10.0.0.1');
+      alice.receive({ action: 'game:ping' });
+      bob.receive({ action: 'game:ping' });
+      bob.receive({ action: 'game:ping' });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(bob.messages).toEqual([{
+        type: CLIENT_MESSAGE_TYPES.RATE_LIMITED,
+        code: CLIENT_ERROR_CODES.RATE_LIMITED,
+        message: 'Too many messages',
+        retryAfterMs: 1000
+      }]);
+    });
+
+    test('should send errors to players who did not negotiate rate limit messages', async () => {
+      createManager(new RateLimiter({ player: { capacity: 1, refillPerSecond: 1 } }));
+      const alice = await connect('10.0.0.1', []);
+
+      alice.receive({ action: 'lobby:state:get' });
+      alice.messages.length = 0;
+      alice.receive({ action: 'lobby:state:get' });
+
+      expect(alice.messages).toEqual([{
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.RATE_LIMITED,
+        message: 'Too many messages'
+      }]);
+    });
+
+    test('should limit commands with the limits of the game of the table', async () => {
+      createManager(new RateLimiter({ commands: { 'poker:raise': { capacity: 5, refillPerSecond: 1 } } }));
+      (gameManager.getGameDefinition as jest.Mock).mockReturnValue({
+        rateLimits: { 'poker:raise': { capacity: 1, refillPerSecond: 1 } }
+      });
+      const handler = jest.fn();
+      messageRouter.registerCommandHandler('poker:raise', handler);
+
+      const table = { getAttribute: jest.fn().mockReturnValue('poker') } as unknown as Table;
+      eventBus.on(PLAYER_EVENTS.CONNECTED, player => {
+        jest.spyOn(player, 'getTable').mockReturnValue(table);
+      });
+      const alice = await connect('10.0.0.1');
+
+      alice.receive({ action: 'poker:raise', requestId: 'raise-1' });
+      alice.receive({ action: 'poker:raise', requestId: 'raise-2' });
+
+      const error = { code: CLIENT_ERROR_CODES.RATE_LIMITED, message: 'Too many messages' };
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(gameManager.getGameDefinition).toHaveBeenCalledWith('poker');
+      expect(alice.messages).toEqual([
+        { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'raise-1', action: 'poker:raise', success: true },
+        { type: CLIENT_MESSAGE_TYPES.RATE_LIMITED, ...error, retryAfterMs: 1000, action: 'poker:raise', requestId: 'raise-2' },
+        { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'raise-2', action: 'poker:raise', success: false, error }
+      ]);
+    });
+
+    test('should disconnect repeat offenders', async () => {
+      createManager(new RateLimiter({ player: { capacity: 1, refillPerSecond: 1 }, maxViolations: 2 }));
+      const alice = await connect('10.0.0.1');
+
+      alice.receive({ action: 'lobby:state' });
+      alice.receive({ action: 'lobby:state' });
+      expect(alice.socket.close).not.toHaveBeenCalled();
+
+      alice.receive({ action: 'lobby:state' });
+      expect(alice.socket.close).toHaveBeenCalledWith(1008, 'Rate limit exceeded');
+    });
+  });
+});
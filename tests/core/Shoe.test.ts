@@ -0,0 +1,93 @@
+import { Shoe, DECK_SPECS, SeededRandomSource } from '../../src/core/card';
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { TABLE_EVENTS } from '../../src/events/TableEvents';
+
+describe('Shoe', () => {
+  test('should place the cut card by penetration', () => {
+    expect(new Shoe().getCutCardPosition()).toBe(234); // 75% of 312 cards
+    expect(new Shoe(2, { penetration: 0.5 }).getCutCardPosition()).toBe(52);
+    expect(new Shoe(1, { cutCardPosition: 10 }).getCutCardPosition()).toBe(10);
+    expect(new Shoe(1, { cutCardPosition: 1000 }).getCutCardPosition()).toBe(52);
+  });
+
+  test('should notify once when the cut card is reached', () => {
+    const onCutCardReached = jest.fn();
+    const shoe = new Shoe(1, { cutCardPosition: 5, onCutCardReached });
+    shoe.shuffle();
+
+    shoe.drawCards(4);
+    expect(shoe.isCutCardReached()).toBe(false);
+    expect(onCutCardReached).not.toHaveBeenCalled();
+
+    shoe.drawCards(3);
+    expect(shoe.isCutCardReached()).toBe(true);
+    expect(onCutCardReached).toHaveBeenCalledTimes(1);
+    expect(onCutCardReached).toHaveBeenCalledWith(shoe);
+    expect(shoe.getDealtCards()).toBe(7);
+    expect(shoe.getPenetration()).toBeCloseTo(7 / 52);
+  });
+
+  test('should only reshuffle at the round boundary once the cut card is reached', () => {
+    const shoe = new Shoe(1, { cutCardPosition: 5, rng: new SeededRandomSource('shoe') });
+    shoe.shuffle();
+
+    shoe.drawCards(2).forEach(card => shoe.addToDiscard(card));
+    expect(shoe.prepareForRound()).toBeNull();
+    expect(shoe.getRemainingCards()).toBe(50);
+
+    shoe.drawCards(4).forEach(card => shoe.addToDiscard(card));
+    const seed = shoe.prepareForRound();
+    expect(seed).toBe(shoe.getLastShuffleSeed());
+    expect(shoe.getRemainingCards()).toBe(52);
+    expect(shoe.getDiscardedCards()).toBe(0);
+    expect(shoe.isCutCardReached()).toBe(false);
+    expect(shoe.getDealtCards()).toBe(0);
+  });
+
+  test('should move the cut card', () => {
+    const shoe = new Shoe(1, { spec: DECK_SPECS.EUCHRE, cutCardPosition: 20 });
+    shoe.shuffle();
+    shoe.drawCards(3);
+
+    shoe.setCutCardPosition(2);
+    expect(shoe.getCutCardPosition()).toBe(2);
+    shoe.drawCard();
+    expect(shoe.isCutCardReached()).toBe(true);
+  });
+});
+
+describe('Table shoe', () => {
+  test('should create a shoe and emit when the cut card is reached', () => {
+    const eventBus = new EventBus();
+    const table = new Table(eventBus, 4, 1, 'shoe-table');
+    const onCutCardReached = jest.fn();
+    const spy = jest.spyOn(eventBus, 'emit');
+
+    table.createDeck(2, { shoe: true, cutCardPosition: 3, onCutCardReached });
+    const shoe = table.getDeck() as Shoe;
+    expect(shoe).toBeInstanceOf(Shoe);
+    expect(shoe.getRemainingCards()).toBe(104);
+
+    table.shuffleDeck();
+    table.drawCard();
+    table.drawCard();
+    expect(spy).not.toHaveBeenCalledWith(TABLE_EVENTS.SHOE_CUT_CARD_REACHED, table, shoe);
+
+    table.drawCard();
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.SHOE_CUT_CARD_REACHED, table, shoe);
+    expect(onCutCardReached).toHaveBeenCalledWith(shoe);
+
+    expect(table.prepareDeckForRound()).toBe(true);
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, table, shoe.getLastShuffleSeed());
+    expect(table.prepareDeckForRound()).toBe(false);
+  });
+
+  test('should not prepare plain decks', () => {
+    const table = new Table(new EventBus(), 4, 1, 'deck-table');
+    table.createDeck();
+
+    expect(table.getDeck()).not.toBeInstanceOf(Shoe);
+    expect(table.prepareDeckForRound()).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { applyStatePatch, createStatePatch } from '../../src/core/StatePatch';
+
+describe('StatePatch', () => {
+  test('should return an empty patch for equal states', () => {
+    expect(createStatePatch({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] })).toEqual([]);
+  });
+
+  test('should describe added, removed and replaced values', () => {
+    const previous = { a: 1, b: { c: 'x' }, gone: true };
+    const next = { a: 2, b: { c: 'x', d: null }, added: [1] };
+
+    expect(createStatePatch(previous, next)).toEqual([
+      { op: 'remove', path: '/gone' },
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'add', path: '/b/d', value: null },
+      { op: 'add', path: '/added', value: [1] }
+    ]);
+  });
+
+  test('should diff arrays of equal length per element and replace resized arrays', () => {
+    expect(createStatePatch({ seats: [{ p: null }, { p: 'a' }] }, { seats: [{ p: 'b' }, { p: 'a' }] }))
+      .toEqual([{ op: 'replace', path: '/seats/0/p', value: 'b' }]);
+
+    expect(createStatePatch({ cards: [1] }, { cards: [1, 2] }))
+      .toEqual([{ op: 'replace', path: '/cards', value: [1, 2] }]);
+  });
+
+  test('should escape path segments', () => {
+    const patch = createStatePatch({}, { 'a/b~c': 1 });
+    expect(patch).toEqual([{ op: 'add', path: '/a~1b~0c', value: 1 }]);
+    expect(applyStatePatch({}, patch)).toEqual({ 'a/b~c': 1 });
+  });
+
+  test('should round-trip complex states without modifying the input', () => {
+    const previous = {
+      id: 't1',
+      seats: [{ player: null, hands: { main: { cards: [] } } }, { player: { id: 'p1' }, hands: {} }],
+      attributes: { pot: 10, round: 1 }
+    };
+    const next = {
+      id: 't1',
+      seats: [{ player: { id: 'p2' }, hands: { main: { cards: [{ rank: 'A' }] } } }, { player: null, hands: {} }],
+      attributes: { pot: 25 }
+    };
+    const copy = JSON.parse(JSON.stringify(previous));
+
+    expect(applyStatePatch(previous, createStatePatch(previous, next))).toEqual(next);
+    expect(previous).toEqual(copy);
+  });
+
+  test('should throw on invalid paths', () => {
+    expect(() => applyStatePatch({ a: 1 }, [{ op: 'replace', path: '/a/b/c', value: 1 }]))
+      .toThrow('Invalid patch path: /a/b/c');
+  });
+});
@@ -209,6 +209,14 @@ describe('Table', () => {
     expect(table.getState()).toBe(TableState.ENDED);
     expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.STATE_UPDATED, table, TableState.ENDED);
   });
+
+  test('should report the state of the table when its state is broadcast', () => {
+    const spy = jest.spyOn(eventBus, 'emit');
+
+    table.broadcastTableState();
+
+    expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.STATE_UPDATED, table, TableState.WAITING);
+  });
   
   test('should broadcast message to all players', () => {
     table.addPlayer(player1);
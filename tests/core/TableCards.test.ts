@@ -95,7 +95,7 @@ describe('Table Card Functionality', () => {
       
       table.createDeck();
       expect(table.shuffleDeck()).toBe(true);
-      expect(spy).toHaveBeenCalledWith('table:deck:shuffled', table);
+      expect(spy).toHaveBeenCalledWith('table:deck:shuffled', table, expect.any(String));
     });
     
     test('should draw a card from the deck', () => {
@@ -26,6 +26,7 @@ jest.mock('../../src/core/Player');
 
 // Also mock crypto for predictable IDs
 jest.mock('crypto', () => ({
+  ...jest.requireActual('crypto'),
   randomUUID: jest.fn().mockReturnValue('mock-uuid')
 }));
 
@@ -197,7 +198,7 @@ describe('Table Extended Tests', () => {
       
       table.shuffleDeck();
       
-      expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, table);
+      expect(spy).toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, table, expect.any(String));
     });
     
     test('should not shuffle when no deck exists', () => {
@@ -205,7 +206,7 @@ describe('Table Extended Tests', () => {
       
       table.shuffleDeck();
       
-      expect(spy).not.toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, table);
+      expect(spy).not.toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, table, expect.anything());
     });
   });
   
@@ -461,6 +462,8 @@ describe('Table Extended Tests', () => {
         state: TableState.WAITING,
         seats: ['player1', null],
         playerCount: 1,
+        spectatorCount: 0,
+        maxSpectators: 50,
         gameId: 'test-game',
         gameName: 'Test Game',
         options: { betLimit: 100 }
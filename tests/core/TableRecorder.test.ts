@@ -0,0 +1,265 @@
+import * as WebSocket from 'ws';
+import { Table } from '../../src/core/Table';
+import { Player } from '../../src/core/Player';
+import { TableLog, TableRecorder } from '../../src/core/TableRecorder';
+import { replayTableLog, TableReplayContext } from '../../src/core/TableReplay';
+import { EventBus } from '../../src/events/EventBus';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { TABLE_EVENTS } from '../../src/events/EventTypes';
+import { CLIENT_COMMAND_TYPES } from '../../src/core/commands/index';
+import { SeededRandomSource } from '../../src/core/card';
+
+function createPlayer(id: string, eventBus: EventBus): Player {
+  const socket = { on: jest.fn(), send: jest.fn(), readyState: 1 } as unknown as WebSocket.WebSocket;
+  return new Player(socket, eventBus, id);
+}
+
+// A minimal game: every seated player is dealt a card from a freshly shuffled deck
+function setupGame(table: Table, { messageRouter }: Pick<TableReplayContext, 'messageRouter'>): void {
+  messageRouter.registerCommandHandler('game:deal', (player) => {
+    const playerTable = player.getTable();
+    if (!playerTable) return;
+
+    playerTable.createDeck();
+    playerTable.shuffleDeck();
+    playerTable.getSeats().forEach((seat, seatIndex) => {
+      if (seat.getPlayer()) playerTable.dealCardToSeat(seatIndex);
+    });
+  });
+}
+
+describe('TableRecorder', () => {
+  let eventBus: EventBus;
+  let messageRouter: MessageRouter;
+  let table: Table;
+  let alice: Player;
+  let bob: Player;
+
+  const send = (player: Player, message: Record<string, any>) => {
+    messageRouter.processMessage(player, JSON.stringify(message));
+  };
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    messageRouter = new MessageRouter(eventBus);
+    table = new Table(eventBus, 4, 1, 'recorded-table', 'test-game');
+    setupGame(table, { messageRouter });
+
+    // The join and sit requests of the built-in commands, as the WebSocketManager handles them
+    eventBus.on('request:table:join', (player: Player, tableId: string) => {
+      if (tableId === table.id) table.addPlayer(player);
+    });
+    eventBus.on('request:table:seat:sit', (player: Player, _tableId: string, seatIndex: number) => {
+      table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table, seatIndex);
+    });
+
+    alice = createPlayer('alice', eventBus);
+    bob = createPlayer('bob', eventBus);
+    alice.setAttribute('name', 'Alice');
+    table.addPlayer(alice);
+    table.setAttribute('stakes', 'low');
+  });
+
+  afterEach(() => {
+    table.dispose();
+  });
+
+  const playSession = (recorder: TableRecorder) => {
+    recorder.start();
+    send(bob, { action: CLIENT_COMMAND_TYPES.TABLE.JOIN, tableId: table.id });
+    send(alice, { action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 0 });
+    send(bob, { action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 2 });
+    bob.setAttribute('balance', 500);
+    send(alice, { action: 'game:deal' });
+    recorder.stop();
+  };
+
+  test('should record a snapshot, the events, the commands and the seeds of a session', () => {
+    const recorder = new TableRecorder(table, eventBus);
+    playSession(recorder);
+
+    const entries = recorder.getLog().getEntries();
+    expect(entries.map(entry => entry.sequence)).toEqual(entries.map((_, index) => index));
+
+    expect(entries[0].type).toBe('start');
+    expect(entries[0].data).toMatchObject({
+      tableId: 'recorded-table',
+      gameId: 'test-game',
+      totalSeats: 4,
+      attributes: { stakes: 'low' },
+      players: [{ id: 'alice', attributes: { name: 'Alice' }, seats: [] }],
+      spectators: []
+    });
+
+    const commands = entries.filter(entry => entry.type === 'command');
+    expect(commands.map(entry => [entry.playerId, entry.name])).toEqual([
+      ['bob', CLIENT_COMMAND_TYPES.TABLE.JOIN],
+      ['alice', CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT],
+      ['bob', CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT],
+      ['alice', 'game:deal']
+    ]);
+
+    expect(entries.find(entry => entry.name === TABLE_EVENTS.PLAYER_SAT)?.data)
+      .toEqual([{ playerId: 'alice' }, { tableId: 'recorded-table' }, 0]);
+    expect(entries.find(entry => entry.name === 'player:attribute:changed'))
+      .toMatchObject({ playerId: 'bob', data: [{ playerId: 'bob' }, 'balance', 500] });
+
+    const seeds = recorder.getLog().getSeeds();
+    expect(seeds).toEqual([table.getDeck()!.getLastShuffleSeed()]);
+
+    const end = entries[entries.length - 1];
+    expect(end.type).toBe('end');
+    expect(end.data).toEqual(JSON.parse(JSON.stringify(table.getTableState())));
+  });
+
+  test('should not record commands of players at other tables', () => {
+    const other = new Table(eventBus, 2, 1, 'other-table');
+    const carol = createPlayer('carol', eventBus);
+    other.addPlayer(carol);
+
+    const recorder = new TableRecorder(table, eventBus);
+    recorder.start();
+    send(carol, { action: 'game:deal' });
+
+    expect(recorder.getLog().getEntries().filter(entry => entry.type === 'command')).toHaveLength(0);
+    other.dispose();
+  });
+
+  test('should not record commands that were rejected', () => {
+    const recorder = new TableRecorder(table, eventBus);
+    recorder.start();
+    send(alice, { action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 'first' });
+    send(alice, { action: 'game:unknown' });
+    send(bob, { action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 1 });
+    send(alice, { action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 0 });
+
+    const commands = recorder.getLog().getEntries().filter(entry => entry.type === 'command');
+    expect(commands.map(entry => [entry.playerId, entry.data])).toEqual([
+      ['alice', { action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 0 }]
+    ]);
+  });
+
+  test('should restore the random sources when it stops', () => {
+    const rng = new SeededRandomSource('table');
+    table.setRandomSource(rng);
+    table.createDeck(1, { rng: new SeededRandomSource('deck') });
+    const deckRng = table.getDeck()!.getRandomSource();
+
+    const recorder = new TableRecorder(table, eventBus);
+    expect(recorder.start()).toBe(true);
+    expect(recorder.start()).toBe(false);
+    expect(table.getRandomSource()).not.toBe(rng);
+
+    table.shuffleDeck();
+    expect(recorder.getLog().getSeeds()).toEqual([table.getDeck()!.getLastShuffleSeed()]);
+
+    expect(recorder.stop()).toBe(true);
+    expect(recorder.stop()).toBe(false);
+    expect(recorder.isRecording()).toBe(false);
+    expect(table.getRandomSource()).toBe(rng);
+    expect(table.getDeck()!.getRandomSource()).toBe(deckRng);
+  });
+
+  test('should stream appended entries as NDJSON lines', () => {
+    const log = new TableLog();
+    const lines: string[] = [];
+    log.onAppend((_entry, line) => lines.push(line));
+
+    playSession(new TableRecorder(table, eventBus, log));
+
+    expect(lines.map(line => line + '\n').join('')).toBe(log.toNDJSON());
+  });
+
+  test('should export and import the log as NDJSON', () => {
+    const recorder = new TableRecorder(table, eventBus);
+    playSession(recorder);
+
+    const ndjson = recorder.getLog().toNDJSON();
+    expect(ndjson.trim().split('\n')).toHaveLength(recorder.getLog().getEntries().length);
+
+    const imported = TableLog.fromNDJSON(ndjson);
+    expect(imported.getEntries()).toEqual(recorder.getLog().getEntries());
+  });
+
+  test('should reject invalid NDJSON logs', () => {
+    const line = JSON.stringify({ sequence: 0, timestamp: 1, type: 'start', data: {} });
+
+    expect(() => TableLog.fromNDJSON(`${line}\n{invalid`)).toThrow(/line 2/);
+    expect(() => TableLog.fromNDJSON(JSON.stringify({ sequence: 0, timestamp: 1, type: 'other', data: {} })))
+      .toThrow('Invalid table log entry on line 1');
+    expect(() => TableLog.fromNDJSON(`${line}\n${line}`)).toThrow('Table log entry on line 2 is out of order');
+  });
+});
+
+describe('replayTableLog', () => {
+  let eventBus: EventBus;
+  let messageRouter: MessageRouter;
+  let table: Table;
+  let log: TableLog;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    messageRouter = new MessageRouter(eventBus);
+    table = new Table(eventBus, 4, 1, 'recorded-table', 'test-game', { rng: new SeededRandomSource('session') });
+    setupGame(table, { messageRouter });
+    eventBus.on('request:table:seat:sit', (player: Player, _tableId: string, seatIndex: number) => {
+      table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table, seatIndex);
+    });
+
+    const alice = createPlayer('alice', eventBus);
+    const bob = createPlayer('bob', eventBus);
+    table.addPlayer(alice);
+    table.addPlayer(bob);
+    table.sitPlayerAtSeat('bob', 3);
+
+    const recorder = new TableRecorder(table, eventBus);
+    recorder.start();
+    messageRouter.processMessage(alice, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 1 }));
+    alice.setAttribute('balance', 250);
+    messageRouter.processMessage(bob, JSON.stringify({ action: 'game:deal' }));
+    recorder.stop();
+    log = TableLog.fromNDJSON(recorder.getLog().toNDJSON());
+  });
+
+  afterEach(() => {
+    table.dispose();
+  });
+
+  test('should reproduce the recorded table state', async () => {
+    const result = await replayTableLog(log, { setup: setupGame });
+
+    expect(result.differences).toEqual([]);
+    expect(result.matches).toBe(true);
+    expect(result.table.getPlayerAtSeat(1)?.getAttribute('balance')).toBe(250);
+    expect(result.table.getHandAtSeat(1)?.getCards()).toHaveLength(1);
+    expect(result.table.getDeck()!.getLastShuffleSeed()).toBe(table.getDeck()!.getLastShuffleSeed());
+    result.table.dispose();
+  });
+
+  test('should report the differences when the replay diverges', async () => {
+    const tampered = log.getEntries().map(entry =>
+      entry.type === 'seed' ? { ...entry, data: 'tampered-seed' } : entry
+    );
+
+    const result = await replayTableLog(tampered, { setup: setupGame });
+
+    expect(result.matches).toBe(false);
+    expect(result.differences.length).toBeGreaterThan(0);
+    expect(result.actualState).toEqual(result.table.getTableState());
+    result.table.dispose();
+  });
+
+  test('should not match a log without an end entry', async () => {
+    const entries = log.getEntries().filter(entry => entry.type !== 'end');
+
+    const result = await replayTableLog(entries, { setup: setupGame });
+
+    expect(result.matches).toBe(false);
+    expect(result.expectedState).toBeNull();
+    result.table.dispose();
+  });
+
+  test('should reject a log without a start entry', async () => {
+    await expect(replayTableLog([])).rejects.toThrow('The table log has no start entry');
+  });
+});
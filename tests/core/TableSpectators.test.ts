@@ -0,0 +1,118 @@
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { Player } from '../../src/core/Player';
+import { TABLE_EVENTS } from '../../src/events/EventTypes';
+import { CLIENT_COMMAND_TYPES, CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { Card, CardRank, CardSuit } from '../../src/core/card';
+import { createMockPlayer } from '../helpers/players';
+
+describe('Table spectators', () => {
+  let eventBus: EventBus;
+  let table: Table;
+  let player: Player;
+  let spectator: Player;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    table = new Table(eventBus, 2, 1, 'spectated-table', 'default', { maxSpectators: 1 });
+    player = createMockPlayer('player');
+    spectator = createMockPlayer('spectator');
+    table.addPlayer(player);
+  });
+
+  test('should add spectators up to the spectator capacity', () => {
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+
+    expect(table.addSpectator(spectator)).toBe(true);
+    expect(spectator.getTable()).toBe(table);
+    expect(table.isSpectator('spectator')).toBe(true);
+    expect(table.getSpectatorCount()).toBe(1);
+    expect(table.getPlayerCount()).toBe(1);
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.SPECTATOR_JOINED, spectator, table);
+
+    expect(table.addSpectator(createMockPlayer('another'))).toBe(false);
+    expect(table.addSpectator(player)).toBe(false);
+  });
+
+  test('should not let spectators sit until they are promoted', () => {
+    table.addSpectator(spectator);
+    expect(table.sitPlayerAtSeat('spectator', 0)).toBe(false);
+
+    table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, spectator, table, 0);
+    expect(spectator.sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.SEAT_SIT_FAILED,
+      message: 'Failed to sit at seat: spectators must switch to player first'
+    });
+
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+    expect(table.promoteSpectator('spectator')).toBe(true);
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.PLAYER_ROLE_CHANGED, spectator, table, 'player');
+    expect(table.sitPlayerAtSeat('spectator', 0)).toBe(true);
+  });
+
+  test('should stand players up when they become spectators', () => {
+    table.sitPlayerAtSeat('player', 1);
+
+    expect(table.demoteToSpectator('player')).toBe(true);
+    expect(table.getPlayerAtSeat(1)).toBeNull();
+    expect(table.isSpectator('player')).toBe(true);
+    expect(table.getPlayerCount()).toBe(0);
+
+    // Capacity is shared with other spectators
+    expect(table.addSpectator(spectator)).toBe(false);
+  });
+
+  test('should give spectators the public view and include them in broadcasts', () => {
+    table.sitPlayerAtSeat('player', 0);
+    const hidden: Card = { suit: CardSuit.CLUBS, rank: CardRank.TWO, isVisible: false };
+    table.getHandAtSeat(0)!.addCard(hidden);
+    table.addSpectator(spectator);
+
+    table.broadcastTableState();
+    const calls = (spectator.sendMessage as jest.Mock).mock.calls;
+    const state = calls[calls.length - 1][0].data;
+    expect(state.seats[0].hands.main.cards).toEqual([]);
+    expect(state.seats[0].hands.main.hiddenCardCount).toBe(1);
+    expect(state.spectatorCount).toBe(1);
+  });
+
+  test('should report spectator counts in the metadata', () => {
+    table.addSpectator(spectator);
+    const metadata = table.getTableMetadata();
+    expect(metadata.spectatorCount).toBe(1);
+    expect(metadata.maxSpectators).toBe(1);
+  });
+
+  test('should remove spectators and emit empty when nobody is left', () => {
+    table.addSpectator(spectator);
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+
+    table.removePlayer('player');
+    expect(emitSpy).not.toHaveBeenCalledWith(TABLE_EVENTS.EMPTY, table);
+
+    expect(table.removePlayer('spectator')).toBe(true);
+    expect(spectator.getTable()).toBeNull();
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.SPECTATOR_LEFT, spectator, table);
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.EMPTY, table);
+  });
+
+  test('should route spectate and role switch commands', () => {
+    const router = new MessageRouter(eventBus);
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+
+    router.processMessage(spectator, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.SPECTATE, tableId: 'spectated-table' }));
+    expect(emitSpy).toHaveBeenCalledWith('request:table:spectate', spectator, 'spectated-table');
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.SWITCH_ROLE, role: 'spectator' }));
+    expect(emitSpy).toHaveBeenCalledWith('request:table:role:switch', player, 'spectated-table', 'spectator');
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.SWITCH_ROLE, role: 'dealer' }));
+    expect(player.sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.INVALID_PARAMETER,
+      message: 'Invalid role parameter'
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { Player } from '../../src/core/Player';
+import { applyStatePatch } from '../../src/core/StatePatch';
+import { CLIENT_COMMAND_TYPES, CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES, PROTOCOL_FEATURES } from '../../src/core/commands/index';
+import { createMockPlayer, lastMessage } from '../helpers/players';
+
+describe('Table state synchronization', () => {
+  let eventBus: EventBus;
+  let table: Table;
+  let player: Player;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    table = new Table(eventBus, 2, 1, 'sync-table');
+    player = createMockPlayer('p1', { features: [PROTOCOL_FEATURES.STATE_PATCHES] });
+    table.addPlayer(player);
+  });
+
+  test('should send full snapshots until the player acknowledges a version', () => {
+    table.broadcastTableState();
+    const first = lastMessage(player);
+    expect(first.type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+    expect(first.version).toBe(table.getStateVersion());
+
+    table.setAttribute('round', 1);
+    table.broadcastTableState();
+    expect(lastMessage(player).type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+  });
+
+  test('should send patches against the acknowledged version', () => {
+    table.broadcastTableState();
+    const full = lastMessage(player);
+    expect(table.acknowledgeState('p1', full.version)).toBe(true);
+
+    table.setAttribute('round', 2);
+    table.broadcastTableState();
+
+    const patchMessage = lastMessage(player);
+    expect(patchMessage.type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE_PATCH);
+    expect(patchMessage.data.tableId).toBe('sync-table');
+    expect(patchMessage.data.baseVersion).toBe(full.version);
+    expect(patchMessage.data.patch).toEqual([{ op: 'add', path: '/attributes/round', value: 2 }]);
+
+    const rebuilt = applyStatePatch(full.data, patchMessage.data.patch);
+    expect(rebuilt).toEqual(JSON.parse(JSON.stringify(table.getTableState(player))));
+  });
+
+  test('should not send anything when nothing changed for the player', () => {
+    table.broadcastTableState();
+    table.acknowledgeState('p1', lastMessage(player).version);
+    const count = (player.sendMessage as jest.Mock).mock.calls.length;
+
+    table.broadcastTableState();
+    expect((player.sendMessage as jest.Mock).mock.calls.length).toBe(count);
+  });
+
+  test('should reject acknowledgements of unknown versions', () => {
+    expect(table.acknowledgeState('p1', 99)).toBe(false);
+    expect(table.acknowledgeState('unknown', 1)).toBe(false);
+  });
+
+  test('should send full snapshots after a resync until the resync is acknowledged', () => {
+    table.broadcastTableState();
+    table.acknowledgeState('p1', lastMessage(player).version);
+
+    table.sendTableState(player);
+    const resync = lastMessage(player);
+    table.setAttribute('round', 5);
+    table.broadcastTableState();
+    expect(lastMessage(player).type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+
+    table.acknowledgeState('p1', resync.version);
+    table.setAttribute('round', 6);
+    table.broadcastTableState();
+
+    const patchMessage = lastMessage(player);
+    expect(patchMessage.type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE_PATCH);
+    expect(patchMessage.data.baseVersion).toBe(resync.version);
+    expect(applyStatePatch(resync.data, patchMessage.data.patch)).toEqual(table.getTableState(player));
+  });
+
+  test('should build the state of spectators once per broadcast', () => {
+    const spectators = ['s1', 's2'].map(id => createMockPlayer(id, { features: [PROTOCOL_FEATURES.STATE_PATCHES] }));
+    spectators.forEach(spectator => table.addSpectator(spectator));
+
+    table.broadcastTableState();
+
+    expect(lastMessage(spectators[0]).data).toBe(lastMessage(spectators[1]).data);
+    expect(lastMessage(spectators[0]).data).not.toBe(lastMessage(player).data);
+  });
+
+  test('should handle acknowledgement and resync commands', () => {
+    const router = new MessageRouter(eventBus);
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.RESYNC_STATE }));
+    const full = lastMessage(player);
+    expect(full.type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.ACK_STATE, version: full.version }));
+    table.setAttribute('round', 3);
+    table.broadcastTableState();
+    expect(lastMessage(player).type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE_PATCH);
+
+    // Acknowledging a version the server does not know triggers a full resync
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.ACK_STATE, version: 1000 }));
+    expect(lastMessage(player).type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.ACK_STATE }));
+    expect(lastMessage(player)).toEqual({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.MISSING_PARAMETER,
+      message: 'Missing version parameter'
+    });
+  });
+
+  test('should keep sending full snapshots to players who did not negotiate patches', () => {
+    const router = new MessageRouter(eventBus);
+    const legacyPlayer = createMockPlayer('p2');
+    table.addPlayer(legacyPlayer);
+
+    table.broadcastTableState();
+    router.processMessage(legacyPlayer, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.ACK_STATE, version: lastMessage(legacyPlayer).version }));
+    table.setAttribute('round', 4);
+    table.broadcastTableState();
+
+    expect(lastMessage(legacyPlayer).type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+    expect(lastMessage(legacyPlayer).data.attributes).toEqual({ round: 4 });
+  });
+});
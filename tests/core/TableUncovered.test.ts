@@ -54,10 +54,21 @@ describe('Table Uncovered Lines Tests', () => {
       expect(emitSpy).toHaveBeenCalledWith(
         TABLE_EVENTS.CARD_DEALT,
         table,
+        -1,
         expect.any(Object), // Card
         'test-hand'
       );
     });
+
+    test('should report the seat of the hand a card is dealt to', () => {
+      table.createDeck();
+      const hand = table.getHandAtSeat(1)!;
+      const emitSpy = jest.spyOn(eventBus, 'emit');
+
+      table.dealCardToHand(hand);
+
+      expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.CARD_DEALT, table, 1, expect.any(Object), 'main');
+    });
     
     test('should return false when dealing a card to hand with no deck', () => {
       // No deck created
@@ -157,7 +168,7 @@ describe('Table Uncovered Lines Tests', () => {
       expect(tableState.playerCount).toBe(1);
       
       // Verify seat info is included
-      expect(tableState.seats[0].player.id).toBe('player-1');
+      expect(tableState.seats[0].player!.id).toBe('player-1');
       expect(tableState.seats[0].hands).toHaveProperty('main');
       expect(tableState.seats[0].hands).toHaveProperty('secondary');
     });
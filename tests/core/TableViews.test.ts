@@ -0,0 +1,83 @@
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { Player } from '../../src/core/Player';
+import { Card, CardRank, CardSuit } from '../../src/core/card';
+import { CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { createMockPlayer } from '../helpers/players';
+
+describe('Table state views', () => {
+  let eventBus: EventBus;
+  let table: Table;
+  let alice: Player;
+  let bob: Player;
+  const holeCard: Card = { suit: CardSuit.SPADES, rank: CardRank.ACE, isVisible: false };
+  const upCard: Card = { suit: CardSuit.HEARTS, rank: CardRank.KING, isVisible: true };
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    table = new Table(eventBus, 2, 1, 'view-table');
+    alice = createMockPlayer('alice');
+    bob = createMockPlayer('bob');
+
+    table.addPlayer(alice);
+    table.addPlayer(bob);
+    table.sitPlayerAtSeat('alice', 0);
+    table.sitPlayerAtSeat('bob', 1);
+
+    table.getHandAtSeat(0)!.addCard({ ...holeCard });
+    table.getHandAtSeat(0)!.addCard({ ...upCard });
+  });
+
+  test('should only count hidden cards in the public view', () => {
+    const hand = table.getTableState().seats[0].hands.main;
+    expect(hand.cards).toEqual([upCard]);
+    expect(hand.hiddenCardCount).toBe(1);
+  });
+
+  test('should reveal hidden cards to the seat owner only', () => {
+    const ownView = table.getTableState(alice).seats[0].hands.main;
+    expect(ownView.cards).toEqual([holeCard, upCard]);
+    expect(ownView.hiddenCardCount).toBe(1);
+
+    const otherView = table.getTableState(bob).seats[0].hands.main;
+    expect(otherView.cards).toEqual([upCard]);
+    expect(otherView.hiddenCardCount).toBe(1);
+  });
+
+  test('should treat unknown viewers as spectators and resolve custom roles', () => {
+    const outsider = createMockPlayer('outsider');
+    const admin = createMockPlayer('admin');
+
+    expect(table.getViewerRole(outsider)).toBe('spectator');
+    expect(table.getTableState(outsider).seats[0].hands.main.cards).toEqual([upCard]);
+
+    table.setViewerRoleResolver(viewer => viewer.id === 'admin' ? 'admin' : null);
+    expect(table.getViewerRole(admin)).toBe('admin');
+    expect(table.getViewerRole(alice)).toBe('player');
+    expect(table.getTableState(admin).seats[0].hands.main.cards).toEqual([holeCard, upCard]);
+  });
+
+  test('should apply the projector registered for the viewer role', () => {
+    const outsider = createMockPlayer('outsider');
+    table.setAttribute('secret', 42);
+    table.setStateProjector('spectator', (state) => ({ ...state, attributes: {} }));
+
+    expect(table.getTableState(outsider).attributes).toEqual({});
+    expect(table.getTableState(alice).attributes).toEqual({ secret: 42 });
+
+    table.setStateProjector('spectator', null);
+    expect(table.getTableState(outsider).attributes).toEqual({ secret: 42 });
+  });
+
+  test('should send each player a tailored table state', () => {
+    table.broadcastTableState();
+
+    const aliceState = (alice.sendMessage as jest.Mock).mock.calls.pop()[0];
+    const bobState = (bob.sendMessage as jest.Mock).mock.calls.pop()[0];
+
+    expect(aliceState.type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+    expect(aliceState.data.seats[0].hands.main.cards).toHaveLength(2);
+    expect(bobState.type).toBe(CLIENT_MESSAGE_TYPES.TABLE.STATE);
+    expect(bobState.data.seats[0].hands.main.cards).toHaveLength(1);
+  });
+});
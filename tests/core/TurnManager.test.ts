@@ -0,0 +1,157 @@
+import { Table } from '../../src/core/Table';
+import { EventBus } from '../../src/events/EventBus';
+import { Player } from '../../src/core/Player';
+import { TABLE_EVENTS } from '../../src/events/EventTypes';
+import { CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { createMockPlayer } from '../helpers/players';
+
+describe('TurnManager', () => {
+  let eventBus: EventBus;
+  let table: Table;
+  let players: Player[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    eventBus = new EventBus();
+    table = new Table(eventBus, 4, 1, 'turn-table');
+
+    players = [
+      createMockPlayer('player0'),
+      createMockPlayer('player1'),
+      createMockPlayer('player2', { attributes: { connectionStatus: 'disconnected' } })
+    ];
+
+    table.addPlayer(players[0]);
+    table.addPlayer(players[1]);
+    table.addPlayer(players[2]);
+    table.sitPlayerAtSeat('player0', 0);
+    table.sitPlayerAtSeat('player1', 2);
+    table.sitPlayerAtSeat('player2', 3);
+  });
+
+  afterEach(() => {
+    table.getTurnManager().dispose();
+    jest.useRealTimers();
+  });
+
+  test('should rotate over occupied seats and skip disconnected players', () => {
+    const turns = table.getTurnManager();
+
+    expect(turns.start()).toBe(true);
+    expect(turns.getCurrentSeatIndex()).toBe(0);
+    expect(turns.getTurnOrder()).toEqual([0, 2]);
+
+    turns.next();
+    expect(turns.getCurrentSeatIndex()).toBe(2);
+    expect(turns.isPlayerTurn('player1')).toBe(true);
+
+    turns.next();
+    expect(turns.getCurrentSeatIndex()).toBe(0);
+  });
+
+  test('should skip seats with skip attributes or a custom predicate', () => {
+    const turns = table.getTurnManager();
+    table.getSeat(0)!.setAttribute('folded', true);
+
+    turns.start();
+    expect(turns.getCurrentSeatIndex()).toBe(2);
+
+    table.getSeat(0)!.setAttribute('folded', false);
+    turns.configure({ shouldSkipSeat: (_seat, seatIndex) => seatIndex === 2 });
+    turns.start();
+    expect(turns.getCurrentSeatIndex()).toBe(0);
+    expect(turns.getTurnOrder()).toEqual([0]);
+  });
+
+  test('should return false when no seat is eligible', () => {
+    const emptyTable = new Table(eventBus, 2, 1, 'empty-table');
+    expect(emptyTable.getTurnManager().start()).toBe(false);
+    expect(emptyTable.getTurnManager().next()).toBe(false);
+  });
+
+  test('should emit turn events and notify players', () => {
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+    const turns = table.getTurnManager();
+
+    turns.start();
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.TURN_STARTED, table, 0, players[0], null);
+    expect(players[1].sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.TABLE.TURN,
+      data: { tableId: 'turn-table', event: 'started', seatIndex: 0, playerId: 'player0', deadline: null }
+    });
+
+    turns.stop();
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.TURN_ENDED, table, 0, players[0], 'stopped');
+    expect(turns.isActive()).toBe(false);
+  });
+
+  test('should run the default action and advance when a turn times out', () => {
+    const onTimeout = jest.fn();
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+    const turns = table.getTurnManager();
+    turns.configure({ turnTimeoutMs: 1000, onTimeout });
+
+    turns.start();
+    expect(turns.getDeadline()).not.toBeNull();
+    expect(turns.getRemainingTime()).toBe(1000);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.TURN_TIMED_OUT, table, 0, players[0]);
+    expect(onTimeout).toHaveBeenCalledWith(table, 0, players[0]);
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.TURN_ENDED, table, 0, players[0], 'timeout');
+    expect(turns.getCurrentSeatIndex()).toBe(2);
+  });
+
+  test('should not advance twice if the timeout action advances the turn', () => {
+    const turns = table.getTurnManager();
+    turns.configure({
+      turnTimeoutMs: 500,
+      onTimeout: () => turns.next('skipped')
+    });
+
+    turns.start();
+    jest.advanceTimersByTime(500);
+
+    expect(turns.getCurrentSeatIndex()).toBe(2);
+  });
+
+  test('should pass the turn on when the current player stands up', () => {
+    const turns = table.getTurnManager();
+    turns.start();
+
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+    table.removePlayerFromSeat(0);
+    expect(turns.getCurrentSeatIndex()).toBe(2);
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.TURN_ENDED, table, 0, players[0], 'skipped');
+  });
+
+  test('should end the turn of a player who leaves the table with the player', () => {
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+    const turns = table.getTurnManager();
+    turns.start();
+
+    table.removePlayer('player0');
+
+    expect(emitSpy).toHaveBeenCalledWith(TABLE_EVENTS.TURN_ENDED, table, 0, players[0], 'skipped');
+    expect(players[1].sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.TABLE.TURN,
+      data: { tableId: 'turn-table', event: 'ended', seatIndex: 0, playerId: 'player0', deadline: null, reason: 'skipped' }
+    });
+    expect(turns.getCurrentSeatIndex()).toBe(2);
+  });
+
+  test('should include the turn in the table state', () => {
+    expect(table.getTableState().turn).toBeNull();
+
+    table.getTurnManager().start();
+    expect(table.getTableState().turn).toEqual({ seatIndex: 0, playerId: 'player0', deadline: null });
+  });
+
+  test('should accept turn options through the table options', () => {
+    const configured = new Table(eventBus, 2, 1, 'configured', 'default', {
+      turnOptions: { turnTimeoutMs: 2000 }
+    });
+    expect(configured.getTurnManager().getOptions().turnTimeoutMs).toBe(2000);
+  });
+});
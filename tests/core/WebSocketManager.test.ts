@@ -140,8 +140,10 @@ describe('WebSocketManager', () => {
     // Verify player was sent messages with appropriate types
     expect(mockPlayer.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
       type: CLIENT_MESSAGE_TYPES.PLAYER.STATE,
-      id: 'test-player',
-      attributes: {}
+      data: {
+        id: 'test-player',
+        attributes: {}
+      }
     }));
     
     // Should also send lobby state
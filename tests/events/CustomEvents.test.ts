@@ -1,5 +1,7 @@
 import { EventBus } from '../../src/events/EventBus';
 import { EVENTS, PLAYER_EVENTS, TABLE_EVENTS } from '../../src/events/EventTypes';
+import { Player } from '../../src/core/Player';
+import { Table } from '../../src/core/Table';
 
 // Example of how a game developer would define custom event constants
 const POKER_EVENTS = {
@@ -34,8 +36,8 @@ describe('Custom Events Integration', () => {
     eventBus.on(TABLE_EVENTS.PLAYER_JOINED, tablePlayerJoinedHandler);
     
     // Test data
-    const player = { id: 'player1' };
-    const table = { id: 'table1' };
+    const player = { id: 'player1' } as unknown as Player;
+    const table = { id: 'table1' } as unknown as Table;
     const cards = [{ suit: 'hearts', value: 'A' }, { suit: 'spades', value: 'K' }];
     
     // Emit events
@@ -55,7 +57,7 @@ describe('Custom Events Integration', () => {
     // Register a one-time handler
     eventBus.once(POKER_EVENTS.PLAYER_FOLDED, foldHandler);
     
-    const player = { id: 'player1' };
+    const player = { id: 'player1' } as unknown as Player;
     
     // Emit the event twice
     eventBus.emit(POKER_EVENTS.PLAYER_FOLDED, player);
@@ -87,9 +89,9 @@ describe('Custom Events Integration', () => {
     eventBus.debugMonitor(true, (eventName) => eventName.startsWith('poker:'), mockLogger);
     
     // Emit both built-in and custom events
-    eventBus.emit(PLAYER_EVENTS.CONNECTED, { id: 'player1' });
+    eventBus.emit(PLAYER_EVENTS.CONNECTED, { id: 'player1' } as unknown as Player);
     eventBus.emit(POKER_EVENTS.BETTING_ROUND_STARTED, { id: 'table1' }, 10);
-    eventBus.emit(TABLE_EVENTS.CREATED, { id: 'table2' });
+    eventBus.emit(TABLE_EVENTS.CREATED, { id: 'table2' } as unknown as Table);
     eventBus.emit(POKER_EVENTS.PLAYER_RAISED, { id: 'player2' }, 20);
     
     // Only poker events should be logged
@@ -130,9 +132,9 @@ describe('Custom Events Integration', () => {
     const pokerEvents = new PokerEventBus(eventBus);
     
     // Test data
-    const player = { id: 'player1' };
+    const player = { id: 'player1' } as unknown as Player;
     const cards = [{ suit: 'hearts', value: 'A' }, { suit: 'spades', value: 'K' }];
-    const table = { id: 'table1' };
+    const table = { id: 'table1' } as unknown as Table;
     
     // Set up listeners
     const handDealtListener = jest.fn();
@@ -158,8 +160,8 @@ describe('Custom Events Integration', () => {
     };
     
     // Test data
-    const player = { id: 'player1' };
-    const table = { id: 'table1' };
+    const player = { id: 'player1' } as unknown as Player;
+    const table = { id: 'table1' } as unknown as Table;
     
     // Handle some specific events to ensure events are properly published
     const playerConnectedHandler = jest.fn();
@@ -1,5 +1,7 @@
 import { EventBus } from '../../src/events/EventBus';
 import { PLAYER_EVENTS, TABLE_EVENTS } from '../../src/events/EventTypes';
+import { Player } from '../../src/core/Player';
+import { Table } from '../../src/core/Table';
 
 describe('EventBus', () => {
   let eventBus: EventBus;
@@ -82,8 +84,8 @@ describe('EventBus', () => {
     eventBus.on(PLAYER_EVENTS.CONNECTED, playerConnectedListener);
     eventBus.on(TABLE_EVENTS.CREATED, tableCreatedListener);
     
-    const player = { id: 'player1' };
-    const table = { id: 'table1' };
+    const player = { id: 'player1' } as unknown as Player;
+    const table = { id: 'table1' } as unknown as Table;
     
     eventBus.emit(PLAYER_EVENTS.CONNECTED, player);
     eventBus.emit(TABLE_EVENTS.CREATED, table);
@@ -105,9 +107,9 @@ describe('EventBus', () => {
     eventBus.on(POKER_EVENTS.HAND_DEALT, handDealtListener);
     eventBus.on(POKER_EVENTS.BETTING_ROUND_STARTED, bettingStartedListener);
     
-    const player = { id: 'player1' };
+    const player = { id: 'player1' } as unknown as Player;
     const cards = [{ suit: 'hearts', value: 'A' }, { suit: 'spades', value: 'K' }];
-    const table = { id: 'table1' };
+    const table = { id: 'table1' } as unknown as Table;
     
     eventBus.emit(POKER_EVENTS.HAND_DEALT, player, cards);
     eventBus.emit(POKER_EVENTS.BETTING_ROUND_STARTED, table, 10);
@@ -124,7 +126,7 @@ describe('EventBus', () => {
     // Setup debug monitor
     eventBus.debugMonitor(true);
     
-    // The EventBus adds a listener for the special '*' event
+    // The debug monitor listens for every event, including one named '*'
     expect(eventBus.listenerCount('*')).toBe(1);
     
     // Create a mock event handler to trigger with the wildcard
@@ -196,4 +198,176 @@ describe('EventBus', () => {
     eventBus.emit('test:event2', 'data2');
     expect(mockLogger).not.toHaveBeenCalled();
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('EventBus payload types', () => {
+  const GAME_EVENTS = {
+    SCORED: 'game:scored'
+  } as const;
+
+  interface GameEventPayloadMap {
+    [GAME_EVENTS.SCORED]: [player: Player, points: number];
+  }
+
+  test('should type check built-in event payloads', () => {
+    const eventBus = new EventBus();
+    const player = { id: 'player1' } as unknown as Player;
+    const table = { id: 'table1' } as unknown as Table;
+    const mockListener = jest.fn();
+
+    eventBus.on(TABLE_EVENTS.PLAYER_JOINED, (joinedPlayer, joinedTable) => {
+      mockListener(joinedPlayer.id, joinedTable.id);
+    });
+    eventBus.emit(TABLE_EVENTS.PLAYER_JOINED, player, table);
+
+    // Only checked by the compiler, never emitted
+    const emitSwapped = () => {
+      // @ts-expect-error the player comes before the table
+      eventBus.emit(TABLE_EVENTS.PLAYER_JOINED, table, player);
+    };
+
+    expect(emitSwapped).toBeInstanceOf(Function);
+    expect(mockListener).toHaveBeenCalledWith('player1', 'table1');
+  });
+
+  test('should type check a custom payload map', () => {
+    const eventBus = new EventBus<GameEventPayloadMap>();
+    const player = { id: 'player1' } as unknown as Player;
+    const mockListener = jest.fn();
+
+    eventBus.on(GAME_EVENTS.SCORED, (scoringPlayer, points) => {
+      mockListener(scoringPlayer.id, points.toFixed(0));
+    });
+    eventBus.emit(GAME_EVENTS.SCORED, player, 3);
+
+    // Only checked by the compiler, never emitted
+    const emitInvalidPoints = () => {
+      // @ts-expect-error points must be a number
+      eventBus.emit(GAME_EVENTS.SCORED, player, 'three');
+    };
+
+    expect(emitInvalidPoints).toBeInstanceOf(Function);
+    expect(mockListener).toHaveBeenCalledWith('player1', '3');
+  });
+
+  test('should accept any payload for events that are not in the map', () => {
+    const eventBus = new EventBus<GameEventPayloadMap>();
+    const mockListener = jest.fn();
+
+    eventBus.on('game:other', mockListener);
+    eventBus.emit('game:other', 'any', { payload: true });
+
+    expect(mockListener).toHaveBeenCalledWith('any', { payload: true });
+  });
+});
+
+describe('EventBus wildcard subscriptions', () => {
+  // Without a payload map, so built-in events accept any arguments
+  let eventBus: EventBus<object>;
+
+  beforeEach(() => {
+    eventBus = new EventBus<object>();
+  });
+
+  test('should match one segment with *', () => {
+    const mockListener = jest.fn();
+    eventBus.onPattern('table:*', mockListener);
+
+    eventBus.emit('table:created', 'table1');
+    eventBus.emit('table:player:sat', 'player1');
+    eventBus.emit('lobby:updated');
+
+    expect(mockListener).toHaveBeenCalledTimes(1);
+    expect(mockListener).toHaveBeenCalledWith('table:created', 'table1');
+  });
+
+  test('should match one or more segments with **', () => {
+    const mockListener = jest.fn();
+    eventBus.onPattern('table:**', mockListener);
+
+    eventBus.emit('table:created');
+    eventBus.emit('table:player:sat', 'player1', 2);
+    eventBus.emit('table');
+    eventBus.emit('tables:created');
+
+    expect(mockListener.mock.calls).toEqual([
+      ['table:created'],
+      ['table:player:sat', 'player1', 2]
+    ]);
+  });
+
+  test('should match wildcards inside a segment and in the middle of a pattern', () => {
+    const segmentListener = jest.fn();
+    const middleListener = jest.fn();
+    eventBus.onPattern('table:deck:*ed', segmentListener);
+    eventBus.onPattern('table:*:joined', middleListener);
+
+    eventBus.emit(TABLE_EVENTS.DECK_SHUFFLED, {} as Table, 'seed');
+    eventBus.emit('table:deck:card:drawn');
+    eventBus.emit('table:spectator:joined');
+
+    expect(segmentListener).toHaveBeenCalledTimes(1);
+    expect(segmentListener).toHaveBeenCalledWith(TABLE_EVENTS.DECK_SHUFFLED, {}, 'seed');
+    expect(middleListener).toHaveBeenCalledWith('table:spectator:joined');
+  });
+
+  test('should treat other characters in a pattern literally', () => {
+    const mockListener = jest.fn();
+    eventBus.onPattern('game.v2:*', mockListener);
+
+    eventBus.emit('gamexv2:started');
+    eventBus.emit('game.v2:started');
+
+    expect(mockListener).toHaveBeenCalledTimes(1);
+  });
+
+  test('should call catch-all listeners for every event after exact listeners', () => {
+    const calls: string[] = [];
+    eventBus.on('player:connected', () => calls.push('exact'));
+    eventBus.onAny(event => calls.push(`any ${event}`));
+
+    const result = eventBus.emit('player:connected');
+    eventBus.emit('custom:event');
+
+    expect(result).toBe(true);
+    expect(calls).toEqual(['exact', 'any player:connected', 'any custom:event']);
+  });
+
+  test('should remove wildcard listeners', () => {
+    const patternListener = jest.fn();
+    const anyListener = jest.fn();
+    eventBus.onPattern('table:*', patternListener);
+    eventBus.onAny(anyListener);
+
+    // Removing with another pattern does nothing
+    eventBus.offPattern('table:**', patternListener);
+    expect(eventBus.listenerCount('table:created')).toBe(2);
+
+    eventBus.offPattern('table:*', patternListener);
+    eventBus.offAny(anyListener);
+    expect(eventBus.emit('table:created')).toBe(false);
+
+    expect(patternListener).not.toHaveBeenCalled();
+    expect(anyListener).not.toHaveBeenCalled();
+  });
+
+  test('should count wildcard listeners that match an event', () => {
+    eventBus.on('table:created', jest.fn());
+    eventBus.onPattern('table:*', jest.fn());
+    eventBus.onPattern('lobby:*', jest.fn());
+
+    expect(eventBus.listenerCount('table:created')).toBe(2);
+    expect(eventBus.listenerCount('lobby:updated')).toBe(1);
+  });
+
+  test('should apply listeners added during an event from the next event', () => {
+    const lateListener = jest.fn();
+    eventBus.onAny(() => eventBus.onAny(lateListener));
+
+    eventBus.emit('first:event');
+    expect(lateListener).not.toHaveBeenCalled();
+
+    eventBus.emit('second:event');
+    expect(lateListener).toHaveBeenCalledWith('second:event');
+  });
+});
@@ -0,0 +1,128 @@
+import { EventBus } from '../../src/events/EventBus';
+import { EVENT_BUS_EVENTS } from '../../src/events/EventTypes';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('EventBus async emits', () => {
+  let eventBus: EventBus;
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('emitAsync should await listeners in order', async () => {
+    const calls: string[] = [];
+    eventBus.on('game:settled', async (amount: number) => {
+      await delay(10);
+      calls.push(`first ${amount}`);
+    });
+    eventBus.on('game:settled', (amount: number) => {
+      calls.push(`second ${amount}`);
+    });
+
+    const result = await eventBus.emitAsync('game:settled', 100);
+
+    expect(calls).toEqual(['first 100', 'second 100']);
+    expect(result).toEqual({ listenerCount: 2, cancelled: false, errors: [] });
+  });
+
+  test('emitAsyncParallel should run listeners concurrently', async () => {
+    const calls: string[] = [];
+    eventBus.on('game:settled', async () => {
+      await delay(10);
+      calls.push('slow');
+    });
+    eventBus.on('game:settled', async () => {
+      calls.push('fast');
+    });
+
+    const result = await eventBus.emitAsyncParallel('game:settled');
+
+    expect(calls).toEqual(['fast', 'slow']);
+    expect(result.listenerCount).toBe(2);
+  });
+
+  test('should keep calling listeners after one throws or rejects', async () => {
+    const thrown = new Error('thrown');
+    const rejected = new Error('rejected');
+    const lastListener = jest.fn();
+    eventBus.on('game:event', () => { throw thrown; });
+    eventBus.on('game:event', async () => { throw rejected; });
+    eventBus.on('game:event', lastListener);
+
+    const serialResult = await eventBus.emitAsync('game:event', 'data');
+    const parallelResult = await eventBus.emitAsyncParallel('game:event', 'data');
+
+    expect(lastListener).toHaveBeenCalledTimes(2);
+    expect(serialResult.errors).toEqual([thrown, rejected]);
+    expect(parallelResult.errors).toEqual([thrown, rejected]);
+  });
+
+  test('should report failed listeners with the listener error event', async () => {
+    const error = new Error('failed');
+    const errorListener = jest.fn();
+    eventBus.on(EVENT_BUS_EVENTS.LISTENER_ERROR, errorListener);
+    eventBus.on('game:event', async () => { throw error; });
+
+    await eventBus.emitAsync('game:event', 'data', 1);
+
+    expect(errorListener).toHaveBeenCalledWith(error, 'game:event', ['data', 1]);
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+  });
+
+  test('should log failed listeners if nothing listens for listener errors', async () => {
+    const error = new Error('failed');
+    eventBus.on('game:event', () => { throw error; });
+
+    await eventBus.emitAsync('game:event');
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Error in listener for game:event:', error);
+  });
+
+  test('should log a failing listener error listener instead of reporting it again', async () => {
+    const reportError = new Error('report failed');
+    const errorListener = jest.fn(() => { throw reportError; });
+    eventBus.on(EVENT_BUS_EVENTS.LISTENER_ERROR, errorListener);
+    eventBus.on('game:event', () => { throw new Error('failed'); });
+
+    const result = await eventBus.emitAsync('game:event');
+
+    expect(result.errors).toHaveLength(1);
+    expect(errorListener).toHaveBeenCalledTimes(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(`Error in listener for ${EVENT_BUS_EVENTS.LISTENER_ERROR}:`, reportError);
+  });
+
+  test('should call once listeners a single time', async () => {
+    const onceListener = jest.fn();
+    eventBus.once('game:event', onceListener);
+
+    await eventBus.emitAsync('game:event', 'first');
+    await eventBus.emitAsync('game:event', 'second');
+
+    expect(onceListener).toHaveBeenCalledTimes(1);
+    expect(onceListener).toHaveBeenCalledWith('first');
+    expect(eventBus.listenerCount('game:event')).toBe(0);
+  });
+
+  test('should await wildcard listeners after exact listeners', async () => {
+    const calls: string[] = [];
+    eventBus.onPattern('game:*', async (event: string) => {
+      await delay(5);
+      calls.push(`pattern ${event}`);
+    });
+    eventBus.on('game:event', () => {
+      calls.push('exact');
+    });
+
+    const result = await eventBus.emitAsync('game:event');
+
+    expect(calls).toEqual(['exact', 'pattern game:event']);
+    expect(result.listenerCount).toBe(2);
+  });
+});
@@ -0,0 +1,167 @@
+import { EventBus, EventInterception } from '../../src/events/EventBus';
+import { TABLE_EVENTS } from '../../src/events/EventTypes';
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { Table } from '../../src/core/Table';
+import { createMockPlayer } from '../helpers/players';
+
+describe('EventBus interceptors', () => {
+  let eventBus: EventBus<object>;
+
+  beforeEach(() => {
+    eventBus = new EventBus<object>();
+  });
+
+  test('should run interceptors before listeners and let them change the arguments', () => {
+    const calls: string[] = [];
+    eventBus.on('game:bet', (amount: number) => calls.push(`listener ${amount}`));
+    eventBus.addInterceptor('game:bet', interception => {
+      calls.push('interceptor');
+      interception.args[0] = Math.min(interception.args[0], 50);
+    });
+
+    eventBus.emit('game:bet', 100);
+
+    expect(calls).toEqual(['interceptor', 'listener 50']);
+  });
+
+  test('should let interceptors replace the arguments', () => {
+    const listener = jest.fn();
+    eventBus.on('game:bet', listener);
+    eventBus.addInterceptor('game:*', interception => {
+      interception.args = [...interception.args, 'tagged'];
+    });
+
+    eventBus.emit('game:bet', 10);
+
+    expect(listener).toHaveBeenCalledWith(10, 'tagged');
+  });
+
+  test('should cancel events without calling further interceptors or listeners', () => {
+    const listener = jest.fn();
+    const anyListener = jest.fn();
+    const laterInterceptor = jest.fn();
+    eventBus.on('game:bet', listener);
+    eventBus.onAny(anyListener);
+    eventBus.addInterceptor('game:bet', interception => interception.cancel());
+    eventBus.addInterceptor('game:bet', laterInterceptor);
+
+    const result = eventBus.emit('game:bet', 10);
+
+    expect(result).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+    expect(anyListener).not.toHaveBeenCalled();
+    expect(laterInterceptor).not.toHaveBeenCalled();
+  });
+
+  test('should run interceptors by priority, then in the order they were added', () => {
+    const order: string[] = [];
+    eventBus.addInterceptor('game:bet', () => order.push('default'));
+    eventBus.addInterceptor('game:bet', () => order.push('low'), { priority: -1 });
+    eventBus.addInterceptor('game:bet', () => order.push('high'), { priority: 10 });
+    eventBus.addInterceptor('game:bet', () => order.push('default 2'));
+
+    eventBus.emit('game:bet');
+
+    expect(order).toEqual(['high', 'default', 'default 2', 'low']);
+  });
+
+  test('should send the error of a rejected event to the player who caused it', () => {
+    const player = createMockPlayer('player1');
+    const listener = jest.fn();
+    eventBus.on('game:bet', listener);
+    eventBus.addInterceptor('game:bet', interception => {
+      expect(interception.player).toBe(player);
+      interception.reject('Bets are closed');
+    });
+
+    eventBus.emit('game:bet', 10, player);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(player.sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.REJECTED,
+      message: 'Bets are closed'
+    });
+  });
+
+  test('should reject events with the message of an error thrown by an interceptor', () => {
+    const player = createMockPlayer('player1');
+    eventBus.addInterceptor('game:bet', () => {
+      throw new Error('Invalid bet');
+    });
+
+    expect(eventBus.emit('game:bet', player)).toBe(false);
+    expect(player.sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.REJECTED,
+      message: 'Invalid bet'
+    });
+  });
+
+  test('should cancel a rejected event without a player', () => {
+    let interception: EventInterception | null = null;
+    eventBus.addInterceptor('game:bet', current => {
+      interception = current;
+      current.reject('No player');
+    });
+
+    expect(eventBus.emit('game:bet', 10)).toBe(false);
+    expect(interception!.player).toBeNull();
+  });
+
+  test('should remove interceptors', () => {
+    const interceptor = jest.fn((interception: EventInterception) => interception.cancel());
+    const listener = jest.fn();
+    eventBus.on('game:bet', listener);
+    eventBus.addInterceptor('game:bet', interceptor);
+
+    eventBus.removeInterceptor('game:bet', interceptor);
+    eventBus.emit('game:bet');
+
+    expect(interceptor).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalled();
+  });
+
+  test('should intercept awaited emits', async () => {
+    const listener = jest.fn();
+    eventBus.on('game:bet', listener);
+    eventBus.addInterceptor('game:bet', interception => {
+      if (interception.args[0] > 100) interception.cancel();
+    });
+
+    const cancelled = await eventBus.emitAsync('game:bet', 500);
+    const parallel = await eventBus.emitAsyncParallel('game:bet', 50);
+
+    expect(cancelled).toEqual({ listenerCount: 0, cancelled: true, errors: [] });
+    expect(parallel).toEqual({ listenerCount: 1, cancelled: false, errors: [] });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(50);
+  });
+
+  test('should veto a sit request before the table handles it', () => {
+    const tableEventBus = new EventBus();
+    const table = new Table(tableEventBus, 2, 1, 'table1');
+    const richPlayer = createMockPlayer('rich', { attributes: { balance: 500 } });
+    const poorPlayer = createMockPlayer('poor', { attributes: { balance: 5 } });
+    table.addPlayer(richPlayer);
+    table.addPlayer(poorPlayer);
+
+    tableEventBus.addInterceptor(TABLE_EVENTS.PLAYER_SIT_REQUEST, interception => {
+      if ((interception.player?.getAttribute('balance') ?? 0) < 100) {
+        interception.reject('Insufficient balance to sit');
+      }
+    });
+
+    // Sit requests are emitted on the table's bus, and the server's interceptors apply to them
+    table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, poorPlayer, table, 0);
+    table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, richPlayer, table, 1);
+
+    expect(table.getPlayerAtSeat(0)).toBeNull();
+    expect(table.getPlayerAtSeat(1)).toBe(richPlayer);
+    expect(poorPlayer.sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.REJECTED,
+      message: 'Insufficient balance to sit'
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { EventBus } from '../../src/events/EventBus';
+import { EVENT_BUS_EVENTS, TABLE_EVENTS } from '../../src/events/EventTypes';
+import { Table } from '../../src/core/Table';
+import { createMockPlayer } from '../helpers/players';
+
+describe('EventBus child buses', () => {
+  let eventBus: EventBus<object>;
+  let child: EventBus<object>;
+
+  beforeEach(() => {
+    eventBus = new EventBus<object>();
+    child = eventBus.createChild();
+  });
+
+  test('should bubble events from a child to its parent after the child listeners', () => {
+    const calls: string[] = [];
+    eventBus.on('game:event', (data: string) => calls.push(`parent ${data}`));
+    eventBus.onAny(event => calls.push(`parent any ${event}`));
+    child.on('game:event', (data: string) => calls.push(`child ${data}`));
+
+    const result = child.emit('game:event', 'data');
+
+    expect(result).toBe(true);
+    expect(calls).toEqual(['child data', 'parent data', 'parent any game:event']);
+  });
+
+  test('should not deliver parent events to child listeners', () => {
+    const childListener = jest.fn();
+    child.on('game:event', childListener);
+
+    expect(eventBus.emit('game:event')).toBe(false);
+    expect(childListener).not.toHaveBeenCalled();
+  });
+
+  test('should bubble through every ancestor', () => {
+    const grandchild = child.createChild();
+    const rootListener = jest.fn();
+    eventBus.on('game:event', rootListener);
+
+    grandchild.emit('game:event', 1);
+
+    expect(rootListener).toHaveBeenCalledWith(1);
+  });
+
+  test('should run parent interceptors once, before the child listeners', () => {
+    const childListener = jest.fn();
+    const parentListener = jest.fn();
+    const order: string[] = [];
+    child.on('game:bet', childListener);
+    eventBus.on('game:bet', parentListener);
+    eventBus.addInterceptor('game:bet', interception => {
+      order.push('parent');
+      interception.args[0] = interception.args[0] * 2;
+    });
+    child.addInterceptor('game:bet', () => order.push('child'));
+    child.addInterceptor('game:bet', () => order.push('child high'), { priority: 1 });
+
+    child.emit('game:bet', 10);
+
+    expect(order).toEqual(['child high', 'parent', 'child']);
+    expect(childListener).toHaveBeenCalledWith(20);
+    expect(parentListener).toHaveBeenCalledWith(20);
+  });
+
+  test('should not bubble events cancelled by a parent interceptor', () => {
+    const childListener = jest.fn();
+    const parentListener = jest.fn();
+    child.on('game:bet', childListener);
+    eventBus.on('game:bet', parentListener);
+    eventBus.addInterceptor('game:bet', interception => interception.cancel());
+
+    expect(child.emit('game:bet')).toBe(false);
+    expect(childListener).not.toHaveBeenCalled();
+    expect(parentListener).not.toHaveBeenCalled();
+  });
+
+  test('should await child and parent listeners with emitAsync', async () => {
+    const calls: string[] = [];
+    eventBus.on('game:event', async () => { calls.push('parent'); });
+    child.on('game:event', async () => { calls.push('child'); });
+    const errorListener = jest.fn();
+    eventBus.on(EVENT_BUS_EVENTS.LISTENER_ERROR, errorListener);
+    child.on('game:event', () => { throw new Error('failed'); });
+
+    const result = await child.emitAsync('game:event');
+
+    expect(calls).toEqual(['child', 'parent']);
+    expect(result.listenerCount).toBe(3);
+    expect(errorListener).toHaveBeenCalledWith(expect.any(Error), 'game:event', []);
+  });
+
+  test('should remove the listeners of a disposed child and keep bubbling its events', () => {
+    const grandchild = child.createChild();
+    const childListener = jest.fn();
+    const grandchildListener = jest.fn();
+    const parentListener = jest.fn();
+    child.on('game:event', childListener);
+    grandchild.on('game:event', grandchildListener);
+    eventBus.on('game:event', parentListener);
+
+    child.dispose();
+    grandchild.emit('game:event');
+    child.emit('game:event');
+
+    expect(child.isDisposed()).toBe(true);
+    expect(grandchild.isDisposed()).toBe(true);
+    expect(eventBus.isDisposed()).toBe(false);
+    expect(childListener).not.toHaveBeenCalled();
+    expect(grandchildListener).not.toHaveBeenCalled();
+    expect(parentListener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Table event bus', () => {
+  let eventBus: EventBus;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+  });
+
+  test('should only handle sit requests emitted on its own bus', () => {
+    const table1 = new Table(eventBus, 2, 1, 'table1');
+    const table2 = new Table(eventBus, 2, 1, 'table2');
+    const player = createMockPlayer('player1');
+    table1.addPlayer(player);
+
+    table2.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table1, 0);
+    expect(table1.getPlayerAtSeat(0)).toBeNull();
+
+    table1.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table1, 0);
+    expect(table1.getPlayerAtSeat(0)).toBe(player);
+  });
+
+  test('should bubble table events to the server bus', () => {
+    const table = new Table(eventBus, 2, 1, 'table1');
+    const player = createMockPlayer('player1');
+    const joinedListener = jest.fn();
+    const tableListener = jest.fn();
+    eventBus.on(TABLE_EVENTS.PLAYER_JOINED, joinedListener);
+    table.getEventBus().on(TABLE_EVENTS.PLAYER_JOINED, tableListener);
+
+    table.addPlayer(player);
+
+    expect(tableListener).toHaveBeenCalledWith(player, table);
+    expect(joinedListener).toHaveBeenCalledWith(player, table);
+  });
+
+  test('should not add server bus listeners for each table', () => {
+    const before = eventBus.listenerCount(TABLE_EVENTS.PLAYER_SIT_REQUEST);
+
+    for (let i = 0; i < 60; i++) {
+      new Table(eventBus, 2, 1, `table${i}`);
+    }
+
+    expect(eventBus.listenerCount(TABLE_EVENTS.PLAYER_SIT_REQUEST)).toBe(before);
+  });
+
+  test('should remove the listeners of its bus when disposed', () => {
+    const table = new Table(eventBus, 2, 1, 'table1');
+    const player = createMockPlayer('player1');
+    table.addPlayer(player);
+
+    table.dispose();
+    table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, player, table, 0);
+
+    expect(table.getEventBus().isDisposed()).toBe(true);
+    expect(table.getEventBus().listenerCount(TABLE_EVENTS.PLAYER_SIT_REQUEST)).toBe(0);
+    expect(table.getPlayerAtSeat(0)).toBeNull();
+  });
+});
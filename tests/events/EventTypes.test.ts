@@ -2,6 +2,7 @@ import {
   PLAYER_EVENTS, 
   TABLE_EVENTS, 
   LOBBY_EVENTS, 
+  EVENT_BUS_EVENTS, 
   EVENTS, 
   EventType,
   PlayerEventType,
@@ -20,6 +21,9 @@ describe('EventTypes', () => {
       ATTRIBUTES_CHANGED: "player:attributes:changed",
       AUTHENTICATION_FAILED: "player:authentication:failed",
       AUTHENTICATION_SUCCEEDED: "player:authentication:succeeded",
+      COMMAND_RECEIVED: "player:command:received",
+      COMMAND_REJECTED: "player:command:rejected",
+      PROTOCOL_NEGOTIATED: "player:protocol:negotiated",
       REMOVED: "player:removed"
     });
   });
@@ -56,6 +60,7 @@ describe('EventTypes', () => {
     expect(EVENTS).toHaveProperty('PLAYER', PLAYER_EVENTS);
     expect(EVENTS).toHaveProperty('TABLE', TABLE_EVENTS);
     expect(EVENTS).toHaveProperty('LOBBY', LOBBY_EVENTS);
+    expect(EVENTS).toHaveProperty('EVENT_BUS', EVENT_BUS_EVENTS);
   });
 
   test('should allow use of specific event types', () => {
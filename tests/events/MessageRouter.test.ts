@@ -1,7 +1,7 @@
 import { MessageRouter } from '../../src/events/MessageRouter';
 import { EventBus } from '../../src/events/EventBus';
 import { Player } from '../../src/core/Player';
-import { CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
 import * as WebSocket from 'ws';
 
 // Mock WebSocket constructor and methods
@@ -63,12 +63,13 @@ describe('MessageRouter', () => {
     messageRouter.processMessage(mockPlayer, JSON.stringify(message));
     
     // Verify handler was called
-    expect(handlerFn).toHaveBeenCalledWith(mockPlayer, message);
+    expect(handlerFn).toHaveBeenCalledWith(mockPlayer, message, expect.objectContaining({ action: 'test:action' }));
   });
   
-  test('should emit an event if no handler is registered', () => {
+  test('should emit an event for a custom action without a handler', () => {
     // Spy on eventBus.emit
     const emitSpy = jest.spyOn(eventBus, 'emit');
+    messageRouter.registerCustomAction('unhandled:action');
     
     // Prepare test message with no registered handler
     const message = {
@@ -90,6 +91,7 @@ describe('MessageRouter', () => {
     // Verify error message was sent
     expect(mockPlayer.sendMessage).toHaveBeenCalledWith({
       type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.INVALID_MESSAGE,
       message: 'Failed to process message'
     });
   });
@@ -101,6 +103,7 @@ describe('MessageRouter', () => {
     // Verify error message was sent
     expect(mockPlayer.sendMessage).toHaveBeenCalledWith({
       type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.INVALID_MESSAGE,
       message: 'Invalid message format: missing or invalid action'
     });
   });
@@ -112,6 +115,7 @@ describe('MessageRouter', () => {
     // Verify error message was sent
     expect(mockPlayer.sendMessage).toHaveBeenCalledWith({
       type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.INVALID_MESSAGE,
       message: 'Invalid message format: missing or invalid action'
     });
   });
@@ -130,8 +134,8 @@ describe('MessageRouter', () => {
     messageRouter.processMessage(mockPlayer, JSON.stringify({ action: 'action2', data: 2 }));
     
     // Verify correct handlers were called with correct data
-    expect(handler1).toHaveBeenCalledWith(mockPlayer, { action: 'action1', data: 1 });
-    expect(handler2).toHaveBeenCalledWith(mockPlayer, { action: 'action2', data: 2 });
+    expect(handler1).toHaveBeenCalledWith(mockPlayer, { action: 'action1', data: 1 }, expect.objectContaining({ action: 'action1' }));
+    expect(handler2).toHaveBeenCalledWith(mockPlayer, { action: 'action2', data: 2 }, expect.objectContaining({ action: 'action2' }));
   });
   
   test('should allow overriding previously registered command handlers', () => {
@@ -168,13 +172,10 @@ describe('MessageRouter', () => {
       expect(mockHandler).toHaveBeenCalledWith(mockPlayer, expect.objectContaining({
         action: 'TEST_COMMAND',
         data: { foo: 'bar' }
-      }));
+      }), expect.objectContaining({ player: mockPlayer, state: {} }));
     });
 
-    test('should handle errors when no handler for action', () => {
-      // Spy on console.error to suppress and verify error messages
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-      
+    test('should reject commands without a handler or custom action', () => {
       const mockPlayer = { 
         sendMessage: jest.fn()
       } as unknown as Player;
@@ -183,23 +184,17 @@ describe('MessageRouter', () => {
       const emitSpy = jest.spyOn(eventBus, 'emit');
       
       // Process message with no registered handler
-      messageRouter.processMessage(mockPlayer, JSON.stringify({
+      const message = {
         action: 'UNKNOWN_COMMAND',
         data: { foo: 'bar' }
-      }));
-      
-      // Verify that the event bus was used since no handler was found
-      expect(emitSpy).toHaveBeenCalledWith(
-        'UNKNOWN_COMMAND',
-        mockPlayer,
-        expect.objectContaining({
-          action: 'UNKNOWN_COMMAND',
-          data: { foo: 'bar' }
-        })
-      );
+      };
+      messageRouter.processMessage(mockPlayer, JSON.stringify(message));
       
-      // Restore console.error
-      consoleErrorSpy.mockRestore();
+      // Verify that the command was not forwarded, and was reported instead
+      const error = { code: CLIENT_ERROR_CODES.UNKNOWN_ACTION, message: 'Unknown action' };
+      expect(emitSpy).not.toHaveBeenCalledWith('UNKNOWN_COMMAND', expect.anything(), expect.anything());
+      expect(emitSpy).toHaveBeenCalledWith('player:command:rejected', mockPlayer, message, error);
+      expect(mockPlayer.sendMessage).toHaveBeenCalledWith({ type: CLIENT_MESSAGE_TYPES.ERROR, ...error });
     });
   });
 }); 
\ No newline at end of file
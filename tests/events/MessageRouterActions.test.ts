@@ -0,0 +1,100 @@
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { EventBus } from '../../src/events/EventBus';
+import { PLAYER_EVENTS } from '../../src/events/PlayerEvents';
+import { TABLE_EVENTS } from '../../src/events/TableEvents';
+import { Player } from '../../src/core/Player';
+import { CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { RouterFixture, createRouterFixture } from '../helpers/router';
+
+describe('MessageRouter custom actions', () => {
+  let eventBus: EventBus;
+  let router: MessageRouter;
+  let player: Player;
+  let messages: any[];
+  let send: RouterFixture['send'];
+
+  const unknownAction = { code: CLIENT_ERROR_CODES.UNKNOWN_ACTION, message: 'Unknown action' };
+
+  beforeEach(() => {
+    ({ eventBus, router, player, messages, send } = createRouterFixture());
+  });
+
+  test('should forward registered custom actions as events', () => {
+    const listener = jest.fn();
+    eventBus.on('game:fold', listener);
+    router.registerCustomAction('game:fold');
+
+    send({ action: 'game:fold', handId: 'main' });
+
+    expect(listener).toHaveBeenCalledWith(player, { action: 'game:fold', handId: 'main' });
+    expect(messages).toEqual([]);
+  });
+
+  test('should reject and report actions that are not registered', () => {
+    const listener = jest.fn();
+    const received = jest.fn();
+    const rejected = jest.fn();
+    eventBus.on('game:fold', listener);
+    eventBus.on(PLAYER_EVENTS.COMMAND_RECEIVED, received);
+    eventBus.on(PLAYER_EVENTS.COMMAND_REJECTED, rejected);
+
+    send({ action: 'game:fold', requestId: 'fold-1' });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(received).not.toHaveBeenCalled();
+    expect(rejected).toHaveBeenCalledWith(player, { action: 'game:fold', requestId: 'fold-1' }, unknownAction);
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...unknownAction, requestId: 'fold-1' },
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'fold-1', action: 'game:fold', success: false, error: unknownAction }
+    ]);
+  });
+
+  test('should keep internal events unreachable from clients', () => {
+    const created = jest.fn();
+    const joined = jest.fn();
+    eventBus.on('request:table:create', created);
+    eventBus.on(TABLE_EVENTS.PLAYER_JOINED, joined);
+
+    send({ action: 'request:table:create', gameId: 'poker' });
+    send({ action: TABLE_EVENTS.PLAYER_JOINED, player: 'someone' });
+
+    expect(created).not.toHaveBeenCalled();
+    expect(joined).not.toHaveBeenCalled();
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...unknownAction },
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...unknownAction }
+    ]);
+  });
+
+  test('should not register actions of internal namespaces', () => {
+    expect(() => router.registerCustomAction('request:table:create')).toThrow(
+      'The action request:table:create is in an internal event namespace'
+    );
+    expect(() => router.registerCustomAction(TABLE_EVENTS.PLAYER_JOINED)).toThrow();
+    expect(() => router.registerCustomAction('player')).toThrow();
+    expect(() => router.registerCustomAction('eventbus:listener:error')).toThrow();
+    expect(() => router.registerCustomAction('tables:list')).not.toThrow();
+    expect(router.isActionAllowed('request:table:create')).toBe(false);
+  });
+
+  test('should unregister custom actions', () => {
+    router.registerCustomAction('game:fold');
+    expect(router.isActionAllowed('game:fold')).toBe(true);
+
+    router.unregisterCustomAction('game:fold');
+    send({ action: 'game:fold' });
+
+    expect(router.isActionAllowed('game:fold')).toBe(false);
+    expect(messages).toEqual([{ type: CLIENT_MESSAGE_TYPES.ERROR, ...unknownAction }]);
+  });
+
+  test('should describe custom actions in the protocol', () => {
+    router.registerCustomAction('game:fold', { description: 'Folds the hand of the player' });
+    router.registerCommandSchema('game:check', { description: 'Not accepted without a handler' });
+
+    const actions = router.getProtocolDescription().commands.map(command => command.action);
+
+    expect(actions).toContain('game:fold');
+    expect(actions).not.toContain('game:check');
+  });
+});
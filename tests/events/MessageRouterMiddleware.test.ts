@@ -0,0 +1,227 @@
+import { MessageRouter, CommandMiddleware } from '../../src/events/MessageRouter';
+import { requireSeat, requireTable } from '../../src/events/CommandMiddleware';
+import { EventBus } from '../../src/events/EventBus';
+import { PLAYER_EVENTS } from '../../src/events/PlayerEvents';
+import { Player } from '../../src/core/Player';
+import { Table } from '../../src/core/Table';
+import { CLIENT_COMMAND_TYPES, CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { RouterFixture, createRouterFixture, flush } from '../helpers/router';
+
+describe('MessageRouter middleware', () => {
+  let eventBus: EventBus;
+  let router: MessageRouter;
+  let player: Player;
+  let messages: any[];
+  let send: RouterFixture['send'];
+
+  beforeEach(() => {
+    ({ eventBus, router, player, messages, send } = createRouterFixture());
+  });
+
+  test('should run middleware in order and pass their context to the handler', () => {
+    const calls: string[] = [];
+    const handler = jest.fn();
+    router.use((context, next) => {
+      calls.push('global');
+      context.state.user = 'alice';
+      return next();
+    });
+    router.use('game', (_context, next) => {
+      calls.push('prefix');
+      return next();
+    });
+    router.registerCommandHandler('game:bet', (player, data, context) => {
+      calls.push('handler');
+      handler(context.state);
+    }, undefined, [(context, next) => {
+      calls.push('handler middleware');
+      context.state.amount = context.data.amount;
+      return next();
+    }]);
+
+    send({ action: 'game:bet', amount: 5 });
+
+    expect(calls).toEqual(['global', 'prefix', 'handler middleware', 'handler']);
+    expect(handler).toHaveBeenCalledWith({ user: 'alice', amount: 5 });
+  });
+
+  test('should only run prefix middleware for the actions of the prefix', () => {
+    const middleware = jest.fn((_context, next) => next()) as jest.MockedFunction<CommandMiddleware>;
+    router.use('game:poker', middleware);
+    ['game:poker', 'game:poker:bet', 'game:pokerface', 'game:chess:move'].forEach(action => router.registerCustomAction(action));
+
+    send({ action: 'game:poker' });
+    send({ action: 'game:poker:bet' });
+    send({ action: 'game:pokerface' });
+    send({ action: 'game:chess:move' });
+
+    expect(middleware.mock.calls.map(([context]) => context.action)).toEqual(['game:poker', 'game:poker:bet']);
+  });
+
+  test('should stop a command that middleware reject', () => {
+    const handler = jest.fn();
+    const listener = jest.fn();
+    router.registerCommandHandler('game:bet', handler);
+    eventBus.on('game:fold', listener);
+    router.registerCustomAction('game:fold');
+    router.use('game', context => context.reject('NOT_YOUR_TURN', 'It is not your turn'));
+
+    send({ action: 'game:bet', requestId: 'bet-1' });
+    send({ action: 'game:fold' });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+    const error = { code: 'NOT_YOUR_TURN', message: 'It is not your turn' };
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...error, requestId: 'bet-1' },
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'bet-1', action: 'game:bet', success: false, error },
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...error }
+    ]);
+  });
+
+  test('should run router middleware before validation and handler middleware after it', () => {
+    const routerMiddleware = jest.fn((_context, next) => next()) as jest.MockedFunction<CommandMiddleware>;
+    const handlerMiddleware = jest.fn((_context, next) => next()) as jest.MockedFunction<CommandMiddleware>;
+    router.use(routerMiddleware);
+    router.registerCommandHandler('game:bet', jest.fn(), {
+      fields: { amount: { type: 'integer' } }
+    }, [handlerMiddleware]);
+
+    send({ action: 'game:bet', amount: 'all' });
+
+    expect(routerMiddleware).toHaveBeenCalledTimes(1);
+    expect(handlerMiddleware).not.toHaveBeenCalled();
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, code: CLIENT_ERROR_CODES.INVALID_PARAMETER, message: 'Invalid amount parameter' }
+    ]);
+  });
+
+  test('should only report commands that passed the middleware and validation as received', () => {
+    const received = jest.fn();
+    eventBus.on(PLAYER_EVENTS.COMMAND_RECEIVED, received);
+    router.use('game:blocked', context => context.reject('BLOCKED', 'Blocked'));
+    router.registerCommandHandler('game:bet', jest.fn(), { fields: { amount: { type: 'integer' } } });
+    router.registerCommandHandler('game:blocked', jest.fn());
+
+    send({ action: 'game:blocked' });
+    send({ action: 'game:bet', amount: 'all' });
+    send({ action: 'game:bet', amount: 10 });
+
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received).toHaveBeenCalledWith(player, { action: 'game:bet', amount: 10 });
+  });
+
+  test('should let middleware wait and wrap the handler', async () => {
+    const calls: string[] = [];
+    router.use(async (_context, next) => {
+      calls.push('authenticating');
+      await flush();
+      calls.push('authenticated');
+      return next();
+    });
+    router.use((context, next) => {
+      const result = next();
+      calls.push(`handled ${context.action}`);
+      return result;
+    });
+    router.registerCommandHandler('game:ready', () => {
+      calls.push('handler');
+      return { success: true, data: { ready: true } };
+    });
+
+    send({ action: 'game:ready', requestId: 7 });
+    expect(calls).toEqual(['authenticating']);
+
+    await flush();
+    await flush();
+
+    expect(calls).toEqual(['authenticating', 'authenticated', 'handler', 'handled game:ready']);
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 7, action: 'game:ready', success: true, data: { ready: true } }
+    ]);
+  });
+
+  test('should report middleware that call next more than once', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = jest.fn();
+    router.registerCommandHandler('game:ready', handler);
+    router.use((_context, next) => {
+      next();
+      return next();
+    });
+
+    send({ action: 'game:ready' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, code: CLIENT_ERROR_CODES.INTERNAL_ERROR, message: 'Failed to process message' }
+    ]);
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('should remove middleware', () => {
+    const middleware: CommandMiddleware = context => context.reject(CLIENT_ERROR_CODES.REJECTED, 'Closed');
+    const handler = jest.fn();
+    router.registerCommandHandler('game:ready', handler);
+    router.use(middleware);
+    router.use('game', middleware);
+
+    router.removeMiddleware(middleware);
+    send({ action: 'game:ready' });
+
+    expect(handler).toHaveBeenCalled();
+  });
+
+  test('should replace the middleware of a handler along with it', () => {
+    const handler = jest.fn();
+    router.registerCommandHandler('game:ready', jest.fn(), undefined, [requireTable]);
+    router.registerCommandHandler('game:ready', handler);
+
+    send({ action: 'game:ready' });
+
+    expect(handler).toHaveBeenCalled();
+  });
+
+  describe('built-in middleware', () => {
+    let table: Table;
+
+    beforeEach(() => {
+      table = new Table(eventBus, 2, 1, 'table');
+    });
+
+    afterEach(() => {
+      table.dispose();
+    });
+
+    test('should require the player to be at a table', () => {
+      const emitSpy = jest.spyOn(eventBus, 'emit');
+
+      send({ action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 0 });
+      expect(emitSpy).not.toHaveBeenCalledWith('request:table:seat:sit', expect.anything(), expect.anything(), expect.anything());
+      expect(messages).toEqual([
+        { type: CLIENT_MESSAGE_TYPES.ERROR, code: CLIENT_ERROR_CODES.NOT_AT_TABLE, message: 'You are not at a table' }
+      ]);
+
+      table.addPlayer(player);
+      send({ action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 0 });
+      expect(emitSpy).toHaveBeenCalledWith('request:table:seat:sit', player, 'table', 0);
+    });
+
+    test('should require the player to be seated', () => {
+      const handler = jest.fn();
+      router.registerCommandHandler('game:hit', (_player, _data, context) => handler(context.state), undefined, [requireSeat]);
+      table.addPlayer(player);
+      messages.length = 0;
+
+      send({ action: 'game:hit' });
+      expect(handler).not.toHaveBeenCalled();
+      expect(messages).toEqual([
+        { type: CLIENT_MESSAGE_TYPES.ERROR, code: CLIENT_ERROR_CODES.NOT_SEATED, message: 'You are not seated at the table' }
+      ]);
+
+      table.sitPlayerAtSeat('player', 1);
+      send({ action: 'game:hit' });
+      expect(handler).toHaveBeenCalledWith({ table, seatIndexes: [1] });
+    });
+  });
+});
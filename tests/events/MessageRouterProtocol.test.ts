@@ -0,0 +1,114 @@
+import * as WebSocket from 'ws';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { EventBus } from '../../src/events/EventBus';
+import { PLAYER_EVENTS } from '../../src/events/PlayerEvents';
+import { Player } from '../../src/core/Player';
+import {
+  CLIENT_ERROR_CODES,
+  CLIENT_MESSAGE_TYPES,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  PROTOCOL_VERSION,
+  adaptMessage
+} from '../../src/core/commands/index';
+import { RouterFixture, createRouterFixture } from '../helpers/router';
+
+describe('MessageRouter protocol negotiation', () => {
+  let eventBus: EventBus;
+  let router: MessageRouter;
+  let player: Player;
+  let messages: any[];
+  let socket: WebSocket.WebSocket;
+  let send: RouterFixture['send'];
+
+  beforeEach(() => {
+    ({ eventBus, router, player, messages, socket, send } = createRouterFixture());
+  });
+
+  test('should treat clients without a handshake as the oldest version', () => {
+    expect(player.getProtocolVersion()).toBe(MIN_PROTOCOL_VERSION);
+    expect(player.getProtocolFeatures()).toEqual([]);
+  });
+
+  test('should negotiate the version and the features both sides support', () => {
+    const listener = jest.fn();
+    eventBus.on(PLAYER_EVENTS.PROTOCOL_NEGOTIATED, listener);
+
+    send({
+      action: 'protocol:hello',
+      requestId: 'hello',
+      version: PROTOCOL_VERSION + 5,
+      features: [PROTOCOL_FEATURES.STATE_PATCHES, 'holograms', PROTOCOL_FEATURES.STATE_PATCHES]
+    });
+
+    const welcome = {
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION,
+      maxVersion: PROTOCOL_VERSION,
+      features: [PROTOCOL_FEATURES.STATE_PATCHES]
+    };
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.PROTOCOL.WELCOME, requestId: 'hello', data: welcome },
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'hello', action: 'protocol:hello', success: true }
+    ]);
+    expect(player.getProtocolVersion()).toBe(PROTOCOL_VERSION);
+    expect(player.hasProtocolFeature(PROTOCOL_FEATURES.STATE_PATCHES)).toBe(true);
+    expect(player.hasProtocolFeature('holograms')).toBe(false);
+    expect(listener).toHaveBeenCalledWith(player, PROTOCOL_VERSION, [PROTOCOL_FEATURES.STATE_PATCHES]);
+  });
+
+  test('should negotiate features registered by games', () => {
+    router.registerProtocolFeature('holograms');
+
+    send({ action: 'protocol:hello', version: PROTOCOL_VERSION, features: ['holograms'] });
+
+    expect(player.getProtocolFeatures()).toEqual(['holograms']);
+    expect(router.getProtocolDescription()).toEqual(expect.objectContaining({
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION,
+      features: expect.arrayContaining(['holograms', PROTOCOL_FEATURES.RATE_LIMITS])
+    }));
+  });
+
+  test('should refuse clients that do not speak a supported version', () => {
+    send({ action: 'protocol:hello', version: PROTOCOL_VERSION + 2, minVersion: PROTOCOL_VERSION + 1 });
+
+    expect(messages[0]).toEqual({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.UNSUPPORTED_PROTOCOL_VERSION,
+      message: `The server supports protocol versions ${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}`,
+      minVersion: MIN_PROTOCOL_VERSION,
+      maxVersion: PROTOCOL_VERSION
+    });
+    expect(socket.close).toHaveBeenCalledWith(1002, 'Unsupported protocol version');
+    expect(player.getProtocolVersion()).toBe(MIN_PROTOCOL_VERSION);
+  });
+
+  test('should validate handshakes', () => {
+    send({ action: 'protocol:hello', version: 0 });
+    send({ action: 'protocol:hello', version: PROTOCOL_VERSION, features: 'statePatches' });
+
+    expect(messages.map(message => message.code)).toEqual([
+      CLIENT_ERROR_CODES.INVALID_PARAMETER,
+      CLIENT_ERROR_CODES.INVALID_PARAMETER
+    ]);
+    expect(socket.close).not.toHaveBeenCalled();
+  });
+
+  test('should adapt the player state to version 1 clients', () => {
+    send({ action: 'player:state:get' });
+    send({ action: 'protocol:hello', version: PROTOCOL_VERSION });
+    send({ action: 'player:state:get' });
+
+    const data = { id: 'player', attributes: {} };
+    expect(messages[0]).toEqual({ type: CLIENT_MESSAGE_TYPES.PLAYER.STATE, data, ...data });
+    expect(messages[2]).toEqual({ type: CLIENT_MESSAGE_TYPES.PLAYER.STATE, data });
+  });
+
+  test('should leave messages the versions do not change as they are', () => {
+    const message = { type: CLIENT_MESSAGE_TYPES.LOBBY.STATE, data: { games: [] } };
+
+    expect(adaptMessage(message, 1)).toBe(message);
+    expect(adaptMessage(message, PROTOCOL_VERSION)).toBe(message);
+  });
+});
@@ -0,0 +1,188 @@
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { EventBus } from '../../src/events/EventBus';
+import { Player } from '../../src/core/Player';
+import { Table } from '../../src/core/Table';
+import { TABLE_EVENTS } from '../../src/events/EventTypes';
+import { CLIENT_COMMAND_TYPES, CLIENT_ERROR_CODES, CLIENT_MESSAGE_TYPES } from '../../src/core/commands/index';
+import { RouterFixture, createRouterFixture, createSocketPlayer, flush } from '../helpers/router';
+
+describe('MessageRouter requests', () => {
+  let eventBus: EventBus;
+  let router: MessageRouter;
+  let player: Player;
+  let messages: any[];
+  let send: RouterFixture['send'];
+
+  beforeEach(() => {
+    ({ eventBus, router, player, messages, send } = createRouterFixture());
+  });
+
+  test('should respond to a command with a request ID', () => {
+    const handler = jest.fn();
+    router.registerCommandHandler('game:ready', handler);
+
+    send({ action: 'game:ready', requestId: 'req-1' });
+
+    expect(handler).toHaveBeenCalledWith(player, { action: 'game:ready', requestId: 'req-1' }, expect.anything());
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'req-1', action: 'game:ready', success: true }
+    ]);
+  });
+
+  test('should not respond to a command without a request ID', () => {
+    router.registerCommandHandler('game:ready', () => ({ success: true }));
+
+    send({ action: 'game:ready' });
+
+    expect(messages).toEqual([]);
+  });
+
+  test('should respond with the result returned by the handler', () => {
+    router.registerCommandHandler('game:bet', (_player, data) => data.amount > 0
+      ? { success: true, data: { accepted: data.amount } }
+      : { success: false, error: { code: 'INVALID_BET', message: 'Bets must be positive' } });
+
+    send({ action: 'game:bet', amount: 10, requestId: 1 });
+    send({ action: 'game:bet', amount: 0, requestId: 2 });
+
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 1, action: 'game:bet', success: true, data: { accepted: 10 } },
+      {
+        type: CLIENT_MESSAGE_TYPES.RESPONSE,
+        requestId: 2,
+        action: 'game:bet',
+        success: false,
+        error: { code: 'INVALID_BET', message: 'Bets must be positive' }
+      }
+    ]);
+  });
+
+  test('should tag the errors of a command and fail its response', () => {
+    const table = new Table(eventBus, 2, 1, 'table');
+    const { player: other, messages: otherMessages } = createSocketPlayer('other', eventBus);
+    eventBus.on('request:table:seat:sit', (sitting: Player, _tableId: string, seatIndex: number) => {
+      table.getEventBus().emit(TABLE_EVENTS.PLAYER_SIT_REQUEST, sitting, table, seatIndex);
+    });
+    table.addPlayer(player);
+    table.addPlayer(other);
+    table.sitPlayerAtSeat('other', 0);
+    messages.length = 0;
+    otherMessages.length = 0;
+
+    send({ action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 0, requestId: 'sit-1' });
+
+    const error = { code: CLIENT_ERROR_CODES.SEAT_SIT_FAILED, message: 'Failed to sit at seat' };
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...error, requestId: 'sit-1' },
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'sit-1', action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, success: false, error }
+    ]);
+    expect(otherMessages).toEqual([]);
+    table.dispose();
+  });
+
+  test('should only tag the messages sent to the player of the command', () => {
+    const { player: other, messages: otherMessages } = createSocketPlayer('other', eventBus);
+    router.registerCommandHandler('game:chat', (_player, data) => {
+      player.sendMessage({ type: 'game:chat', text: data.text });
+      other.sendMessage({ type: 'game:chat', text: data.text });
+    });
+
+    send({ action: 'game:chat', text: 'hello', requestId: 'chat-1' });
+
+    expect(messages[0]).toEqual({ type: 'game:chat', text: 'hello', requestId: 'chat-1' });
+    expect(otherMessages).toEqual([{ type: 'game:chat', text: 'hello' }]);
+  });
+
+  test('should respond to async handlers once they settle', async () => {
+    router.registerCommandHandler('game:fold', async () => {
+      await flush();
+      player.sendMessage({ type: CLIENT_MESSAGE_TYPES.ERROR, code: 'NOT_YOUR_TURN', message: 'It is not your turn' });
+    });
+
+    send({ action: 'game:fold', requestId: 'fold-1' });
+    expect(messages).toEqual([]);
+
+    await flush();
+    await flush();
+
+    const error = { code: 'NOT_YOUR_TURN', message: 'It is not your turn' };
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...error, requestId: 'fold-1' },
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'fold-1', action: 'game:fold', success: false, error }
+    ]);
+  });
+
+  test('should not tag messages sent by work a command started once it is handled', () => {
+    jest.useFakeTimers();
+    try {
+      router.registerCommandHandler('game:start', (commandPlayer) => {
+        setTimeout(() => {
+          commandPlayer.sendMessage({ type: CLIENT_MESSAGE_TYPES.ERROR, code: 'TURN_TIMEOUT', message: 'Turn timed out' });
+        }, 1000);
+      });
+
+      send({ action: 'game:start', requestId: 'start' });
+      jest.advanceTimersByTime(1000);
+
+      expect(messages).toEqual([
+        { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'start', action: 'game:start', success: true },
+        { type: CLIENT_MESSAGE_TYPES.ERROR, code: 'TURN_TIMEOUT', message: 'Turn timed out' }
+      ]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should report handlers that throw with an internal error', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    router.registerCommandHandler('game:broken', () => {
+      throw new Error('Broken');
+    });
+    router.registerCommandHandler('game:rejected', async () => {
+      throw new Error('Rejected');
+    });
+
+    send({ action: 'game:broken', requestId: 'broken-1' });
+    send({ action: 'game:rejected' });
+    await flush();
+
+    const error = { code: CLIENT_ERROR_CODES.INTERNAL_ERROR, message: 'Failed to process message' };
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'broken-1', action: 'game:broken', success: false, error },
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...error }
+    ]);
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('should fail the response of a command rejected by an interceptor', () => {
+    router.registerCustomAction('game:raise');
+    eventBus.addInterceptor('game:raise', interception => interception.reject('Betting is closed'));
+
+    send({ action: 'game:raise', requestId: 'raise-1' });
+
+    const error = { code: CLIENT_ERROR_CODES.REJECTED, message: 'Betting is closed' };
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, ...error, requestId: 'raise-1' },
+      { type: CLIENT_MESSAGE_TYPES.RESPONSE, requestId: 'raise-1', action: 'game:raise', success: false, error }
+    ]);
+  });
+
+  test('should reject invalid request IDs', () => {
+    const handler = jest.fn();
+    router.registerCommandHandler('game:ready', handler);
+
+    send({ action: 'game:ready', requestId: { id: 1 } });
+    send({ requestId: 'no-action' });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(messages).toEqual([
+      { type: CLIENT_MESSAGE_TYPES.ERROR, code: CLIENT_ERROR_CODES.INVALID_PARAMETER, message: 'Invalid requestId parameter' },
+      {
+        type: CLIENT_MESSAGE_TYPES.ERROR,
+        code: CLIENT_ERROR_CODES.INVALID_MESSAGE,
+        message: 'Invalid message format: missing or invalid action',
+        requestId: 'no-action'
+      }
+    ]);
+  });
+});
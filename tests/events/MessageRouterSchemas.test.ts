@@ -0,0 +1,164 @@
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { EventBus } from '../../src/events/EventBus';
+import { Player } from '../../src/core/Player';
+import {
+  CLIENT_COMMAND_TYPES,
+  CLIENT_ERROR_CODES,
+  CLIENT_MESSAGE_TYPES,
+  CommandSchema,
+  validateCommand
+} from '../../src/core/commands/index';
+
+function createMockPlayer(): Player {
+  return {
+    id: 'player',
+    getTable: jest.fn().mockReturnValue(null),
+    sendMessage: jest.fn()
+  } as unknown as Player;
+}
+
+const betSchema: CommandSchema = {
+  description: 'Places a bet',
+  fields: {
+    amount: { type: 'integer', minimum: 1 },
+    currency: { type: 'string', enum: ['chips', 'gold'], optional: true },
+    split: {
+      type: 'object',
+      optional: true,
+      fields: { hands: { type: 'array', maxLength: 2, items: { type: 'integer', minimum: 0 } } }
+    }
+  }
+};
+
+describe('validateCommand', () => {
+  test('should accept valid commands', () => {
+    expect(validateCommand(betSchema, { amount: 10 })).toBeNull();
+    expect(validateCommand(betSchema, { amount: 10, currency: 'gold', split: { hands: [0, 1] }, extra: true })).toBeNull();
+    expect(validateCommand({}, { anything: 'goes' })).toBeNull();
+  });
+
+  test('should report missing fields', () => {
+    expect(validateCommand(betSchema, {})).toEqual({
+      code: CLIENT_ERROR_CODES.MISSING_PARAMETER,
+      message: 'Missing amount parameter'
+    });
+    expect(validateCommand(betSchema, { amount: null })).toEqual({
+      code: CLIENT_ERROR_CODES.MISSING_PARAMETER,
+      message: 'Missing amount parameter'
+    });
+    expect(validateCommand(betSchema, { amount: 1, split: {} })).toEqual({
+      code: CLIENT_ERROR_CODES.MISSING_PARAMETER,
+      message: 'Missing split.hands parameter'
+    });
+  });
+
+  test('should report invalid fields', () => {
+    const invalid = (path: string) => ({ code: CLIENT_ERROR_CODES.INVALID_PARAMETER, message: `Invalid ${path} parameter` });
+
+    expect(validateCommand(betSchema, { amount: '10' })).toEqual(invalid('amount'));
+    expect(validateCommand(betSchema, { amount: 1.5 })).toEqual(invalid('amount'));
+    expect(validateCommand(betSchema, { amount: 0 })).toEqual(invalid('amount'));
+    expect(validateCommand(betSchema, { amount: 1, currency: 'coins' })).toEqual(invalid('currency'));
+    expect(validateCommand(betSchema, { amount: 1, split: [] })).toEqual(invalid('split'));
+    expect(validateCommand(betSchema, { amount: 1, split: { hands: [0, 1, 2] } })).toEqual(invalid('split.hands'));
+    expect(validateCommand(betSchema, { amount: 1, split: { hands: [0, -1] } })).toEqual(invalid('split.hands[1]'));
+  });
+});
+
+describe('MessageRouter schemas', () => {
+  let eventBus: EventBus;
+  let router: MessageRouter;
+  let player: Player;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    router = new MessageRouter(eventBus);
+    player = createMockPlayer();
+  });
+
+  test('should validate commands before calling their handler', () => {
+    const handler = jest.fn();
+    router.registerCommandHandler('game:bet', handler, betSchema);
+
+    router.processMessage(player, JSON.stringify({ action: 'game:bet', amount: -5 }));
+    expect(handler).not.toHaveBeenCalled();
+    expect(player.sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.INVALID_PARAMETER,
+      message: 'Invalid amount parameter'
+    });
+
+    router.processMessage(player, JSON.stringify({ action: 'game:bet', amount: 5 }));
+    expect(handler).toHaveBeenCalledWith(player, { action: 'game:bet', amount: 5 }, expect.anything());
+  });
+
+  test('should validate custom actions', () => {
+    const listener = jest.fn();
+    eventBus.on('game:fold', listener);
+    router.registerCustomAction('game:fold', { fields: { handId: { type: 'string' } } });
+
+    router.processMessage(player, JSON.stringify({ action: 'game:fold' }));
+    expect(listener).not.toHaveBeenCalled();
+    expect(player.sendMessage).toHaveBeenCalledWith({
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.MISSING_PARAMETER,
+      message: 'Missing handId parameter'
+    });
+
+    router.processMessage(player, JSON.stringify({ action: 'game:fold', handId: 'main' }));
+    expect(listener).toHaveBeenCalledWith(player, { action: 'game:fold', handId: 'main' });
+  });
+
+  test('should keep the schema of an action when its handler is replaced', () => {
+    const handler = jest.fn();
+    router.registerCommandHandler(CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, handler);
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT, seatIndex: 'first' }));
+    expect(handler).not.toHaveBeenCalled();
+    expect(router.getCommandSchema(CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT)?.fields).toHaveProperty('seatIndex');
+  });
+
+  test('should validate the parameters of built-in commands', () => {
+    const emitSpy = jest.spyOn(eventBus, 'emit');
+
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.TABLE.JOIN, tableId: 42 }));
+    router.processMessage(player, JSON.stringify({ action: CLIENT_COMMAND_TYPES.LOBBY.CREATE_TABLE }));
+
+    expect(emitSpy).not.toHaveBeenCalledWith('request:table:join', expect.anything(), expect.anything());
+    expect(player.sendMessage).toHaveBeenNthCalledWith(1, {
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.INVALID_PARAMETER,
+      message: 'Invalid tableId parameter'
+    });
+    expect(player.sendMessage).toHaveBeenNthCalledWith(2, {
+      type: CLIENT_MESSAGE_TYPES.ERROR,
+      code: CLIENT_ERROR_CODES.MISSING_PARAMETER,
+      message: 'Missing gameId parameter'
+    });
+  });
+
+  test('should describe the protocol', () => {
+    router.registerCommandHandler('game:bet', jest.fn(), betSchema);
+    router.registerCommandHandler('game:chat', jest.fn());
+
+    const description = router.getProtocolDescription();
+
+    expect(description.commands.map(command => command.action)).toEqual(
+      [...description.commands.map(command => command.action)].sort()
+    );
+    expect(description.commands).toContainEqual({ action: 'game:bet', description: 'Places a bet', fields: betSchema.fields });
+    expect(description.commands).toContainEqual({ action: 'game:chat' });
+    expect(description.commands).toContainEqual({
+      action: CLIENT_COMMAND_TYPES.TABLE.SEAT_SIT,
+      description: "Sits at a seat of the player's table",
+      fields: { seatIndex: { type: 'integer', minimum: 0, description: 'The index of the seat' } }
+    });
+    expect(description.messageTypes).toEqual(expect.arrayContaining([
+      CLIENT_MESSAGE_TYPES.TABLE.STATE,
+      CLIENT_MESSAGE_TYPES.ERROR,
+      CLIENT_MESSAGE_TYPES.RESPONSE
+    ]));
+    expect(description.errorCodes).toContain(CLIENT_ERROR_CODES.INVALID_PARAMETER);
+    expect(JSON.parse(JSON.stringify(description))).toEqual(description);
+  });
+});
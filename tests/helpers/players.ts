@@ -0,0 +1,37 @@
+import { Player } from '../../src/core/Player';
+import { Table } from '../../src/core/Table';
+
+/**
+ * Options for a mock player.
+ */
+export interface MockPlayerOptions {
+  /** The player's attributes. */
+  attributes?: Record<string, any>;
+  /** The protocol features the player's client supports. */
+  features?: string[];
+}
+
+/**
+ * Creates a mock player that remembers its table and records the messages sent to it.
+ */
+export function createMockPlayer(id: string, options: MockPlayerOptions = {}): Player {
+  const { attributes = {}, features = [] } = options;
+  let table: Table | null = null;
+  return {
+    id,
+    getTable: jest.fn(() => table),
+    setTable: jest.fn((newTable: Table | null) => { table = newTable; }),
+    hasProtocolFeature: jest.fn((feature: string) => features.includes(feature)),
+    sendMessage: jest.fn(),
+    getAttribute: jest.fn((key: string) => attributes[key]),
+    getAttributes: jest.fn(() => attributes)
+  } as unknown as Player;
+}
+
+/**
+ * Gets the last message sent to a mock player.
+ */
+export function lastMessage(player: Player): any {
+  const calls = (player.sendMessage as jest.Mock).mock.calls;
+  return calls[calls.length - 1][0];
+}
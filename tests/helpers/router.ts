@@ -0,0 +1,55 @@
+import * as WebSocket from 'ws';
+import { MessageRouter } from '../../src/events/MessageRouter';
+import { EventBus } from '../../src/events/EventBus';
+import { Player } from '../../src/core/Player';
+
+/**
+ * A player on a stub socket, with the messages sent to it decoded.
+ */
+export interface SocketPlayer {
+  player: Player;
+  messages: any[];
+  socket: WebSocket.WebSocket;
+}
+
+/**
+ * A message router with a connected player.
+ */
+export interface RouterFixture extends SocketPlayer {
+  eventBus: EventBus;
+  router: MessageRouter;
+  /** Processes a message from the player. */
+  send: (message: Record<string, any>) => void;
+}
+
+/**
+ * Creates a player on a stub socket that records the messages sent to it.
+ */
+export function createSocketPlayer(id: string, eventBus: EventBus): SocketPlayer {
+  const messages: any[] = [];
+  const socket = {
+    on: jest.fn(),
+    send: jest.fn((data: string) => messages.push(JSON.parse(data))),
+    close: jest.fn(),
+    readyState: 1
+  } as unknown as WebSocket.WebSocket;
+  return { player: new Player(socket, eventBus, id), messages, socket };
+}
+
+/**
+ * Creates a message router and a player that sends JSON messages to it.
+ */
+export function createRouterFixture(): RouterFixture {
+  const eventBus = new EventBus();
+  const router = new MessageRouter(eventBus);
+  const { player, messages, socket } = createSocketPlayer('player', eventBus);
+  const send = (message: Record<string, any>) => router.processMessage(player, JSON.stringify(message));
+  return { eventBus, router, player, messages, socket, send };
+}
+
+/**
+ * Waits for pending promise callbacks, such as async command handlers.
+ */
+export function flush(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}